@@ -1,18 +1,17 @@
-import { InfluxDBClient } from '@influxdata/influxdb3-client';
 import dotenv from 'dotenv';
+import { createStorage } from './storage';
 
 dotenv.config();
 
-const token = process.env.INFLUXDB_TOKEN;
-const host = process.env.INFLUXDB_HOST || 'https://us-east-1-1.aws.cloud2.influxdata.com';
-const database = process.env.INFLUXDB_DATABASE;
+// STORAGE_BACKEND=memory runs without InfluxDB Cloud (STORAGE_FILE persists it locally)
+const storage = createStorage({
+    backend: process.env.STORAGE_BACKEND || 'influxdb',
+    influxHost: process.env.INFLUXDB_HOST || 'https://us-east-1-1.aws.cloud2.influxdata.com',
+    influxToken: process.env.INFLUXDB_TOKEN,
+    influxDatabase: process.env.INFLUXDB_DATABASE,
+    localFile: process.env.STORAGE_FILE
+});
 
-console.log('Using InfluxDB Database:', database);
+console.log('Using storage backend:', storage.describe());
 
-if (!token) {
-    throw new Error('INFLUXDB_TOKEN is not set in .env file');
-}
-
-const influxClient = new InfluxDBClient({ host, token });
-
-export { influxClient, database };
\ No newline at end of file
+export { storage };
@@ -1,8 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { DEFAULT_TIMEZONE } from '../utils/timezone';
+import { SignatureParts } from '../services/deviceAuthService';
+import deviceRegistryService from '../services/deviceRegistryService';
+import deviceAccessService from '../services/deviceAccessService';
+import userService, { PublicUser } from '../services/userService';
+import { Permission, hasPermission } from '../utils/permissions';
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: PublicUser;          // set by authenticate
+            sessionId?: string;         // set by authenticate
+            adminKey?: boolean;         // set by requirePermission for X-Admin-Key requests
+            rawBody?: string;           // set by the body parsers
+        }
+    }
+}
 
 /**
- * Device Authentication Middleware
- * Validates deviceId parameter for dashboard endpoints
+ * Device Authorization Middleware
+ * Validates the deviceId parameter of dashboard endpoints and checks the
+ * authenticated user may see the device; use after authenticate
  */
 export const validateDeviceId = (req: Request, res: Response, next: NextFunction) => {
     const deviceId = req.query.deviceId as string || req.body.deviceId as string;
@@ -24,9 +43,9 @@ export const validateDeviceId = (req: Request, res: Response, next: NextFunction
         });
     }
 
-    // Basic validation - ensure deviceId is alphanumeric with hyphens
+    // Basic validation - ensure deviceId is a single alphanumeric value with hyphens
     const deviceIdPattern = /^[a-zA-Z0-9-_]+$/;
-    if (!deviceIdPattern.test(deviceId)) {
+    if (typeof deviceId !== 'string' || !deviceIdPattern.test(deviceId)) {
         return res.status(400).json({
             success: false,
             error: {
@@ -36,73 +55,189 @@ export const validateDeviceId = (req: Request, res: Response, next: NextFunction
         });
     }
 
-    // In production, you would verify the device exists and user has access
-    // For now, we'll just validate the format
+    // The device must be registered and visible to the user set by authenticate
+    const user = req.user;
+    const access = user
+        ? deviceAccessService.check(user, deviceId)
+        : { ok: false as const, code: 'UNAUTHORIZED' as const };
+    if (!access.ok) {
+        const denied: Record<typeof access.code, { status: number; message: string }> = {
+            UNAUTHORIZED: { status: 401, message: 'A valid access token is required' },
+            FORBIDDEN: { status: 403, message: 'You do not have access to this device' },
+            DEVICE_NOT_FOUND: { status: 404, message: 'Device not found' }
+        };
+        return res.status(denied[access.code].status).json({
+            success: false,
+            error: {
+                code: access.code,
+                message: denied[access.code].message
+            }
+        });
+    }
 
     next();
 };
 
 /**
- * Mock user database (in production, use a real database)
+ * Admin API guard for device provisioning endpoints
+ * Requires the X-Admin-Key header to match ADMIN_API_KEY; disabled when unset
  */
-const mockUsers: any = {
-    'user-1': {
-        name: 'Nuwan Perera',
-        email: 'nuwan.perera@kln.ac.lk',
-        role: 'admin',
-        connectionCategory: 'domestic-3phase',
-        monthlyBudget: 5000
-    },
-    'user-2': {
-        name: 'Kasun Silva',
-        email: 'kasun.silva@example.com',
-        role: 'user',
-        connectionCategory: 'general-purpose-3phase',
-        monthlyBudget: 15000
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+    const adminKey = process.env.ADMIN_API_KEY;
+    const given = req.get('X-Admin-Key') || '';
+
+    if (!adminKey) {
+        return res.status(403).json({
+            success: false,
+            error: {
+                code: 'FORBIDDEN',
+                message: 'Admin API is disabled (ADMIN_API_KEY is not set)'
+            }
+        });
     }
-};
 
-const mockDevices: any = {
-    'TEST': {
-        name: 'Main Energy Meter',
-        location: 'Building A - Ground Floor',
-        userId: 'user-1'
-    },
-    'ESP32-D4E5F6': {
-        name: 'Factory Power Monitor',
-        location: 'Production Floor',
-        userId: 'user-2'
+    const expected = Buffer.from(adminKey);
+    const actual = Buffer.from(given);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return res.status(401).json({
+            success: false,
+            error: {
+                code: 'UNAUTHORIZED',
+                message: 'Invalid admin key'
+            }
+        });
     }
+
+    next();
 };
 
+/**
+ * Signature of a device request: short query params k/t/n/s (GSM modules)
+ * or X-Key-Id / X-Timestamp / X-Nonce / X-Signature headers
+ */
+export const getSignatureParts = (req: Request): SignatureParts => ({
+    keyId: (req.query.k as string) || req.get('X-Key-Id'),
+    timestamp: (req.query.t as string) || req.get('X-Timestamp'),
+    nonce: (req.query.n as string) || req.get('X-Nonce'),
+    signature: (req.query.s as string) || req.get('X-Signature')
+});
+
+/**
+ * Request body exactly as received (captured by the body parsers)
+ */
+export const getRawBody = (req: Request): string =>
+    req.rawBody ?? (typeof req.body === 'string' ? req.body : '');
+
 /**
  * Get user by ID
  */
 export const getUserById = (userId: string) => {
-    return mockUsers[userId] || null;
+    return userService.getById(userId);
 };
 
 /**
- * Get device by ID
+ * Get device by ID (from the device registry)
  */
 export const getDeviceById = (deviceId: string) => {
-    return mockDevices[deviceId] || null;
+    return deviceRegistryService.get(deviceId);
+};
+
+/**
+ * Devices with their own MQTT topic instead of the default topic template
+ */
+export const getDeviceMqttTopics = (): Map<string, string> => {
+    const topics = new Map<string, string>();
+    for (const device of deviceRegistryService.list({ status: 'active' })) {
+        if (device.mqttTopic) topics.set(device.deviceId, device.mqttTopic);
+    }
+    return topics;
+};
+
+/**
+ * Resolve the timezone used for a device's day boundaries
+ * Device setting wins, then the owner's profile, then DEFAULT_TIMEZONE
+ */
+export const getDeviceTimeZone = (deviceId: string): string => {
+    const device = getDeviceById(deviceId);
+    const owner = device?.userId ? getUserById(device.userId) : null;
+    return device?.timezone || owner?.timezone || DEFAULT_TIMEZONE;
+};
+
+/**
+ * User token guard for dashboard endpoints
+ * Requires `Authorization: Bearer <access token>` from /api/auth/login or
+ * /api/auth/refresh and puts the user on the request (see getRequestUser)
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, token] = (req.get('Authorization') || '').split(' ');
+    const claims = scheme === 'Bearer' && token ? userService.verifyAccessToken(token) : null;
+    const user = claims ? userService.getById(claims.sub) : null;
+
+    if (!claims || !user) {
+        return res.status(401).json({
+            success: false,
+            error: {
+                code: 'UNAUTHORIZED',
+                message: 'A valid access token is required'
+            }
+        });
+    }
+
+    req.user = user;
+    req.sessionId = claims.sid;
+    next();
+};
+
+/**
+ * User set by authenticate
+ * Throws on routes without it (X-Admin-Key requests carry no user)
+ */
+export const getRequestUser = (req: Request): PublicUser => {
+    if (!req.user) throw new Error(`No authenticated user on ${req.method} ${req.path}`);
+    return req.user;
+};
+
+/**
+ * Login session of the request's access token
+ */
+export const getRequestSessionId = (req: Request): string => {
+    if (!req.sessionId) throw new Error(`No login session on ${req.method} ${req.path}`);
+    return req.sessionId;
 };
 
 /**
- * Get user profile (mock - returns default user)
+ * Role check for a route; use after authenticate
  */
-export const getCurrentUser = () => {
-    return mockUsers['user-1']; // Default user for now
+export const authorize = (permission: Permission) => (req: Request, res: Response, next: NextFunction) => {
+    const { role } = getRequestUser(req);
+    if (!hasPermission(role, permission)) {
+        return res.status(403).json({
+            success: false,
+            error: {
+                code: 'FORBIDDEN',
+                message: `The ${role} role does not allow ${permission}`
+            }
+        });
+    }
+    next();
 };
 
 /**
- * Update user profile
+ * Administration guard: the X-Admin-Key (every permission) when the header
+ * is sent, otherwise a user token whose role has `permission`
  */
-export const updateUserProfile = (userId: string, updates: any) => {
-    if (mockUsers[userId]) {
-        mockUsers[userId] = { ...mockUsers[userId], ...updates };
-        return mockUsers[userId];
+export const requirePermission = (permission: Permission) => (req: Request, res: Response, next: NextFunction) => {
+    if (req.get('X-Admin-Key') !== undefined) {
+        return requireAdminKey(req, res, () => {
+            req.adminKey = true;
+            next();
+        });
     }
-    return null;
+    authenticate(req, res, () => authorize(permission)(req, res, next));
 };
+
+/**
+ * Whether a request that passed requirePermission also has `permission`
+ */
+export const requestHasPermission = (req: Request, permission: Permission): boolean =>
+    req.adminKey === true || hasPermission(getRequestUser(req).role, permission);
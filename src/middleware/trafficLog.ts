@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import trafficLogService, { UNKNOWN_DEVICE } from '../services/trafficLogService';
+import { getRawBody } from './auth';
+
+/**
+ * Traffic Log Middleware
+ * Records the raw request and its outcome once the response is sent.
+ * Handlers that learn the device ID from the payload itself (compact
+ * payloads, batches) set `res.locals.deviceId`.
+ */
+export const logTraffic = (req: Request, res: Response, next: NextFunction) => {
+    const started = Date.now();
+
+    res.on('finish', () => {
+        const body = req.body && typeof req.body === 'object' ? req.body : {};
+        const deviceId = res.locals.deviceId || req.query.d || req.query.deviceId || body.deviceId || UNKNOWN_DEVICE;
+
+        trafficLogService.record({
+            receivedAt: new Date(started).toISOString(),
+            deviceId: String(deviceId),
+            route: req.baseUrl + String(req.route?.path ?? req.path),
+            method: req.method,
+            ip: (req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || null,
+            headers: req.headers as Record<string, string>,
+            query: req.query,
+            body: getRawBody(req),
+            status: res.statusCode,
+            latencyMs: Date.now() - started
+        }).catch(error => console.error('Error writing traffic log:', error));
+    });
+
+    next();
+};
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep test readings out of the configured database and queue
+process.env.STORAGE_BACKEND = 'memory';
+process.env.INGEST_QUEUE_FILE = path.join(os.tmpdir(), `mqtt-test-queue-${process.pid}.jsonl`);
+process.env.MQTT_URL = '';
+process.env.MQTT_EMBEDDED_PORT = process.env.MQTT_EMBEDDED_PORT || '18830';
+
+/**
+ * Publish a 3-phase reading to an embedded broker and print the acknowledgement
+ * Usage: npm run mqtt-test -- [deviceId]
+ */
+const main = async () => {
+    const { connectAsync } = await import('mqtt');
+    const { default: mqttIngestService } = await import('./services/mqttIngestService');
+
+    const deviceId = process.argv[2] || 'TEST';
+    const topic = `energo/${deviceId}/3phase`;
+
+    await mqttIngestService.start();
+    const device = await connectAsync(`mqtt://localhost:${process.env.MQTT_EMBEDDED_PORT}`);
+
+    const ack = new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('No acknowledgement within 5s')), 5000);
+        device.on('message', (_topic, payload) => {
+            clearTimeout(timer);
+            resolve(payload.toString());
+        });
+    });
+    await device.subscribeAsync(`${topic}/ack`, { qos: 1 });
+
+    // Give the service's subscription a moment to register
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const ts = Math.floor(Date.now() / 1000);
+    await device.publishAsync(topic, `ts=${ts}&v1=231&c1=1.2&pf1=0.95&v2=229&c2=0.9&pf2=0.93&v3=230&c3=1.1&pf3=0.97`, { qos: 1 });
+    console.log(`Published to ${topic}, ack: ${await ack}`);
+
+    await device.endAsync();
+    await mqttIngestService.stop();
+    fs.rmSync(process.env.INGEST_QUEUE_FILE!, { force: true });
+};
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('MQTT test failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,50 @@
+import axios from 'axios';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Replay archived payloads of a device through the current ingestion logic
+ * Usage: npm run reprocess -- <deviceId> <from ISO> <to ISO> [--apply]
+ * Without --apply only the energy diff is printed.
+ * Runs through the server's reprocess route (REPROCESS_SERVER_URL, default
+ * http://localhost:$PORT, with ADMIN_API_KEY) so live readings of the device
+ * wait while the range is rewritten.
+ */
+const main = async () => {
+    const args = process.argv.slice(2);
+    const apply = args.includes('--apply');
+    const [deviceId, fromParam, toParam] = args.filter(arg => arg !== '--apply');
+    const from = new Date(fromParam || '');
+    const to = new Date(toParam || '');
+
+    if (!deviceId || isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        console.error('Usage: npm run reprocess -- <deviceId> <from ISO> <to ISO> [--apply]');
+        process.exit(1);
+    }
+    if (!process.env.ADMIN_API_KEY) {
+        console.error('ADMIN_API_KEY must be set to call the server');
+        process.exit(1);
+    }
+
+    const serverUrl = process.env.REPROCESS_SERVER_URL || `http://localhost:${process.env.PORT || 4000}`;
+    const response = await axios.post(
+        `${serverUrl}/api/devices/${encodeURIComponent(deviceId)}/reprocess`,
+        null,
+        {
+            params: { from: from.toISOString(), to: to.toISOString(), dryRun: String(!apply) },
+            headers: { 'X-Admin-Key': process.env.ADMIN_API_KEY },
+            validateStatus: () => true
+        }
+    );
+    if (!response.data?.success) {
+        console.error(`Reprocessing failed (HTTP ${response.status}):`, response.data?.error?.message ?? response.data);
+        process.exit(1);
+    }
+    console.log(JSON.stringify(response.data.data, null, 2));
+};
+
+main().catch(error => {
+    console.error('Reprocessing failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,23 @@
+import rollupService from './services/rollupService';
+
+/**
+ * Backfill / recompute three-phase rollups
+ * Usage: npm run rollup-backfill -- <deviceId> <fromDate YYYY-MM-DD> [toDate YYYY-MM-DD]
+ */
+const main = async () => {
+    const [deviceId, fromDate, toDate = fromDate] = process.argv.slice(2);
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (!deviceId || !datePattern.test(fromDate || '') || !datePattern.test(toDate || '')) {
+        console.error('Usage: npm run rollup-backfill -- <deviceId> <fromDate YYYY-MM-DD> [toDate YYYY-MM-DD]');
+        process.exit(1);
+    }
+
+    const days = await rollupService.recomputeRange(deviceId, fromDate, toDate);
+    console.log(`Recomputed rollups for ${deviceId}: ${days} day(s) from ${fromDate} to ${toDate}`);
+};
+
+main().catch(error => {
+    console.error('Rollup backfill failed:', error);
+    process.exit(1);
+});
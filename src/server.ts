@@ -1,21 +1,67 @@
 import express, {Request,Response} from 'express';
 import cors from 'cors';
+import path from 'path';
 import powerMonitorService from './services/powerMonitorService';
 import threePhasePowerService from './services/threePhasePowerService';
 import billingService from './services/billingService';
 import insightsService from './services/insightsService';
-import { validateDeviceId, getCurrentUser, updateUserProfile, getDeviceById } from './middleware/auth';
-import { BillCalculationRequest, ThreePhaseReadings } from './types';
+import rollupService from './services/rollupService';
+import ingestionQueue from './services/ingestionQueue';
+import threePhaseIngestService, { BATCH_MAX_READINGS, IngestReply, IngestResult, QuarantineReviewResult, toParams, toShortParams } from './services/threePhaseIngestService';
+import dedupService from './services/dedupService';
+import deviceAuthService, { canonicalParams } from './services/deviceAuthService';
+import plausibilityService, { describeViolation } from './services/plausibilityService';
+import clockDriftService from './services/clockDriftService';
+import trafficLogService, { TrafficLogQuery, UNKNOWN_DEVICE } from './services/trafficLogService';
+import { logTraffic } from './middleware/trafficLog';
+import quarantineService, { QUARANTINE_STATUSES, QuarantineRange, QuarantineStatus } from './services/quarantineService';
+import reprocessService from './services/reprocessService';
+import diagnosticsService from './services/diagnosticsService';
+import firmwareService, { FIRMWARE_MAX_BYTES, RolloutStatus, RolloutTarget } from './services/firmwareService';
+import deviceRegistryService, { CONNECTION_CATEGORIES, ConnectionCategory, DEVICE_STATUSES, DeviceFields, DeviceStatus } from './services/deviceRegistryService';
+import userService, { PASSWORD_MIN_LENGTH } from './services/userService';
+import deviceAccessService from './services/deviceAccessService';
+import siteService, { METER_ROLES, MeterRole, Organization, Site, SiteScope } from './services/siteService';
+import siteAggregationService from './services/siteAggregationService';
+import deviceCommandService, { COMMAND_STATUSES, COMMAND_TYPES, CommandStatus, CommandType } from './services/deviceCommandService';
+import { decodeCompactPayload } from './utils/compactPayload';
+import mqttIngestService from './services/mqttIngestService';
+import energyIntegrationService, { DEFAULT_INTEGRATION_OPTIONS } from './services/energyIntegrationService';
+import {
+    validateDeviceId,
+    authenticate,
+    authorize,
+    requirePermission,
+    requestHasPermission,
+    getRequestUser,
+    getRequestSessionId,
+    getDeviceById,
+    getUserById,
+    getDeviceTimeZone,
+    getSignatureParts,
+    getRawBody
+} from './middleware/auth';
+import { storage } from './db';
+import { isValidInterval } from './storage/interval';
+import { parseBooleanParam, parseDateParam, parseLimitParam, parsePhasesParam } from './utils/queryParams';
+import { ENERGY_MEASUREMENT_PROVENANCE_FIELDS, derivedFrom, summarizeProvenance } from './utils/provenance';
+import { DEFAULT_TIMEZONE, isValidTimeZone, zonedDateString } from './utils/timezone';
+import { ROLES, getPermissions } from './utils/permissions';
+import { BillCalculationRequest, Provenance, ThreePhaseReadings } from './types';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
 
 app.use(cors());
-app.use(express.json());
-app.use(express.text({ type: '*/*' }));
-
-// In-memory store for GSM testing logs (last 100 entries)
-const gsmLogs: { receivedAt: string; ip: string; data: any }[] = [];
+// Batched uploads from buffering devices can be large
+// Signed device requests are verified against the body exactly as received
+const keepRawBody = (req: Request, _res: Response, buf: Buffer) => {
+    req.rawBody = buf.toString('utf8');
+};
+// Firmware images are uploaded as binary bodies
+app.use('/api/firmware', express.raw({ type: 'application/octet-stream', limit: FIRMWARE_MAX_BYTES }));
+app.use(express.json({ limit: '1mb', verify: keepRawBody }));
+app.use(express.text({ type: '*/*', limit: '1mb' }));
 
 app.get('/', (req: Request, res: Response) => {
     res.json({
@@ -34,6 +80,8 @@ app.get('/', (req: Request, res: Response) => {
             powerBatch: 'POST /api/power/batch',
             energyMeasurement: 'POST /api/energy-measurement',
             energyMeasurement3Phase: 'GET/POST /api/energy-measurement-3phase?d=TEST&v1=235.0&c1=0.8&pf1=0.95&v2=226.0&c2=0.8&pf2=0.92&v3=225.0&c3=0.7&pf3=0.98',
+            energyMeasurement3PhaseCompact: 'POST /api/energy-measurement-3phase/compact (body: 1,TEST,<ts>,235.0,0.8,0.95,226.0,0.8,0.92,225.0,0.7,0.98 or base64 binary)',
+            energyMeasurement3PhaseBatch: 'POST /api/energy-measurement-3phase/batch?d=TEST (JSON readings array or CSV with header ts,v1,c1,pf1,...)',
             powerStats: 'GET /api/power/stats?timeRange=24h',
             powerLatest: 'GET /api/power/latest',
             powerEnergy: 'GET /api/power/energy?timeRange=24h',
@@ -41,21 +89,53 @@ app.get('/', (req: Request, res: Response) => {
             powerEnergyRange: 'GET /api/power/energy/range?from=...&to=...',
             voltageCharge: 'GET /api/power/voltage-charge?limit=...',
             
+            // User accounts (endpoints marked * need Authorization: Bearer <accessToken>;
+            // device endpoints also need access to the device: owner, a grant or a device-managing role)
+            login: 'POST /api/auth/login',
+            refreshToken: 'POST /api/auth/refresh',
+            logout: 'POST /api/auth/logout *',
+            me: 'GET /api/auth/me *',
+            users: 'GET/POST /api/users | PUT /api/users/:userId/password | PUT /api/users/:userId/role',
+
             // 3-Phase Dashboard endpoints (v2)
-            '1_readings': 'GET /api/dashboard/readings?phases=[1,2,3]&deviceId=TEST',
-            '2_hourlyUsage': 'GET /api/dashboard/hourly-usage?date=2025-12-23&phases=[1,2,3]&deviceId=...',
-            '3_deviceInfo': 'GET /api/dashboard/device-info?deviceId=...',
-            '4_userProfile': 'GET /api/dashboard/user-profile',
-            '5_calculateBill': 'POST /api/dashboard/calculate-bill',
-            '6_analytics': 'GET /api/dashboard/analytics?type=energy&period=24h&deviceId=...',
-            '7_statistics': 'GET /api/dashboard/statistics?deviceId=...&period=today',
-            '8_insights': 'GET /api/dashboard/insights?deviceId=...',
-            '9_updateProfile': 'PUT /api/dashboard/user-profile',
-            '10_phaseData': 'GET /api/dashboard/phase-data?deviceId=...',
-            '11_latestVoltageCurrent': 'GET /api/latest-voltage-current?deviceId=...',
+            '1_readings': 'GET /api/dashboard/readings?phases=[1,2,3]&deviceId=TEST *',
+            '2_hourlyUsage': 'GET /api/dashboard/hourly-usage?date=2025-12-23&phases=[1,2,3]&deviceId=... *',
+            '3_deviceInfo': 'GET /api/dashboard/device-info?deviceId=... *',
+            '4_userProfile': 'GET /api/dashboard/user-profile *',
+            '5_calculateBill': 'POST /api/dashboard/calculate-bill *',
+            '6_analytics': 'GET /api/dashboard/analytics?type=energy&period=24h&deviceId=... *',
+            '7_statistics': 'GET /api/dashboard/statistics?deviceId=...&period=today&excludeDefaulted=false *',
+            '8_insights': 'GET /api/dashboard/insights?deviceId=... *',
+            '9_updateProfile': 'PUT /api/dashboard/user-profile *',
+            '10_phaseData': 'GET /api/dashboard/phase-data?deviceId=... *',
+            '11_latestVoltageCurrent': 'GET /api/latest-voltage-current?deviceId=... *',
+            organizationsDashboard: 'GET /api/dashboard/organizations *',
+            groupDashboard: 'GET /api/dashboard/{sites/:siteId|organizations/:orgId}/{readings|hourly-usage|statistics|phase-data} | POST .../calculate-bill *',
             
             // Data ingestion
-            storeReadings: 'POST /api/dashboard/readings'
+            storeReadings: 'POST /api/dashboard/readings',
+
+            // Administration (X-Admin-Key, or a token whose role has the permission - see utils/permissions)
+            devices: 'GET /api/devices?status=active&userId=... | POST /api/devices',
+            device: 'GET/PATCH/DELETE (decommission) /api/devices/:deviceId | POST /api/devices/:deviceId/reactivate',
+            deviceAccess: 'GET/POST /api/devices/:deviceId/access | DELETE /api/devices/:deviceId/access/:userId',
+            organizations: 'GET/POST /api/organizations | GET/PATCH/DELETE /api/organizations/:orgId | POST /api/organizations/:orgId/sites',
+            sites: 'GET/PATCH/DELETE /api/sites/:siteId | PUT/DELETE /api/sites/:siteId/meters/:deviceId (role main|sub)',
+            deviceCredentials: 'GET/POST/DELETE /api/devices/:deviceId/credentials',
+            rotateDeviceCredentials: 'POST /api/devices/:deviceId/credentials/rotate?graceSeconds=...',
+            plausibilityLimits: 'GET/PUT/DELETE /api/devices/:deviceId/plausibility',
+            deviceConfig: 'GET/PUT /api/devices/:deviceId/config',
+            deviceCommands: 'GET/POST /api/devices/:deviceId/commands | DELETE /api/devices/:deviceId/commands/:id',
+            quarantine: 'GET /api/quarantine?deviceId=...&status=pending',
+            reviewQuarantine: 'POST /api/quarantine/:id/release | /api/quarantine/:id/discard',
+            trafficLog: 'GET /api/traffic-log?deviceId=...&route=...&status=4xx&from=...&to=...',
+            reprocess: 'POST /api/devices/:deviceId/reprocess?from=...&to=...&dryRun=true',
+            firmware: 'GET /api/firmware | POST /api/firmware?version=...&model=...&sha256=... (binary body) | DELETE /api/firmware/:id',
+            firmwareRollouts: 'GET/POST /api/firmware/rollouts | PATCH/DELETE /api/firmware/rollouts/:id',
+
+            // Firmware updates (devices)
+            firmwareCheck: 'GET /api/firmware/check?d=TEST&model=esp32-3ph&fw=1.2.0',
+            firmwareDownload: 'GET /api/firmware/download/:id (link returned by the check)'
         },
         features: [
             '3-Phase Energy Monitoring',
@@ -119,7 +199,11 @@ app.get('/api/health', async (req: Request, res: Response) => {
     const unhealthyCount = checks.filter(c => c.status === 'unhealthy').length;
     const criticalUnhealthy = checks.filter(c => c.status === 'unhealthy' && c.critical).length;
 
-    const overallStatus = criticalUnhealthy > 0 ? 'critical' : unhealthyCount > 0 ? 'degraded' : 'healthy';
+    // A backlog older than 5 minutes means storage writes are failing
+    const queueStats = ingestionQueue.getStats();
+    const queueStalled = (queueStats.oldestPendingAgeSeconds ?? 0) > 300;
+
+    const overallStatus = criticalUnhealthy > 0 ? 'critical' : unhealthyCount > 0 || queueStalled ? 'degraded' : 'healthy';
 
     res.status(overallStatus === 'critical' ? 503 : 200).json({
         status: overallStatus,
@@ -134,9 +218,12 @@ app.get('/api/health', async (req: Request, res: Response) => {
             criticalUnhealthy
         },
         database: {
-            influxDB: 'connected',
-            database: process.env.INFLUXDB_DATABASE || 'unknown'
+            status: 'connected',
+            ...storage.describe()
         },
+        ingestionQueue: queueStats,
+        duplicateSuppression: dedupService.getTotals(),
+        mqtt: mqttIngestService.getStats(),
         server: {
             port: PORT,
             nodeVersion: process.version,
@@ -378,7 +465,7 @@ app.get('/debug', (req: Request, res: Response) => {
                     <div class="last-updated">
                         Last updated: \${new Date().toLocaleString()}<br>
                         Server: \${data.server.platform} | Node \${data.server.nodeVersion} | Port \${data.server.port}<br>
-                        Database: \${data.database.influxDB} (\${data.database.database})
+                        Storage: \${data.database.backend} - \${data.database.status}
                     </div>
                 \`;
 
@@ -408,27 +495,25 @@ app.get('/debug', (req: Request, res: Response) => {
  * GSM Testing Endpoint - Simple endpoint to test GSM module connectivity
  * Accepts any format (JSON, text, form data) and logs everything
  */
-app.post('/api/gsm-test', (req: Request, res: Response) => {
+app.post('/api/gsm-test', logTraffic, async (req: Request, res: Response) => {
     try {
-        const entry = {
-            receivedAt: new Date().toISOString(),
-            ip: (req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || 'unknown',
-            data: req.body
-        };
-
-        // Add to logs and keep only last 100 entries
-        gsmLogs.push(entry);
-        if (gsmLogs.length > 100) {
-            gsmLogs.shift();
-        }
-
-        console.log('GSM TEST RECEIVED:', entry);
+        const receivedAt = new Date().toISOString();
+        console.log('GSM TEST RECEIVED:', { receivedAt, data: req.body });
+
+        // Logged by logTraffic once the response is sent, under the device it names
+        const body = req.body && typeof req.body === 'object' ? req.body : {};
+        const deviceId = req.query.d || req.query.deviceId || body.deviceId;
+        const previous = await trafficLogService.query({
+            deviceId: typeof deviceId === 'string' && /^[a-zA-Z0-9-_]+$/.test(deviceId) ? deviceId : UNKNOWN_DEVICE,
+            route: '/api/gsm-test',
+            limit: 100
+        });
 
         // SUCCESS RESPONSE for Arduino to verify
         res.status(200).json({
             status: 'SUCCESS',
-            serverTime: entry.receivedAt,
-            totalLogs: gsmLogs.length,
+            serverTime: receivedAt,
+            totalLogs: previous.length + 1,     // counted up to the last 100
             receivedData: req.body
         });
     } catch (error) {
@@ -441,17 +526,37 @@ app.post('/api/gsm-test', (req: Request, res: Response) => {
 });
 
 /**
- * View all GSM test logs
+ * View GSM test logs (last 100, oldest first) - see /api/traffic-log for all device traffic
  */
-app.get('/api/gsm-logs', (req: Request, res: Response) => {
-    res.json({
-        totalLogs: gsmLogs.length,
-        logs: gsmLogs
-    });
+app.get('/api/gsm-logs', requirePermission('readings:ingest'), async (req: Request, res: Response) => {
+    try {
+        const entries = await trafficLogService.query({ route: '/api/gsm-test', limit: 100 });
+        const logs = entries.reverse().map(entry => ({
+            receivedAt: entry.receivedAt,
+            ip: entry.ip,
+            data: parseLoggedBody(entry.body)
+        }));
+
+        res.json({
+            totalLogs: logs.length,
+            logs
+        });
+    } catch (error) {
+        console.error('Error reading GSM logs:', error);
+        res.status(500).json({ error: 'Failed to read GSM logs' });
+    }
 });
 
+const parseLoggedBody = (body: string): unknown => {
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+};
+
 // POST endpoint to send power data to InfluxDB
-app.post('/api/power', async (req: Request, res: Response) => {
+app.post('/api/power', logTraffic, async (req: Request, res: Response) => {
     try {
         let body;
         try {
@@ -482,7 +587,7 @@ app.post('/api/power', async (req: Request, res: Response) => {
 });
 
 // POST endpoint to send multiple power readings
-app.post('/api/power/batch', async (req: Request, res: Response) => {
+app.post('/api/power/batch', logTraffic, async (req: Request, res: Response) => {
     try {
         let body;
         try {
@@ -525,7 +630,11 @@ app.post('/api/power/batch', async (req: Request, res: Response) => {
 app.get('/api/power', async (req: Request, res: Response) => {
     try {
         const timeRange = (req.query.timeRange as string) || '1h';
-        
+
+        if (!isValidInterval(timeRange)) {
+            return res.status(400).json({ error: 'Invalid timeRange. Use values like 1h, 24h, 7d or 30d' });
+        }
+
         const data = await powerMonitorService.getPowerUsage(timeRange);
 
         res.status(200).json({ 
@@ -543,7 +652,11 @@ app.get('/api/power', async (req: Request, res: Response) => {
 app.get('/api/power/energy', async (req: Request, res: Response) => {
     try {
         const timeRange = (req.query.timeRange as string) || '24h';
-        
+
+        if (!isValidInterval(timeRange)) {
+            return res.status(400).json({ error: 'Invalid timeRange. Use values like 1h, 24h, 7d or 30d' });
+        }
+
         const totalEnergy = await powerMonitorService.getTotalEnergyConsumption(timeRange);
 
         res.status(200).json({ 
@@ -622,6 +735,11 @@ app.get('/api/power/latest', async (req: Request, res: Response) => {
 app.get('/api/power/stats', async (req: Request, res: Response) => {
     try {
         const timeRange = (req.query.timeRange as string) || '24h';
+
+        if (!isValidInterval(timeRange)) {
+            return res.status(400).json({ error: 'Invalid timeRange. Use values like 1h, 24h, 7d or 30d' });
+        }
+
         const data = await powerMonitorService.getPowerUsage(timeRange);
 
         if (data.length === 0) {
@@ -676,6 +794,12 @@ app.get('/api/power/energy/range', async (req: Request, res: Response) => {
             });
         }
 
+        if (isNaN(new Date(from).getTime()) || isNaN(new Date(to).getTime())) {
+            return res.status(400).json({
+                error: "Invalid 'from' or 'to' datetime format. Use ISO format like 2025-12-03T10:00:00Z"
+            });
+        }
+
         const data = await powerMonitorService.getPowerUsageRange(from, to);
 
         if (data.length === 0) {
@@ -706,9 +830,9 @@ app.get('/api/power/energy/range', async (req: Request, res: Response) => {
 // GET endpoint to retrieve all voltage and charge readings with timestamps
 app.get('/api/power/voltage-charge', async (req: Request, res: Response) => {
     try {
-        const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-        
-        if (limit && (isNaN(limit) || limit <= 0)) {
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+        if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
             return res.status(400).json({ 
                 error: 'Invalid limit parameter. Must be a positive number.' 
             });
@@ -726,9 +850,11 @@ app.get('/api/power/voltage-charge', async (req: Request, res: Response) => {
     }
 });
 
+const SINGLE_PHASE_DEDUP_ID = 'single-phase';
+
 // POST endpoint for detailed energy measurements
 // Accepts both JSON body AND query parameters (for GSM modules)
-app.post('/api/energy-measurement', async (req: Request, res: Response) => {
+app.post('/api/energy-measurement', logTraffic, async (req: Request, res: Response) => {
     try {
         let data: any = {};
         
@@ -757,426 +883,446 @@ app.post('/api/energy-measurement', async (req: Request, res: Response) => {
 
         const { ts, e_Wh, p_W, v_rms, i_rms, pf, v_min, v_max, p_peak } = data;
 
-        // Generate missing fields where possible
-        const currentTime = Math.floor(Date.now() / 1000); // Current UNIX timestamp
+        // Single-phase readings carry no device ID and share one dedup namespace;
+        // check-store-remember runs one request at a time so concurrent retries are caught
+        await dedupService.exclusive(SINGLE_PHASE_DEDUP_ID, async () => {
+            const dedupKey = dedupService.keyFor(SINGLE_PHASE_DEDUP_ID, data || {}, {
+                idempotencyKey: req.get('Idempotency-Key'),
+                seq: data?.seq ?? req.query.seq,
+                ts
+            });
+            if (dedupService.checkDuplicate(SINGLE_PHASE_DEDUP_ID, dedupKey)) {
+                return res.status(200).json({ status: 'OK', duplicate: true });
+            }
+
+            // Generate missing fields where possible
+            const currentTime = Math.floor(Date.now() / 1000); // Current UNIX timestamp
         
-        // Validate timestamp - must be within last 30 days and not in future
-        const thirtyDaysAgo = currentTime - (30 * 24 * 60 * 60);
-        let generatedTs = ts || currentTime;
+            // Validate timestamp - must be within last 30 days and not in future
+            const thirtyDaysAgo = currentTime - (30 * 24 * 60 * 60);
+            let generatedTs = ts || currentTime;
         
-        // If timestamp is too old or in future, use current server time
-        if (generatedTs < thirtyDaysAgo || generatedTs > currentTime + 300) {
-            console.warn(`Invalid timestamp ${generatedTs} (${new Date(generatedTs * 1000).toISOString()}), using server time`);
-            generatedTs = currentTime;
-        }
-
-        // Assuming 1-minute measurement intervals for calculations
-        const timeIntervalHours = 1 / 60; // 1 minute = 1/60 hour
+            // If timestamp is too old or in future, use current server time
+            if (generatedTs < thirtyDaysAgo || generatedTs > currentTime + 300) {
+                console.warn(`Invalid timestamp ${generatedTs} (${new Date(generatedTs * 1000).toISOString()}), using server time`);
+                generatedTs = currentTime;
+            }
 
-        let generatedE_Wh = e_Wh;
-        let generatedP_W = p_W;
-        let generatedV_rms = v_rms;
-        let generatedI_rms = i_rms;
-        let generatedPf = pf;
-        let generatedV_min = v_min;
-        let generatedV_max = v_max;
-        let generatedP_peak = p_peak;
+            let generatedE_Wh = e_Wh;
+            let generatedP_W = p_W;
+            let generatedV_rms = v_rms;
+            let generatedI_rms = i_rms;
+            let generatedPf = pf;
+            let generatedV_min = v_min;
+            let generatedV_max = v_max;
+            let generatedP_peak = p_peak;
+
+            // Every field starts as measured and is downgraded when generated
+            const provenance: Record<string, Provenance> = Object.fromEntries(
+                ENERGY_MEASUREMENT_PROVENANCE_FIELDS.map(field => [field, 'measured'])
+            );
 
-        // Generate power factor if missing (default to 0.95 for typical residential)
-        if (generatedPf === undefined) {
-            generatedPf = 0.95;
-        }
+            // Generate power factor if missing (default to 0.95 for typical residential)
+            if (generatedPf === undefined) {
+                generatedPf = 0.95;
+                provenance.pf = 'defaulted';
+            }
 
-        // Generate RMS voltage if missing (default to 230V for standard mains)
-        if (generatedV_rms === undefined) {
-            generatedV_rms = 230.0;
-        }
+            // Generate RMS voltage if missing (default to 230V for standard mains)
+            if (generatedV_rms === undefined) {
+                generatedV_rms = 230.0;
+                provenance.v_rms = 'defaulted';
+            }
 
-        // Generate RMS current if missing but power and voltage are available
-        if (generatedI_rms === undefined && generatedP_W !== undefined && generatedV_rms !== undefined && generatedPf !== undefined) {
-            generatedI_rms = generatedP_W / (generatedV_rms * generatedPf);
-        }
+            // Generate RMS current if missing but power and voltage are available
+            if (generatedI_rms === undefined && generatedP_W !== undefined && generatedV_rms !== undefined && generatedPf !== undefined) {
+                generatedI_rms = generatedP_W / (generatedV_rms * generatedPf);
+                provenance.i_rms = derivedFrom(provenance.p_W, provenance.v_rms, provenance.pf);
+            }
 
-        // Generate average power if missing but current and voltage are available
-        if (generatedP_W === undefined && generatedI_rms !== undefined && generatedV_rms !== undefined && generatedPf !== undefined) {
-            generatedP_W = generatedV_rms * generatedI_rms * generatedPf;
-        }
+            // Generate average power if missing but current and voltage are available
+            if (generatedP_W === undefined && generatedI_rms !== undefined && generatedV_rms !== undefined && generatedPf !== undefined) {
+                generatedP_W = generatedV_rms * generatedI_rms * generatedPf;
+                provenance.p_W = derivedFrom(provenance.v_rms, provenance.i_rms, provenance.pf);
+            }
 
-        // Generate energy if missing but power is available
-        if (generatedE_Wh === undefined && generatedP_W !== undefined) {
-            generatedE_Wh = generatedP_W * timeIntervalHours;
-        }
+            // Generate power if missing but energy is available (assumes the nominal 1-minute interval)
+            if (generatedP_W === undefined && generatedE_Wh !== undefined) {
+                generatedP_W = generatedE_Wh / (DEFAULT_INTEGRATION_OPTIONS.nominalIntervalSeconds / 3600);
+                provenance.p_W = derivedFrom(provenance.e_Wh);
+            }
 
-        // Generate power if missing but energy is available
-        if (generatedP_W === undefined && generatedE_Wh !== undefined) {
-            generatedP_W = generatedE_Wh / timeIntervalHours;
-        }
+            // Generate voltage min/max if missing (assume some variation around RMS)
+            if (generatedV_min === undefined && generatedV_rms !== undefined) {
+                generatedV_min = generatedV_rms * 0.95; // 5% below RMS
+                provenance.v_min = 'defaulted';
+            }
+            if (generatedV_max === undefined && generatedV_rms !== undefined) {
+                generatedV_max = generatedV_rms * 1.05; // 5% above RMS
+                provenance.v_max = 'defaulted';
+            }
 
-        // Generate voltage min/max if missing (assume some variation around RMS)
-        if (generatedV_min === undefined && generatedV_rms !== undefined) {
-            generatedV_min = generatedV_rms * 0.95; // 5% below RMS
-        }
-        if (generatedV_max === undefined && generatedV_rms !== undefined) {
-            generatedV_max = generatedV_rms * 1.05; // 5% above RMS
-        }
+            // Generate peak power if missing (assume 20% above average power)
+            if (generatedP_peak === undefined && generatedP_W !== undefined) {
+                generatedP_peak = generatedP_W * 1.2;
+                provenance.p_peak = 'defaulted';
+            }
 
-        // Generate peak power if missing (assume 20% above average power)
-        if (generatedP_peak === undefined && generatedP_W !== undefined) {
-            generatedP_peak = generatedP_W * 1.2;
-        }
+            // Validate that we have the essential fields (missing energy is integrated from power below)
+            if (generatedP_W === undefined || generatedV_rms === undefined ||
+                generatedI_rms === undefined || generatedPf === undefined || generatedV_min === undefined ||
+                generatedV_max === undefined || generatedP_peak === undefined) {
+                return res.status(400).json({ status: 'ERROR', message: 'Missing data' });
+            }
 
-        // Validate that we have the essential fields
-        if (generatedE_Wh === undefined || generatedP_W === undefined || generatedV_rms === undefined ||
-            generatedI_rms === undefined || generatedPf === undefined || generatedV_min === undefined ||
-            generatedV_max === undefined || generatedP_peak === undefined) {
-            return res.status(400).json({ status: 'ERROR', message: 'Missing data' });
-        }
+            // Validate ranges
+            if (generatedPf < 0 || generatedPf > 1) {
+                return res.status(400).json({ status: 'ERROR', message: 'Invalid power factor' });
+            }
 
-        // Validate ranges
-        if (generatedPf < 0 || generatedPf > 1) {
-            return res.status(400).json({ status: 'ERROR', message: 'Invalid power factor' });
-        }
+            if (generatedTs <= 0) {
+                return res.status(400).json({ status: 'ERROR', message: 'Invalid timestamp' });
+            }
 
-        if (generatedTs <= 0) {
-            return res.status(400).json({ status: 'ERROR', message: 'Invalid timestamp' });
-        }
+            // Only a reading that will be stored moves the integration anchor
+            const sampleTime = new Date(generatedTs * 1000);
+            let energyMethod: string | undefined;
+            if (generatedE_Wh === undefined) {
+                // Integrate power over the time since the previous measurement
+                const integrated = await energyIntegrationService.integrate(
+                    'energy_measurement',
+                    sampleTime,
+                    generatedP_W,
+                    DEFAULT_INTEGRATION_OPTIONS,
+                    () => powerMonitorService.getLastPowerSample(sampleTime)
+                );
+                generatedE_Wh = integrated.energyWh;
+                energyMethod = integrated.method;
+                provenance.e_Wh = derivedFrom(provenance.p_W);
+            } else {
+                await energyIntegrationService.record('energy_measurement', sampleTime, generatedP_W);
+            }
 
-        const measurement = {
-            ts: generatedTs,
-            e_Wh: generatedE_Wh,
-            p_W: generatedP_W,
-            v_rms: generatedV_rms,
-            i_rms: generatedI_rms,
-            pf: generatedPf,
-            v_min: generatedV_min,
-            v_max: generatedV_max,
-            p_peak: generatedP_peak
-        };
+            const measurement = {
+                ts: generatedTs,
+                e_Wh: generatedE_Wh,
+                p_W: generatedP_W,
+                v_rms: generatedV_rms,
+                i_rms: generatedI_rms,
+                pf: generatedPf,
+                v_min: generatedV_min,
+                v_max: generatedV_max,
+                p_peak: generatedP_peak,
+                energy_method: energyMethod,
+                provenance
+            };
 
-        await powerMonitorService.sendEnergyMeasurement(measurement);
+            await powerMonitorService.sendEnergyMeasurement(measurement);
+            dedupService.remember(dedupKey);
 
-        res.status(200).json({ status: 'OK' });
+            res.status(200).json({
+                status: 'OK',
+                provenance: summarizeProvenance(ENERGY_MEASUREMENT_PROVENANCE_FIELDS, provenance)
+            });
+        });
     } catch (error) {
         console.error('Error storing energy measurement:', error);
         res.status(500).json({ status: 'ERROR', message: 'Server error' });
     }
 });
 
+// Rejected signatures are 401 and refused devices (unknown or decommissioned) 403,
+// so devices can tell them apart from invalid readings
+const replyStatus = (reply: Pick<IngestReply, 'status'> & { code?: string }): number =>
+    reply.status === 'OK' ? 200 : reply.code === 'UNAUTHORIZED' ? 401 : reply.code ? 403 : 400;
+
 // GET/POST endpoint for 3-phase energy measurements (GSM module compatible)
 // Accepts shortened query parameters for reduced URL length
 // Supports both GET and POST methods for maximum compatibility
-app.all('/api/energy-measurement-3phase', async (req: Request, res: Response) => {
-    try {
-        // Map shortened parameter names to full names
-        const data: any = {
-            deviceId: req.query.d as string,
-            ts: req.query.ts ? parseFloat(req.query.ts as string) : undefined,
-            // Phase 1 - shortened names: v1, c1, pf1
-            p1_voltage: req.query.v1 ? parseFloat(req.query.v1 as string) : undefined,
-            p1_current: req.query.c1 ? parseFloat(req.query.c1 as string) : undefined,
-            p1_power: req.query.p1 ? parseFloat(req.query.p1 as string) : undefined,
-            p1_energy_wh: req.query.e1 ? parseFloat(req.query.e1 as string) : undefined,
-            p1_powerFactor: req.query.pf1 ? parseFloat(req.query.pf1 as string) : undefined,
-            // Phase 2 - shortened names: v2, c2, pf2
-            p2_voltage: req.query.v2 ? parseFloat(req.query.v2 as string) : undefined,
-            p2_current: req.query.c2 ? parseFloat(req.query.c2 as string) : undefined,
-            p2_power: req.query.p2 ? parseFloat(req.query.p2 as string) : undefined,
-            p2_energy_wh: req.query.e2 ? parseFloat(req.query.e2 as string) : undefined,
-            p2_powerFactor: req.query.pf2 ? parseFloat(req.query.pf2 as string) : undefined,
-            // Phase 3 - shortened names: v3, c3, pf3
-            p3_voltage: req.query.v3 ? parseFloat(req.query.v3 as string) : undefined,
-            p3_current: req.query.c3 ? parseFloat(req.query.c3 as string) : undefined,
-            p3_power: req.query.p3 ? parseFloat(req.query.p3 as string) : undefined,
-            p3_energy_wh: req.query.e3 ? parseFloat(req.query.e3 as string) : undefined,
-            p3_powerFactor: req.query.pf3 ? parseFloat(req.query.pf3 as string) : undefined,
-            // Totals - shortened names: te, tv, tc, tp
-            total_energy_wh: req.query.te ? parseFloat(req.query.te as string) : undefined,
-            total_voltage: req.query.tv ? parseFloat(req.query.tv as string) : undefined,
-            total_current: req.query.tc ? parseFloat(req.query.tc as string) : undefined,
-            total_power: req.query.tp ? parseFloat(req.query.tp as string) : undefined
-        };
+app.all('/api/energy-measurement-3phase', logTraffic, async (req: Request, res: Response) => {
+    try {
+        // A resend after a lost reply is acknowledged as { status: 'OK', duplicate: true }
+        // Signed via k/t/n/s query params, or X-Key-Id/X-Timestamp/X-Nonce/X-Signature headers
+        const reply = await threePhaseIngestService.handleReading(req.query, {
+            idempotencyKey: req.get('Idempotency-Key'),
+            signed: { parts: getSignatureParts(req), payload: canonicalParams(req.query) },
+            raw: req.originalUrl.split('?')[1] || ''
+        });
 
-        const {
-            deviceId,
-            ts,
-            p1_voltage, p1_current, p1_power, p1_energy_wh, p1_powerFactor,
-            p2_voltage, p2_current, p2_power, p2_energy_wh, p2_powerFactor,
-            p3_voltage, p3_current, p3_power, p3_energy_wh, p3_powerFactor,
-            total_energy_wh, total_voltage, total_current, total_power
-        } = data;
+        res.status(replyStatus(reply)).json(reply);
+    } catch (error) {
+        console.error('Error storing 3-phase energy measurement:', error);
+        res.status(500).json({ status: 'ERROR', message: 'Server error' });
+    }
+});
 
-        // Validate required deviceId
-        if (!deviceId || typeof deviceId !== 'string') {
-            return res.status(400).json({ status: 'ERROR', message: 'deviceId is required and must be a string' });
+// POST endpoint for compact 3-phase payloads (positional CSV line or base64 binary with CRC)
+// Layouts and schema versions are documented in utils/compactPayload
+app.post('/api/energy-measurement-3phase/compact', logTraffic, async (req: Request, res: Response) => {
+    try {
+        if (typeof req.body !== 'string') {
+            return res.status(400).json({ status: 'ERROR', message: 'Send the payload as a text body' });
         }
 
-        // Generate missing fields where possible
-        const currentTime = Math.floor(Date.now() / 1000); // Current UNIX timestamp
-
-        // Validate timestamp - must be within last 30 days and not in future
-        const thirtyDaysAgo = currentTime - (30 * 24 * 60 * 60);
-        let generatedTs = ts || currentTime;
-
-        // If timestamp is too old or in future, use current server time
-        if (generatedTs < thirtyDaysAgo || generatedTs > currentTime + 300) {
-            console.warn(`Invalid timestamp ${generatedTs} (${new Date(generatedTs * 1000).toISOString()}), using server time`);
-            generatedTs = currentTime;
+        const decoded = decodeCompactPayload(req.body);
+        if (!decoded.ok) {
+            return res.status(400).json({ status: 'ERROR', message: decoded.message });
         }
+        res.locals.deviceId = decoded.params.d;
 
-        // Helper function to generate missing phase data
-        const generatePhaseData = (phase: number, voltage?: number, current?: number, power?: number, energy_wh?: number, powerFactor?: number) => {
-            let genVoltage = voltage;
-            let genCurrent = current;
-            let genPower = power;
-            let genEnergy = energy_wh;
-            let genPf = powerFactor;
-
-            // Generate power factor if missing (default to 0.95 for typical residential)
-            if (genPf === undefined) {
-                genPf = 0.95;
-            }
-
-            // Generate voltage if missing (default to 230V for standard mains)
-            if (genVoltage === undefined) {
-                genVoltage = 230.0;
-            }
-
-            // If we have voltage, current, and power factor, calculate power
-            if (genVoltage !== undefined && genCurrent !== undefined && genPf !== undefined) {
-                if (genPower === undefined) {
-                    genPower = genVoltage * genCurrent * genPf;
-                }
-                // Calculate energy from power (assume instantaneous reading, use power as Wh approximation)
-                if (genEnergy === undefined) {
-                    genEnergy = genPower;
-                }
-            }
-
-            // If current is missing but we have voltage and power
-            if (genCurrent === undefined && genPower !== undefined && genVoltage !== undefined && genVoltage > 0 && genPf !== undefined && genPf > 0) {
-                genCurrent = genPower / (genVoltage * genPf);
-            }
-
-            return {
-                voltage: genVoltage,
-                current: genCurrent,
-                power: genPower,
-                energy_wh: genEnergy,
-                powerFactor: genPf
-            };
-        };
-
-        // Generate data for each phase
-        const phase1Data = generatePhaseData(1, p1_voltage, p1_current, p1_power, p1_energy_wh, p1_powerFactor);
-        const phase2Data = generatePhaseData(2, p2_voltage, p2_current, p2_power, p2_energy_wh, p2_powerFactor);
-        const phase3Data = generatePhaseData(3, p3_voltage, p3_current, p3_power, p3_energy_wh, p3_powerFactor);
+        const reply = await threePhaseIngestService.handleReading(decoded.params, {
+            idempotencyKey: req.get('Idempotency-Key'),
+            signed: { parts: getSignatureParts(req), payload: req.body },
+            channel: 'compact',
+            raw: req.body,
+            // The positional layout has no room for acknowledgements - they go in the query string
+            acks: deviceCommandService.parseAcks(req.query)
+        });
 
-        // Generate totals if missing
-        let genTotalEnergy = total_energy_wh;
-        let genTotalVoltage = total_voltage;
-        let genTotalCurrent = total_current;
-        let genTotalPower = total_power;
+        res.status(replyStatus(reply)).json({ ...reply, v: decoded.version });
+    } catch (error) {
+        console.error('Error storing compact 3-phase measurement:', error);
+        res.status(500).json({ status: 'ERROR', message: 'Server error' });
+    }
+});
 
-        // Calculate totals from phases if not provided
-        if (genTotalEnergy === undefined) {
-            genTotalEnergy = (phase1Data.energy_wh || 0) + (phase2Data.energy_wh || 0) + (phase3Data.energy_wh || 0);
-        }
-        if (genTotalPower === undefined) {
-            genTotalPower = (phase1Data.power || 0) + (phase2Data.power || 0) + (phase3Data.power || 0);
-        }
-        if (genTotalCurrent === undefined) {
-            genTotalCurrent = (phase1Data.current || 0) + (phase2Data.current || 0) + (phase3Data.current || 0);
-        }
-        if (genTotalVoltage === undefined) {
-            // Average voltage across phases
-            const voltages = [phase1Data.voltage, phase2Data.voltage, phase3Data.voltage].filter(v => v !== undefined) as number[];
-            genTotalVoltage = voltages.length > 0 ? voltages.reduce((a, b) => a + b, 0) / voltages.length : 230;
+// POST endpoint for batched / store-and-forward 3-phase readings
+// Body: JSON { deviceId, readings: [{ ts, v1, c1, pf1, ... }] } or CSV with a header row of short names
+// Device ID may also be given as ?d=; every row is validated like a single reading
+app.post('/api/energy-measurement-3phase/batch', logTraffic, async (req: Request, res: Response) => {
+    try {
+        const parsed = threePhaseIngestService.parseBatch(req.body);
+        if (!parsed.ok) {
+            return res.status(400).json({ status: 'ERROR', message: parsed.message });
         }
 
-        // Validate that we have essential fields for all phases
-        const phasesValid = [phase1Data, phase2Data, phase3Data].every(phase =>
-            phase.voltage !== undefined && phase.current !== undefined &&
-            phase.power !== undefined && phase.energy_wh !== undefined &&
-            phase.powerFactor !== undefined
-        );
-
-        if (!phasesValid || genTotalEnergy === undefined || genTotalPower === undefined ||
-            genTotalCurrent === undefined || genTotalVoltage === undefined) {
-            return res.status(400).json({ status: 'ERROR', message: 'Missing or incomplete 3-phase data' });
+        const deviceId = (req.query.d as string) || parsed.deviceId;
+        res.locals.deviceId = deviceId;
+        if (!deviceId || !/^[a-zA-Z0-9-_]+$/.test(deviceId)) {
+            return res.status(400).json({ status: 'ERROR', message: 'A valid deviceId (d) is required' });
         }
 
-        // Validate power factors
-        const invalidPf = [phase1Data.powerFactor, phase2Data.powerFactor, phase3Data.powerFactor]
-            .some(pf => pf !== undefined && (pf < 0 || pf > 1));
-
-        if (invalidPf) {
-            return res.status(400).json({ status: 'ERROR', message: 'Invalid power factor (must be between 0 and 1)' });
+        if (parsed.rows.length === 0 || parsed.rows.length > BATCH_MAX_READINGS) {
+            return res.status(400).json({
+                status: 'ERROR',
+                message: `A batch must contain between 1 and ${BATCH_MAX_READINGS} readings`
+            });
         }
 
-        if (generatedTs <= 0) {
-            return res.status(400).json({ status: 'ERROR', message: 'Invalid timestamp' });
+        const outcome = await threePhaseIngestService.ingestBatch(
+            deviceId,
+            parsed.rows,
+            parsed.rowErrors,
+            {
+                idempotencyKey: req.get('Idempotency-Key'),
+                signed: { parts: getSignatureParts(req), payload: getRawBody(req) },
+                acks: deviceCommandService.parseAcks({
+                    ...req.query,
+                    ...(req.body && typeof req.body === 'object' && !Array.isArray(req.body) && req.body)
+                })
+            }
+        );
+        if (outcome.status === 'ERROR') {
+            return res.status(replyStatus(outcome)).json({ status: 'ERROR', message: outcome.message, code: outcome.code });
         }
 
-        // Create ThreePhaseReadings structure
-        const threePhaseReadings: ThreePhaseReadings = {
-            phases: {
-                "1": {
-                    voltage: phase1Data.voltage!,
-                    current: phase1Data.current!,
-                    power: phase1Data.power!,
-                    energy_wh: phase1Data.energy_wh!,
-                    powerFactor: phase1Data.powerFactor!
-                },
-                "2": {
-                    voltage: phase2Data.voltage!,
-                    current: phase2Data.current!,
-                    power: phase2Data.power!,
-                    energy_wh: phase2Data.energy_wh!,
-                    powerFactor: phase2Data.powerFactor!
-                },
-                "3": {
-                    voltage: phase3Data.voltage!,
-                    current: phase3Data.current!,
-                    power: phase3Data.power!,
-                    energy_wh: phase3Data.energy_wh!,
-                    powerFactor: phase3Data.powerFactor!
-                }
-            },
-            total: {
-                energy_wh: genTotalEnergy,
-                voltage: genTotalVoltage,
-                current: genTotalCurrent,
-                power: genTotalPower
-            },
-            timestamp: new Date(generatedTs * 1000).toISOString()
-        };
-
-        await threePhasePowerService.store3PhaseReading(deviceId, threePhaseReadings);
+        const { duplicate, results, downlink } = outcome;
+        const count = (status: string) => results.filter(r => r.status === status).length;
 
-        res.status(200).json({ status: 'OK' });
+        res.status(200).json({
+            status: 'OK',
+            ...(duplicate && { duplicate: true }),
+            accepted: count('OK'),
+            rejected: count('ERROR'),
+            duplicates: count('DUPLICATE'),
+            quarantined: count('QUARANTINED'),
+            results,
+            ...(downlink && { downlink })
+        });
     } catch (error) {
-        console.error('Error storing 3-phase energy measurement:', error);
+        console.error('Error storing 3-phase batch:', error);
         res.status(500).json({ status: 'ERROR', message: 'Server error' });
     }
 });
 
-// ===== DASHBOARD ENDPOINTS =====
+// ===== USER ACCOUNTS =====
 
-// 1. GET /dashboard/readings - Real-time 3-phase energy readings
-app.get('/api/dashboard/readings', validateDeviceId, async (req: Request, res: Response) => {
+// POST /api/auth/login - { email, password } -> access token (Bearer) and refresh token
+app.post('/api/auth/login', async (req: Request, res: Response) => {
     try {
-        const { phases: phasesParam, deviceId } = req.query;
-        const requestedPhases = phasesParam ? JSON.parse(phasesParam as string) : [1, 2, 3];
-
-        const readings = await threePhasePowerService.getLatestReadings(deviceId as string, requestedPhases);
+        const { email, password } = req.body || {};
+        if (typeof email !== 'string' || typeof password !== 'string') {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'email and password are required'
+                }
+            });
+        }
 
-        if (!readings) {
-            return res.status(200).json({
+        const result = await userService.login(email, password);
+        if (!result.ok) {
+            return res.status(401).json({
                 success: false,
                 error: {
-                    code: 'NO_DATA_AVAILABLE',
-                    message: 'No recent readings available for this device'
+                    code: result.code,
+                    message: 'Invalid email or password'
                 }
             });
         }
 
         res.status(200).json({
             success: true,
-            data: readings
+            data: result.tokens
         });
     } catch (error) {
-        console.error('Error getting dashboard readings:', error);
+        console.error('Error logging in:', error);
         res.status(500).json({
             success: false,
             error: {
                 code: 'SERVER_ERROR',
-                message: 'Failed to retrieve readings'
+                message: 'Failed to log in'
             }
         });
     }
 });
 
-// 2. GET /dashboard/hourly-usage - Hourly energy usage by phase
-app.get('/api/dashboard/hourly-usage', validateDeviceId, async (req: Request, res: Response) => {
+// POST /api/auth/refresh - { refreshToken } -> new token pair; the old refresh token stops working
+app.post('/api/auth/refresh', (req: Request, res: Response) => {
     try {
-        const { date, phases: phasesParam, deviceId } = req.query;
-        const requestedPhases = phasesParam ? JSON.parse(phasesParam as string) : [1, 2, 3];
-        const targetDate = date ? date as string : new Date().toISOString().split('T')[0];
-
-        const hourlyData = await threePhasePowerService.getHourlyUsage(
-            deviceId as string,
-            targetDate,
-            requestedPhases
-        );
+        const refreshToken = req.body?.refreshToken;
+        const tokens = typeof refreshToken === 'string' ? userService.refresh(refreshToken) : null;
+        if (!tokens) {
+            return res.status(401).json({
+                success: false,
+                error: {
+                    code: 'UNAUTHORIZED',
+                    message: 'Invalid or expired refresh token'
+                }
+            });
+        }
 
         res.status(200).json({
             success: true,
-            data: hourlyData
+            data: tokens
         });
     } catch (error) {
-        console.error('Error getting hourly usage:', error);
+        console.error('Error refreshing tokens:', error);
         res.status(500).json({
             success: false,
             error: {
                 code: 'SERVER_ERROR',
-                message: 'Failed to retrieve hourly usage'
+                message: 'Failed to refresh tokens'
             }
         });
     }
 });
 
-// 3. GET /dashboard/device-info - Device information and health
-app.get('/api/dashboard/device-info', validateDeviceId, async (req: Request, res: Response) => {
+// POST /api/auth/logout - End the session of the access token
+app.post('/api/auth/logout', authenticate, (req: Request, res: Response) => {
+    userService.logout(getRequestSessionId(req));
+    res.status(200).json({
+        success: true,
+        message: 'Logged out'
+    });
+});
+
+// GET /api/auth/me - The authenticated user and what their role allows
+app.get('/api/auth/me', authenticate, (req: Request, res: Response) => {
+    const user = getRequestUser(req);
+    res.status(200).json({
+        success: true,
+        data: { ...user, permissions: getPermissions(user.role) }
+    });
+});
+
+// GET /api/users - Accounts
+app.get('/api/users', requirePermission('users:manage'), (req: Request, res: Response) => {
+    const users = userService.list();
+    res.status(200).json({
+        success: true,
+        data: { count: users.length, users }
+    });
+});
+
+// POST /api/users - Create an account: { email, name, password, role?, connectionCategory?, monthlyBudget?, timezone? }
+app.post('/api/users', requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
-        const { deviceId } = req.query;
-        
-        const deviceData = getDeviceById(deviceId as string);
-        if (!deviceData) {
-            return res.status(404).json({
+        const {
+            email,
+            name,
+            password,
+            role = 'owner',
+            connectionCategory = 'domestic-3phase',
+            monthlyBudget = 0,
+            timezone
+        } = req.body || {};
+
+        const error =
+            typeof email !== 'string' || !/^[^@\s]+@[^@\s]+$/.test(email) ? 'A valid email is required'
+            : typeof name !== 'string' || name.trim().length === 0 ? 'name is required'
+            : typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH ? `password must have at least ${PASSWORD_MIN_LENGTH} characters`
+            : !ROLES.includes(role) ? `role must be one of ${ROLES.join(', ')}`
+            : !CONNECTION_CATEGORIES.includes(connectionCategory) ? `connectionCategory must be one of ${CONNECTION_CATEGORIES.join(', ')}`
+            : typeof monthlyBudget !== 'number' || !(monthlyBudget >= 0) ? 'monthlyBudget must be a non-negative number'
+            : timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone)) ? 'timezone must be an IANA timezone name'
+            : null;
+        if (error) {
+            return res.status(400).json({
                 success: false,
                 error: {
-                    code: 'DEVICE_NOT_FOUND',
-                    message: 'Device not found'
+                    code: 'INVALID_PARAMETERS',
+                    message: error
                 }
             });
         }
 
-        const healthStatus = await threePhasePowerService.getDeviceHealthStatus(deviceId as string);
-        const energy24h = await threePhasePowerService.get24HourEnergy(deviceId as string);
-
-        // Get latest reading for timestamp
-        const latestReading = await threePhasePowerService.getLatestReadings(deviceId as string);
+        const user = await userService.create(
+            { email: email.trim(), name: name.trim(), role, connectionCategory, monthlyBudget, ...(timezone && { timezone }) },
+            password
+        );
+        if (!user) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: 'CONFLICT',
+                    message: `An account for ${email} already exists`
+                }
+            });
+        }
 
-        res.status(200).json({
+        res.status(201).json({
             success: true,
-            data: {
-                name: deviceData.name,
-                location: deviceData.location,
-                deviceId: deviceId as string,
-                status: healthStatus === 'ok' ? 'online' : healthStatus === 'warning' ? 'warning' : 'offline',
-                lastDataReceived: latestReading?.timestamp || new Date().toISOString(),
-                healthStatus,
-                energy24h
-            }
+            data: user
         });
     } catch (error) {
-        console.error('Error getting device info:', error);
+        console.error('Error creating user:', error);
         res.status(500).json({
             success: false,
             error: {
                 code: 'SERVER_ERROR',
-                message: 'Failed to retrieve device information'
+                message: 'Failed to create user'
             }
         });
     }
 });
 
-// 4. GET /dashboard/user-profile - User profile and preferences
-app.get('/api/dashboard/user-profile', async (req: Request, res: Response) => {
+// PUT /api/users/:userId/password - Set a password ({ password }); ends the user's sessions
+app.put('/api/users/:userId/password', requirePermission('users:manage'), async (req: Request, res: Response) => {
     try {
-        const userProfile = getCurrentUser();
+        const password = req.body?.password;
+        if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: `password must have at least ${PASSWORD_MIN_LENGTH} characters`
+                }
+            });
+        }
 
-        if (!userProfile) {
+        if (!await userService.setPassword(req.params.userId as string, password)) {
             return res.status(404).json({
                 success: false,
                 error: {
@@ -1188,76 +1334,314 @@ app.get('/api/dashboard/user-profile', async (req: Request, res: Response) => {
 
         res.status(200).json({
             success: true,
-            data: userProfile
+            message: 'Password updated'
         });
     } catch (error) {
-        console.error('Error getting user profile:', error);
+        console.error('Error setting password:', error);
         res.status(500).json({
             success: false,
             error: {
                 code: 'SERVER_ERROR',
-                message: 'Failed to retrieve user profile'
+                message: 'Failed to set password'
             }
         });
     }
 });
 
-// 5. POST /dashboard/calculate-bill - Calculate electricity bill
-app.post('/api/dashboard/calculate-bill', validateDeviceId, async (req: Request, res: Response) => {
+// PUT /api/users/:userId/role - Change a user's role ({ role })
+app.put('/api/users/:userId/role', requirePermission('users:manage'), (req: Request, res: Response) => {
     try {
-        const requestData: BillCalculationRequest = req.body;
-
-        if (!requestData.totalEnergy || typeof requestData.totalEnergy !== 'number') {
+        const role = req.body?.role;
+        if (!ROLES.includes(role)) {
             return res.status(400).json({
                 success: false,
                 error: {
                     code: 'INVALID_PARAMETERS',
-                    message: 'totalEnergy is required and must be a number'
+                    message: `role must be one of ${ROLES.join(', ')}`
                 }
             });
         }
 
-        if (!requestData.connectionCategory) {
-            return res.status(400).json({
+        const user = userService.setRole(req.params.userId as string, role);
+        if (!user) {
+            return res.status(404).json({
                 success: false,
                 error: {
-                    code: 'INVALID_PARAMETERS',
-                    message: 'connectionCategory is required'
+                    code: 'USER_NOT_FOUND',
+                    message: 'User not found'
                 }
             });
         }
 
-        const billData = billingService.calculateBill(requestData);
-
         res.status(200).json({
             success: true,
-            data: billData
+            data: user
         });
     } catch (error) {
-        console.error('Error calculating bill:', error);
+        console.error('Error changing user role:', error);
         res.status(500).json({
             success: false,
             error: {
-                code: 'CALCULATION_ERROR',
-                message: error instanceof Error ? error.message : 'Failed to calculate electricity bill'
+                code: 'SERVER_ERROR',
+                message: 'Failed to change user role'
             }
         });
     }
 });
 
-// 6. GET /dashboard/analytics - Analytics data for charts
-app.get('/api/dashboard/analytics', validateDeviceId, async (req: Request, res: Response) => {
+// ===== DASHBOARD ENDPOINTS =====
+
+// 1. GET /dashboard/readings - Real-time 3-phase energy readings
+app.get('/api/dashboard/readings', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
     try {
-        const { type, period, phases: phasesParam, deviceId } = req.query;
-        
-        const analyticsType = (type as 'energy' | 'voltage' | 'power') || 'energy';
-        const analyticsPeriod = (period as '24h' | '7d' | '30d') || '24h';
+        const { phases: phasesParam, deviceId } = req.query;
+        const requestedPhases = parsePhasesParam(phasesParam);
 
-        const analyticsData = await threePhasePowerService.getAnalyticsData(
-            deviceId as string,
-            analyticsType,
-            analyticsPeriod
-        );
+        if (!requestedPhases) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'phases must be a list of phase numbers 1-3, e.g. [1,2,3]'
+                }
+            });
+        }
+
+        const readings = await threePhasePowerService.getLatestReadings(deviceId as string, requestedPhases);
+
+        if (!readings) {
+            return res.status(200).json({
+                success: false,
+                error: {
+                    code: 'NO_DATA_AVAILABLE',
+                    message: 'No recent readings available for this device'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: readings
+        });
+    } catch (error) {
+        console.error('Error getting dashboard readings:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve readings'
+            }
+        });
+    }
+});
+
+// 2. GET /dashboard/hourly-usage - Hourly energy usage by phase
+app.get('/api/dashboard/hourly-usage', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
+    try {
+        const { date, phases: phasesParam, deviceId } = req.query;
+        const requestedPhases = parsePhasesParam(phasesParam);
+        const excludeDefaulted = parseBooleanParam(req.query.excludeDefaulted);
+
+        if (!requestedPhases) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'phases must be a list of phase numbers 1-3, e.g. [1,2,3]'
+                }
+            });
+        }
+
+        if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'date must be in YYYY-MM-DD format'
+                }
+            });
+        }
+
+        if (excludeDefaulted === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'excludeDefaulted must be true or false'
+                }
+            });
+        }
+        // The date is a calendar day in the device's timezone
+        const timeZone = getDeviceTimeZone(deviceId as string);
+        const targetDate = date ? date as string : zonedDateString(new Date(), timeZone);
+
+        const hourlyData = await threePhasePowerService.getHourlyUsage(
+            deviceId as string,
+            targetDate,
+            requestedPhases,
+            timeZone,
+            excludeDefaulted
+        );
+
+        res.status(200).json({
+            success: true,
+            data: hourlyData
+        });
+    } catch (error) {
+        console.error('Error getting hourly usage:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve hourly usage'
+            }
+        });
+    }
+});
+
+// 3. GET /dashboard/device-info - Device information and health
+app.get('/api/dashboard/device-info', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
+    try {
+        const { deviceId } = req.query;
+        
+        const deviceData = getDeviceById(deviceId as string);
+        if (!deviceData) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'DEVICE_NOT_FOUND',
+                    message: 'Device not found'
+                }
+            });
+        }
+
+        // Silence sets the base status; weak signal or repeated reboots degrade it
+        const diagnostics = await diagnosticsService.getSummary(deviceId as string);
+        const health = diagnosticsService.assessHealth(
+            await threePhasePowerService.getDeviceHealthStatus(deviceId as string),
+            diagnostics
+        );
+        const healthStatus = health.status;
+        const energy24h = await threePhasePowerService.get24HourEnergy(deviceId as string);
+
+        // Get latest reading for timestamp
+        const latestReading = await threePhasePowerService.getLatestReadings(deviceId as string);
+        const clock = await clockDriftService.getStatus(deviceId as string);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                name: deviceData.name,
+                location: deviceData.location,
+                deviceId: deviceId as string,
+                ownerId: deviceData.userId,
+                connectionCategory: deviceData.connectionCategory,
+                installDate: deviceData.installDate,
+                model: deviceData.model,
+                reportingIntervalSeconds: deviceData.reportingIntervalSeconds,
+                registryStatus: deviceData.status,
+                status: healthStatus === 'ok' ? 'online' : healthStatus === 'warning' ? 'warning' : 'offline',
+                lastDataReceived: latestReading?.timestamp || new Date().toISOString(),
+                healthStatus,
+                healthReasons: health.reasons,
+                energy24h,
+                ingestion: {
+                    ...dedupService.getStats(deviceId as string),
+                    ...deviceAuthService.getRejectedStats(deviceId as string)
+                },
+                clock,
+                diagnostics
+            }
+        });
+    } catch (error) {
+        console.error('Error getting device info:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve device information'
+            }
+        });
+    }
+});
+
+// 4. GET /dashboard/user-profile - User profile and preferences
+app.get('/api/dashboard/user-profile', authenticate, async (req: Request, res: Response) => {
+    try {
+        const { id, createdAt, updatedAt, ...userProfile } = getRequestUser(req);
+
+        res.status(200).json({
+            success: true,
+            data: userProfile
+        });
+    } catch (error) {
+        console.error('Error getting user profile:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve user profile'
+            }
+        });
+    }
+});
+
+// 5. POST /dashboard/calculate-bill - Calculate electricity bill
+app.post('/api/dashboard/calculate-bill', authenticate, authorize('billing:read'), validateDeviceId, async (req: Request, res: Response) => {
+    try {
+        const requestData: BillCalculationRequest = req.body;
+
+        if (!requestData.totalEnergy || typeof requestData.totalEnergy !== 'number') {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'totalEnergy is required and must be a number'
+                }
+            });
+        }
+
+        if (!requestData.connectionCategory) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'connectionCategory is required'
+                }
+            });
+        }
+
+        const billData = billingService.calculateBill(requestData);
+
+        res.status(200).json({
+            success: true,
+            data: billData
+        });
+    } catch (error) {
+        console.error('Error calculating bill:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'CALCULATION_ERROR',
+                message: error instanceof Error ? error.message : 'Failed to calculate electricity bill'
+            }
+        });
+    }
+});
+
+// 6. GET /dashboard/analytics - Analytics data for charts
+app.get('/api/dashboard/analytics', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
+    try {
+        const { type, period, phases: phasesParam, deviceId } = req.query;
+        
+        const analyticsType = (type as 'energy' | 'voltage' | 'power') || 'energy';
+        const analyticsPeriod = (period as '24h' | '7d' | '30d') || '24h';
+
+        const analyticsData = await threePhasePowerService.getAnalyticsData(
+            deviceId as string,
+            analyticsType,
+            analyticsPeriod
+        );
 
         // Add daily consumption for chart
         const dailyConsumption = [];
@@ -1293,14 +1677,27 @@ app.get('/api/dashboard/analytics', validateDeviceId, async (req: Request, res:
 });
 
 // 7. GET /dashboard/statistics - Aggregated statistics
-app.get('/api/dashboard/statistics', validateDeviceId, async (req: Request, res: Response) => {
+app.get('/api/dashboard/statistics', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
     try {
         const { deviceId, period } = req.query;
         const statsPeriod = (period as 'today' | 'week' | 'month') || 'today';
+        const excludeDefaulted = parseBooleanParam(req.query.excludeDefaulted);
+
+        if (excludeDefaulted === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'excludeDefaulted must be true or false'
+                }
+            });
+        }
 
         const stats = await threePhasePowerService.getStatistics(
             deviceId as string,
-            statsPeriod
+            statsPeriod,
+            getDeviceTimeZone(deviceId as string),
+            excludeDefaulted
         );
 
         res.status(200).json({
@@ -1320,12 +1717,12 @@ app.get('/api/dashboard/statistics', validateDeviceId, async (req: Request, res:
 });
 
 // 8. GET /dashboard/insights - AI-generated insights and alerts
-app.get('/api/dashboard/insights', validateDeviceId, async (req: Request, res: Response) => {
+app.get('/api/dashboard/insights', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
     try {
         const { deviceId } = req.query;
 
         // Get current and historical data for insights
-        const stats = await threePhasePowerService.getStatistics(deviceId as string, 'today');
+        const stats = await threePhasePowerService.getStatistics(deviceId as string, 'today', getDeviceTimeZone(deviceId as string));
         const yesterdayStats = await threePhasePowerService.getStatistics(deviceId as string, 'week');
 
         const insightsData = {
@@ -1373,15 +1770,39 @@ app.get('/api/dashboard/insights', validateDeviceId, async (req: Request, res: R
 });
 
 // 9. PUT /dashboard/user-profile - Update user profile
-app.put('/api/dashboard/user-profile', async (req: Request, res: Response) => {
+app.put('/api/dashboard/user-profile', authenticate, authorize('profile:edit'), async (req: Request, res: Response) => {
     try {
-        const { connectionCategory, monthlyBudget } = req.body;
+        const { name, connectionCategory, monthlyBudget, timezone } = req.body || {};
+
+        if ((name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) ||
+            (connectionCategory !== undefined && !CONNECTION_CATEGORIES.includes(connectionCategory)) ||
+            (monthlyBudget !== undefined && (typeof monthlyBudget !== 'number' || !(monthlyBudget >= 0)))) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: `Expected name, connectionCategory (${CONNECTION_CATEGORIES.join(', ')}) and/or a non-negative monthlyBudget`
+                }
+            });
+        }
+
+        if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'timezone must be an IANA timezone name, e.g. Asia/Colombo'
+                }
+            });
+        }
 
         const updates: any = {};
+        if (name !== undefined) updates.name = name.trim();
         if (connectionCategory) updates.connectionCategory = connectionCategory;
         if (monthlyBudget !== undefined) updates.monthlyBudget = monthlyBudget;
+        if (timezone !== undefined) updates.timezone = timezone;
 
-        const updatedProfile = updateUserProfile('user-1', updates); // Default user
+        const updatedProfile = userService.updateProfile(getRequestUser(req).id, updates);
 
         if (!updatedProfile) {
             return res.status(404).json({
@@ -1410,7 +1831,7 @@ app.put('/api/dashboard/user-profile', async (req: Request, res: Response) => {
 });
 
 // 10. GET /dashboard/phase-data - Phase-wise detailed data
-app.get('/api/dashboard/phase-data', validateDeviceId, async (req: Request, res: Response) => {
+app.get('/api/dashboard/phase-data', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
     try {
         const { deviceId } = req.query;
 
@@ -1432,10 +1853,36 @@ app.get('/api/dashboard/phase-data', validateDeviceId, async (req: Request, res:
     }
 });
 
+const PHASE_READING_FIELDS = ['voltage', 'current', 'power', 'energy_wh', 'powerFactor'];
+const TOTAL_READING_FIELDS = ['energy_wh', 'voltage', 'current', 'power'];
+
+// Shape of a posted ThreePhaseReadings (phases 1-3 and total with numeric fields); an error message or null
+const readingsShapeError = (readings: unknown): string | null => {
+    if (!readings || typeof readings !== 'object' || Array.isArray(readings)) return 'readings must be an object';
+    const { phases, total } = readings as Record<string, any>;
+    const notNumeric = (values: any, fields: string[]) =>
+        fields.find(field => typeof values[field] !== 'number' || !isFinite(values[field]));
+
+    if (!phases || typeof phases !== 'object') return 'readings.phases is required';
+    for (const phase of ['1', '2', '3']) {
+        if (!phases[phase] || typeof phases[phase] !== 'object') return `readings.phases.${phase} is required`;
+        const field = notNumeric(phases[phase], PHASE_READING_FIELDS);
+        if (field) return `readings.phases.${phase}.${field} must be a number`;
+    }
+    if (!total || typeof total !== 'object') return 'readings.total is required';
+    const field = notNumeric(total, TOTAL_READING_FIELDS);
+    return field ? `readings.total.${field} must be a number` : null;
+};
+
 // POST endpoint to store 3-phase readings (for ESP32 devices)
-app.post('/api/dashboard/readings', async (req: Request, res: Response) => {
+// Sent by devices, so authorized by device signature rather than a user token
+app.post('/api/dashboard/readings', logTraffic, async (req: Request, res: Response) => {
     try {
-        const { deviceId, readings } = req.body as { deviceId: string; readings: ThreePhaseReadings };
+        const { deviceId, readings, diagnostics } = req.body as {
+            deviceId: string;
+            readings: ThreePhaseReadings;
+            diagnostics?: Record<string, unknown>;  // short names: rssi/csq, bv, fw, up, rr
+        };
 
         if (!deviceId || !readings) {
             return res.status(400).json({
@@ -1447,39 +1894,127 @@ app.post('/api/dashboard/readings', async (req: Request, res: Response) => {
             });
         }
 
-        await threePhasePowerService.store3PhaseReading(deviceId, readings);
-
-        res.status(200).json({
-            success: true,
-            message: 'Readings stored successfully'
-        });
-    } catch (error) {
-        console.error('Error storing 3-phase reading:', error);
-        res.status(500).json({
-            success: false,
-            error: {
-                code: 'SERVER_ERROR',
-                message: 'Failed to store readings'
-            }
-        });
-    }
-});
-
-// GET /api/latest-voltage-current - Get latest voltage and current readings
-app.get('/api/latest-voltage-current', validateDeviceId, async (req: Request, res: Response) => {
-    try {
-        const { deviceId } = req.query;
-
-        const readings = await threePhasePowerService.getLatestReadings(deviceId as string, [1, 2, 3]);
+        const auth = deviceAuthService.verify(deviceId, getSignatureParts(req), getRawBody(req));
+        if (!auth.ok) {
+            return res.status(401).json({
+                success: false,
+                error: {
+                    code: 'UNAUTHORIZED',
+                    message: auth.message
+                }
+            });
+        }
 
-        if (!readings) {
-            return res.status(200).json({
+        const admitted = deviceRegistryService.admit(deviceId);
+        if (!admitted.ok) {
+            return res.status(403).json({
                 success: false,
-                message: 'No recent voltage and current readings available'
+                error: {
+                    code: admitted.code,
+                    message: admitted.message
+                }
             });
         }
 
-        // Extract just voltage and current data
+        const shapeError = readingsShapeError(readings);
+        if (shapeError) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: shapeError
+                }
+            });
+        }
+
+        if (readings.timestamp !== undefined && (typeof readings.timestamp !== 'string' || isNaN(Date.parse(readings.timestamp)))) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'readings.timestamp must be an ISO 8601 date'
+                }
+            });
+        }
+
+        // Validated, converted (cumulative registers to deltas) and deduplicated like query readings
+        const timestamp = readings.timestamp || new Date().toISOString();
+        const input = { ...threePhaseIngestService.toInput({ ...readings, timestamp }), deviceId };
+        const dedupKey = dedupService.keyFor(deviceId, req.body, {
+            idempotencyKey: req.get('Idempotency-Key'),
+            seq: req.body.seq,
+            ts: input.ts
+        });
+
+        const result = await dedupService.exclusive(deviceId, async (): Promise<IngestResult | null> => {
+            if (dedupService.checkDuplicate(deviceId, dedupKey)) return null;
+
+            const ingested = await threePhaseIngestService.ingest(input, {
+                channel: 'dashboard',
+                receivedAt: new Date().toISOString(),
+                // Diagnostics use the same short names as query parameters
+                params: { ...toParams(diagnostics), ...toShortParams(input) },
+                raw: getRawBody(req)
+            });
+            if (ingested.ok || 'quarantine' in ingested) dedupService.remember(dedupKey);
+            return ingested;
+        });
+
+        if (!result) {
+            return res.status(200).json({
+                success: true,
+                message: 'Duplicate reading ignored',
+                data: { duplicate: true }
+            });
+        }
+        if (!result.ok && 'quarantine' in result) {
+            return res.status(200).json({
+                success: true,
+                message: 'Readings quarantined for review',
+                data: { quarantineId: result.quarantineId, reasons: result.quarantine.violations.map(describeViolation) }
+            });
+        }
+        if (!result.ok) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: result.message
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Readings stored successfully'
+        });
+    } catch (error) {
+        console.error('Error storing 3-phase reading:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to store readings'
+            }
+        });
+    }
+});
+
+// GET /api/latest-voltage-current - Get latest voltage and current readings
+app.get('/api/latest-voltage-current', authenticate, authorize('dashboard:read'), validateDeviceId, async (req: Request, res: Response) => {
+    try {
+        const { deviceId } = req.query;
+
+        const readings = await threePhasePowerService.getLatestReadings(deviceId as string, [1, 2, 3]);
+
+        if (!readings) {
+            return res.status(200).json({
+                success: false,
+                message: 'No recent voltage and current readings available'
+            });
+        }
+
+        // Extract just voltage and current data
         const voltageCurrentData = {
             timestamp: readings.timestamp,
             phases: {
@@ -1515,6 +2050,1756 @@ app.get('/api/latest-voltage-current', validateDeviceId, async (req: Request, re
     }
 });
 
+// ===== DEVICE ADMINISTRATION (X-Admin-Key or a role with the permission) =====
+
+const DEVICE_ID_PATTERN = /^[a-zA-Z0-9-_]+$/;
+
+const invalidDeviceId = (res: Response) => res.status(400).json({
+    success: false,
+    error: {
+        code: 'INVALID_PARAMETERS',
+        message: 'Invalid deviceId format'
+    }
+});
+
+// Registry fields from a request body; returns an error message or null
+const deviceFieldsError = (body: unknown, creating: boolean): string | null => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Send the device as a JSON object';
+    const { deviceId, ...fields } = body as Record<string, unknown>;
+    if (!creating && deviceId !== undefined) return 'deviceId cannot be changed';
+    if (!creating && Object.keys(fields).length === 0) return 'No fields given';
+
+    const error = deviceRegistryService.validate(fields, creating);
+    if (error) return error;
+    if (typeof fields.userId === 'string' && !getUserById(fields.userId)) return `Unknown user ${fields.userId}`;
+    return null;
+};
+
+// A device's tariff category is tariff administration, not device management
+const tariffForbidden = (req: Request, res: Response): boolean => {
+    if (req.body?.connectionCategory === undefined || requestHasPermission(req, 'tariffs:manage')) return false;
+    res.status(403).json({
+        success: false,
+        error: {
+            code: 'FORBIDDEN',
+            message: 'Setting connectionCategory requires tariffs:manage'
+        }
+    });
+    return true;
+};
+
+const deviceNotFound = (res: Response) => res.status(404).json({
+    success: false,
+    error: {
+        code: 'DEVICE_NOT_FOUND',
+        message: 'Device not found'
+    }
+});
+
+// GET /api/devices?status=active&userId=... - Registered devices
+app.get('/api/devices', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const status = req.query.status as string | undefined;
+    if (status !== undefined && !DEVICE_STATUSES.includes(status as DeviceStatus)) {
+        return res.status(400).json({
+            success: false,
+            error: {
+                code: 'INVALID_PARAMETERS',
+                message: `status must be one of ${DEVICE_STATUSES.join(', ')}`
+            }
+        });
+    }
+
+    const devices = deviceRegistryService.list({
+        status: status as DeviceStatus | undefined,
+        userId: req.query.userId as string | undefined
+    });
+    res.status(200).json({
+        success: true,
+        data: { count: devices.length, devices }
+    });
+});
+
+// POST /api/devices - Register a device: { deviceId, name, location, userId, connectionCategory, installDate, model, reportingIntervalSeconds, ... }
+app.post('/api/devices', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.body?.deviceId;
+        if (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const error = deviceFieldsError(req.body, true);
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        if (tariffForbidden(req, res)) return;
+
+        const { deviceId: _, ...fields } = req.body;
+        const device = deviceRegistryService.create(deviceId, fields as DeviceFields);
+        if (!device) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: 'CONFLICT',
+                    message: `Device ${deviceId} is already registered`
+                }
+            });
+        }
+
+        res.status(201).json({
+            success: true,
+            data: device
+        });
+    } catch (error) {
+        console.error('Error registering device:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to register device'
+            }
+        });
+    }
+});
+
+app.get('/api/devices/:deviceId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+    const device = deviceRegistryService.get(deviceId);
+    if (!device) return deviceNotFound(res);
+
+    res.status(200).json({
+        success: true,
+        data: device
+    });
+});
+
+// PATCH /api/devices/:deviceId - Change registry fields (null clears an optional one)
+app.patch('/api/devices/:deviceId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const error = deviceFieldsError(req.body, false);
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        if (tariffForbidden(req, res)) return;
+
+        const device = deviceRegistryService.update(deviceId, req.body as DeviceFields);
+        if (!device) return deviceNotFound(res);
+
+        res.status(200).json({
+            success: true,
+            data: device
+        });
+    } catch (error) {
+        console.error('Error updating device:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update device'
+            }
+        });
+    }
+});
+
+// DELETE /api/devices/:deviceId - Decommission: readings are refused, the record and its data are kept
+app.delete('/api/devices/:deviceId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const result = deviceRegistryService.decommission(deviceId);
+        if (!result.ok) {
+            if (result.code === 'NOT_FOUND') return deviceNotFound(res);
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: 'CONFLICT',
+                    message: 'Device is already decommissioned'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: result.device
+        });
+    } catch (error) {
+        console.error('Error decommissioning device:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to decommission device'
+            }
+        });
+    }
+});
+
+// POST /api/devices/:deviceId/reactivate - Put a decommissioned device back into service
+app.post('/api/devices/:deviceId/reactivate', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        if (!deviceRegistryService.get(deviceId)) return deviceNotFound(res);
+        const device = deviceRegistryService.reactivate(deviceId);
+        if (!device) {
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: 'CONFLICT',
+                    message: 'Device is already active'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: device
+        });
+    } catch (error) {
+        console.error('Error reactivating device:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to reactivate device'
+            }
+        });
+    }
+});
+
+// GET /api/devices/:deviceId/access - Owner and users the device is shared with
+app.get('/api/devices/:deviceId/access', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+    const device = deviceRegistryService.get(deviceId);
+    if (!device) return deviceNotFound(res);
+
+    res.status(200).json({
+        success: true,
+        data: { deviceId, ownerId: device.userId, grants: deviceAccessService.listGrants(deviceId) }
+    });
+});
+
+// POST /api/devices/:deviceId/access - Share the device with a user ({ userId })
+app.post('/api/devices/:deviceId/access', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+        if (!deviceRegistryService.get(deviceId)) return deviceNotFound(res);
+
+        const userId = req.body?.userId;
+        if (typeof userId !== 'string' || !getUserById(userId)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'userId must name an existing user'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { deviceId, grant: deviceAccessService.grant(deviceId, userId) }
+        });
+    } catch (error) {
+        console.error('Error granting device access:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to grant device access'
+            }
+        });
+    }
+});
+
+app.delete('/api/devices/:deviceId/access/:userId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        if (!deviceAccessService.revoke(deviceId, req.params.userId as string)) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: 'No grant for this user'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Access revoked'
+        });
+    } catch (error) {
+        console.error('Error revoking device access:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to revoke device access'
+            }
+        });
+    }
+});
+
+// GET /api/devices/:deviceId/credentials - Keys (without secrets) and rejected request counts
+app.get('/api/devices/:deviceId/credentials', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+    res.status(200).json({
+        success: true,
+        data: {
+            deviceId,
+            keys: deviceAuthService.listKeys(deviceId),
+            rejected: deviceAuthService.getRejectedStats(deviceId)
+        }
+    });
+});
+
+// POST /api/devices/:deviceId/credentials - Issue a key; the secret is only returned once
+app.post('/api/devices/:deviceId/credentials', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        res.status(201).json({
+            success: true,
+            data: { deviceId, ...deviceAuthService.issueKey(deviceId) }
+        });
+    } catch (error) {
+        console.error('Error issuing device credentials:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to issue credentials'
+            }
+        });
+    }
+});
+
+// POST /api/devices/:deviceId/credentials/rotate?graceSeconds=... - New key, current keys expire after the grace period
+app.post('/api/devices/:deviceId/credentials/rotate', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const graceSeconds = req.query.graceSeconds !== undefined ? Number(req.query.graceSeconds) : undefined;
+        if (graceSeconds !== undefined && !(Number.isInteger(graceSeconds) && graceSeconds >= 0)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'graceSeconds must be a non-negative integer'
+                }
+            });
+        }
+
+        const { key, previousKeysExpireAt } = deviceAuthService.rotateKey(deviceId, graceSeconds);
+        res.status(201).json({
+            success: true,
+            data: { deviceId, ...key, previousKeysExpireAt }
+        });
+    } catch (error) {
+        console.error('Error rotating device credentials:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to rotate credentials'
+            }
+        });
+    }
+});
+
+// DELETE /api/devices/:deviceId/credentials[/:keyId] - Revoke one key, or all keys of a device
+app.delete(['/api/devices/:deviceId/credentials', '/api/devices/:deviceId/credentials/:keyId'], requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const keyId = req.params.keyId as string | undefined;
+        const revoked = deviceAuthService.revoke(deviceId, keyId);
+        if (keyId && revoked === 0) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'KEY_NOT_FOUND',
+                    message: 'No active key with this ID'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { deviceId, revoked }
+        });
+    } catch (error) {
+        console.error('Error revoking device credentials:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to revoke credentials'
+            }
+        });
+    }
+});
+
+// GET /api/devices/:deviceId/plausibility - Effective plausibility limits
+app.get('/api/devices/:deviceId/plausibility', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+    res.status(200).json({
+        success: true,
+        data: { deviceId, limits: plausibilityService.getLimits(deviceId) }
+    });
+});
+
+// PUT /api/devices/:deviceId/plausibility - Override limits, e.g. { "ctRatingA": 200 }; DELETE restores defaults
+app.put('/api/devices/:deviceId/plausibility', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const body = req.body;
+        const error = body && typeof body === 'object' && !Array.isArray(body)
+            ? plausibilityService.validateLimits(body)
+            : 'Send the limits as a JSON object';
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { deviceId, limits: plausibilityService.setLimits(deviceId, body) }
+        });
+    } catch (error) {
+        console.error('Error updating plausibility limits:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update plausibility limits'
+            }
+        });
+    }
+});
+
+app.delete('/api/devices/:deviceId/plausibility', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        res.status(200).json({
+            success: true,
+            data: { deviceId, limits: plausibilityService.setLimits(deviceId, null) }
+        });
+    } catch (error) {
+        console.error('Error resetting plausibility limits:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to reset plausibility limits'
+            }
+        });
+    }
+});
+
+// GET /api/devices/:deviceId/config - Desired config and the version the device last acknowledged
+app.get('/api/devices/:deviceId/config', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+    res.status(200).json({
+        success: true,
+        data: { deviceId, ...deviceCommandService.getConfig(deviceId) }
+    });
+});
+
+// PUT /api/devices/:deviceId/config - Change settings (null removes one); delivered with the next accepted reading
+app.put('/api/devices/:deviceId/config', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const body = req.body;
+        const error = body && typeof body === 'object' && !Array.isArray(body)
+            ? deviceCommandService.validateConfig(body)
+            : 'Send the settings as a JSON object';
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { deviceId, ...deviceCommandService.setConfig(deviceId, body) }
+        });
+    } catch (error) {
+        console.error('Error updating device config:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update device config'
+            }
+        });
+    }
+});
+
+// GET /api/devices/:deviceId/commands?status=delivered - Commands with their delivery status, newest first
+app.get('/api/devices/:deviceId/commands', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+    const status = (req.query.status as string | undefined) || undefined;
+    if (status !== undefined && !COMMAND_STATUSES.includes(status as CommandStatus)) {
+        return res.status(400).json({
+            success: false,
+            error: {
+                code: 'INVALID_PARAMETERS',
+                message: `status must be one of ${COMMAND_STATUSES.join(', ')}`
+            }
+        });
+    }
+
+    const commands = deviceCommandService.listCommands(deviceId, status as CommandStatus | undefined);
+    res.status(200).json({
+        success: true,
+        data: { deviceId, count: commands.length, commands }
+    });
+});
+
+// POST /api/devices/:deviceId/commands - Queue a command (body: { type: 'reboot' })
+app.post('/api/devices/:deviceId/commands', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const type = req.body?.type;
+        if (!COMMAND_TYPES.includes(type)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: `type must be one of ${COMMAND_TYPES.join(', ')}`
+                }
+            });
+        }
+
+        res.status(201).json({
+            success: true,
+            data: { deviceId, command: deviceCommandService.enqueueCommand(deviceId, type as CommandType) }
+        });
+    } catch (error) {
+        console.error('Error queuing device command:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to queue command'
+            }
+        });
+    }
+});
+
+// DELETE /api/devices/:deviceId/commands/:id - Cancel a command the device has not acknowledged
+app.delete('/api/devices/:deviceId/commands/:id', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const result = deviceCommandService.cancelCommand(deviceId, req.params.id as string);
+        if (!result.ok) {
+            return res.status(result.code === 'NOT_FOUND' ? 404 : 409).json({
+                success: false,
+                error: {
+                    code: result.code,
+                    message: result.code === 'NOT_FOUND' ? 'Command not found' : 'Command is already completed'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { deviceId, command: result.command }
+        });
+    } catch (error) {
+        console.error('Error cancelling device command:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to cancel command'
+            }
+        });
+    }
+});
+
+// GET /api/quarantine?deviceId=...&status=pending&from=...&to=...&limit=100 - Quarantined readings, newest first
+// (the last 30 days unless from/to is given)
+app.get('/api/quarantine', requirePermission('quarantine:review'), async (req: Request, res: Response) => {
+    try {
+        const deviceId = req.query.deviceId as string | undefined;
+        const status = (req.query.status as string | undefined) || undefined;
+        const from = parseDateParam(req.query.from);
+        const to = parseDateParam(req.query.to);
+        const limit = parseLimitParam(req.query.limit, 100, 1000);
+
+        if ((deviceId !== undefined && !DEVICE_ID_PATTERN.test(deviceId)) ||
+            (status !== undefined && !QUARANTINE_STATUSES.includes(status as QuarantineStatus)) ||
+            from === null || to === null || limit === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: `Expected deviceId, status (${QUARANTINE_STATUSES.join('/')}), ISO from/to and limit 1-1000`
+                }
+            });
+        }
+
+        const entries = await quarantineService.list({ deviceId, status: status as QuarantineStatus | undefined, from, to, limit });
+
+        res.status(200).json({
+            success: true,
+            data: { count: entries.length, entries }
+        });
+    } catch (error) {
+        console.error('Error listing quarantined readings:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to list quarantined readings'
+            }
+        });
+    }
+});
+
+// POST /api/quarantine/:id/release | /discard?deviceId=...&from=...&to=... - Store or drop a quarantined reading
+// (the range is needed for readings older than the default window)
+const reviewQuarantined = (review: (id: string, range: QuarantineRange) => Promise<QuarantineReviewResult>) => async (req: Request, res: Response) => {
+    try {
+        const deviceId = req.query.deviceId as string | undefined;
+        const from = parseDateParam(req.query.from);
+        const to = parseDateParam(req.query.to);
+
+        if ((deviceId !== undefined && !DEVICE_ID_PATTERN.test(deviceId)) || from === null || to === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'Expected deviceId and ISO from/to'
+                }
+            });
+        }
+
+        const result = await review(req.params.id as string, { deviceId, from, to });
+
+        if (!result.ok) {
+            const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'CONFLICT' ? 409 : 422;
+            return res.status(status).json({
+                success: false,
+                error: {
+                    code: result.code,
+                    message: result.message
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: result.entry
+        });
+    } catch (error) {
+        console.error('Error reviewing quarantined reading:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update quarantined reading'
+            }
+        });
+    }
+};
+
+app.post('/api/quarantine/:id/release', requirePermission('quarantine:review'), reviewQuarantined((id, range) => threePhaseIngestService.releaseQuarantined(id, range)));
+app.post('/api/quarantine/:id/discard', requirePermission('quarantine:review'), reviewQuarantined((id, range) => threePhaseIngestService.discardQuarantined(id, range)));
+
+// GET /api/traffic-log?deviceId=...&route=...&status=4xx&from=...&to=...&limit=100 - Raw device traffic, newest first
+app.get('/api/traffic-log', requirePermission('readings:ingest'), async (req: Request, res: Response) => {
+    try {
+        const deviceId = req.query.deviceId as string | undefined;
+        const route = (req.query.route as string | undefined) || undefined;
+        const statusParam = req.query.status as string | undefined;
+        const status = statusParam === undefined || statusParam === '' ? undefined
+            : /^[2-5]xx$/.test(statusParam) ? statusParam as TrafficLogQuery['status']
+            : /^\d{3}$/.test(statusParam) ? Number(statusParam)
+            : null;
+        const from = parseDateParam(req.query.from);
+        const to = parseDateParam(req.query.to);
+        const limit = parseLimitParam(req.query.limit, 100, 1000);
+
+        if ((deviceId !== undefined && !DEVICE_ID_PATTERN.test(deviceId)) ||
+            status === null || from === null || to === null || limit === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'Expected deviceId, route, status (e.g. 400 or 4xx), ISO from/to and limit 1-1000'
+                }
+            });
+        }
+
+        const entries = await trafficLogService.query({ deviceId, route, status, from, to, limit });
+
+        res.status(200).json({
+            success: true,
+            data: { count: entries.length, entries }
+        });
+    } catch (error) {
+        console.error('Error querying traffic log:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to query traffic log'
+            }
+        });
+    }
+});
+
+// POST /api/devices/:deviceId/reprocess?from=...&to=...&dryRun=true - Re-derive archived readings with the current logic
+// Dry runs (the default) only report how energy would change; dryRun=false rewrites the readings and rollups
+app.post('/api/devices/:deviceId/reprocess', requirePermission('readings:ingest'), async (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const from = parseDateParam(req.query.from);
+        const to = parseDateParam(req.query.to);
+        const dryRun = parseBooleanParam(req.query.dryRun, true);
+
+        if (!from || !to || from >= to || dryRun === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'Expected ISO from < to and dryRun=true|false'
+                }
+            });
+        }
+
+        const report = await reprocessService.reprocess(deviceId, from, to, dryRun);
+
+        res.status(200).json({
+            success: true,
+            data: report
+        });
+    } catch (error) {
+        console.error('Error reprocessing readings:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to reprocess readings'
+            }
+        });
+    }
+});
+
+// ===== SITES AND ORGANIZATIONS =====
+// Organization -> site -> meter hierarchy; dashboard figures of a site or
+// organization add up the meters counted in each site (main meters when
+// a site has them, see services/siteService)
+
+const SITE_ID_PATTERN = /^site-[a-f0-9]+$/;
+const ORGANIZATION_ID_PATTERN = /^org-[a-f0-9]+$/;
+
+// Organization fields from a request body; returns an error message or null
+const organizationFieldsError = (body: unknown, creating: boolean): string | null => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Send the organization as a JSON object';
+    const { name, userIds, timezone } = body as Record<string, unknown>;
+
+    if ((creating || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) return 'name is required';
+    if (userIds !== undefined) {
+        if (!Array.isArray(userIds) || userIds.some(id => typeof id !== 'string')) return 'userIds must be a list of user IDs';
+        const unknown = userIds.find(id => !getUserById(id));
+        if (unknown) return `Unknown user ${unknown}`;
+    }
+    if (timezone !== undefined && !(timezone === null && !creating) &&
+        (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+        return 'timezone must be an IANA timezone name';
+    }
+    return null;
+};
+
+// Site fields from a request body; returns an error message or null
+const siteFieldsError = (body: unknown, creating: boolean): string | null => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Send the site as a JSON object';
+    const { name, location, connectionCategory, timezone } = body as Record<string, unknown>;
+
+    if ((creating || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) return 'name is required';
+    if (location !== undefined && typeof location !== 'string') return 'location must be a string';
+    if (connectionCategory !== undefined && !(connectionCategory === null && !creating) &&
+        !CONNECTION_CATEGORIES.includes(connectionCategory as ConnectionCategory)) {
+        return `connectionCategory must be one of ${CONNECTION_CATEGORIES.join(', ')}`;
+    }
+    if (timezone !== undefined && !(timezone === null && !creating) &&
+        (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+        return 'timezone must be an IANA timezone name';
+    }
+    return null;
+};
+
+const organizationNotFound = (res: Response) => res.status(404).json({
+    success: false,
+    error: {
+        code: 'NOT_FOUND',
+        message: 'Organization not found'
+    }
+});
+
+const siteNotFound = (res: Response) => res.status(404).json({
+    success: false,
+    error: {
+        code: 'NOT_FOUND',
+        message: 'Site not found'
+    }
+});
+
+// Organization with its sites and each site's meters as counted in its total
+const organizationWithSites = (org: Organization) => ({
+    ...org,
+    sites: siteService.listSites(org.id).map(site => {
+        const { counted, subMeters } = siteService.scopeOf(site);
+        return { ...site, counted, subMeters };
+    })
+});
+
+interface MeterGroup {
+    organization: Organization;
+    site: Site | null;              // null for a whole organization
+    scopes: SiteScope[];
+    timeZone: string;
+}
+
+/**
+ * The site or organization of a dashboard group route, when the user may see it;
+ * otherwise responds 400/404/403 and returns null
+ */
+const resolveMeterGroup = (req: Request, res: Response): MeterGroup | null => {
+    const { siteId, orgId } = req.params as { siteId?: string; orgId?: string };
+    const site = siteId !== undefined && SITE_ID_PATTERN.test(siteId) ? siteService.getSite(siteId) : null;
+    const organization = site
+        ? siteService.getOrganization(site.organizationId)
+        : orgId !== undefined && ORGANIZATION_ID_PATTERN.test(orgId) ? siteService.getOrganization(orgId) : null;
+
+    if (!organization) {
+        if (siteId !== undefined) siteNotFound(res);
+        else organizationNotFound(res);
+        return null;
+    }
+    if (!siteService.canAccess(getRequestUser(req), organization)) {
+        res.status(403).json({
+            success: false,
+            error: {
+                code: 'FORBIDDEN',
+                message: `You do not have access to ${site ? 'site ' + site.id : 'organization ' + organization.id}`
+            }
+        });
+        return null;
+    }
+
+    const sites = site ? [site] : siteService.listSites(organization.id);
+    return {
+        organization,
+        site,
+        scopes: sites.map(s => siteService.scopeOf(s)),
+        timeZone: site?.timezone || organization.timezone || DEFAULT_TIMEZONE
+    };
+};
+
+// GET /api/organizations - Organizations with their sites and meters
+app.get('/api/organizations', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const organizations = siteService.listOrganizations().map(organizationWithSites);
+    res.status(200).json({
+        success: true,
+        data: { count: organizations.length, organizations }
+    });
+});
+
+// POST /api/organizations - Create an organization: { name, userIds?, timezone? }
+app.post('/api/organizations', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const error = organizationFieldsError(req.body, true);
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        const { name, userIds, timezone } = req.body;
+        const org = siteService.createOrganization({ name: name.trim(), userIds, timezone });
+        res.status(201).json({
+            success: true,
+            data: org
+        });
+    } catch (error) {
+        console.error('Error creating organization:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to create organization'
+            }
+        });
+    }
+});
+
+app.get('/api/organizations/:orgId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const org = siteService.getOrganization(req.params.orgId as string);
+    if (!org) return organizationNotFound(res);
+
+    res.status(200).json({
+        success: true,
+        data: organizationWithSites(org)
+    });
+});
+
+// PATCH /api/organizations/:orgId - Change name, members (userIds) or timezone (null clears it)
+app.patch('/api/organizations/:orgId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const error = organizationFieldsError(req.body, false);
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        const { name, userIds, timezone } = req.body;
+        const org = siteService.updateOrganization(req.params.orgId as string, {
+            name: typeof name === 'string' ? name.trim() : undefined,
+            userIds,
+            timezone
+        });
+        if (!org) return organizationNotFound(res);
+
+        res.status(200).json({
+            success: true,
+            data: org
+        });
+    } catch (error) {
+        console.error('Error updating organization:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update organization'
+            }
+        });
+    }
+});
+
+// DELETE /api/organizations/:orgId - Only once its sites are deleted
+app.delete('/api/organizations/:orgId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const result = siteService.deleteOrganization(req.params.orgId as string);
+        if (!result.ok) {
+            if (result.code === 'NOT_FOUND') return organizationNotFound(res);
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: 'CONFLICT',
+                    message: 'Delete the organization\'s sites first'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Organization deleted'
+        });
+    } catch (error) {
+        console.error('Error deleting organization:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to delete organization'
+            }
+        });
+    }
+});
+
+// POST /api/organizations/:orgId/sites - Create a site: { name, location?, connectionCategory?, timezone? }
+app.post('/api/organizations/:orgId/sites', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const error = siteFieldsError(req.body, true);
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        if (tariffForbidden(req, res)) return;
+
+        const { name, location, connectionCategory, timezone } = req.body;
+        const site = siteService.createSite(req.params.orgId as string, { name: name.trim(), location, connectionCategory, timezone });
+        if (!site) return organizationNotFound(res);
+
+        res.status(201).json({
+            success: true,
+            data: site
+        });
+    } catch (error) {
+        console.error('Error creating site:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to create site'
+            }
+        });
+    }
+});
+
+app.get('/api/sites/:siteId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const site = siteService.getSite(req.params.siteId as string);
+    if (!site) return siteNotFound(res);
+
+    const { counted, subMeters } = siteService.scopeOf(site);
+    res.status(200).json({
+        success: true,
+        data: { ...site, counted, subMeters }
+    });
+});
+
+// PATCH /api/sites/:siteId - Change name, location, connectionCategory or timezone (null clears the last two)
+app.patch('/api/sites/:siteId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const error = siteFieldsError(req.body, false);
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        if (tariffForbidden(req, res)) return;
+
+        const { name, location, connectionCategory, timezone } = req.body;
+        const site = siteService.updateSite(req.params.siteId as string, {
+            name: typeof name === 'string' ? name.trim() : undefined,
+            location,
+            connectionCategory,
+            timezone
+        });
+        if (!site) return siteNotFound(res);
+
+        res.status(200).json({
+            success: true,
+            data: site
+        });
+    } catch (error) {
+        console.error('Error updating site:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update site'
+            }
+        });
+    }
+});
+
+// DELETE /api/sites/:siteId - Remove the site; its meters stay registered
+app.delete('/api/sites/:siteId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        if (!siteService.deleteSite(req.params.siteId as string)) return siteNotFound(res);
+
+        res.status(200).json({
+            success: true,
+            message: 'Site deleted'
+        });
+    } catch (error) {
+        console.error('Error deleting site:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to delete site'
+            }
+        });
+    }
+});
+
+// PUT /api/sites/:siteId/meters/:deviceId - Add a meter or change its role: { role: 'main' | 'sub' }
+app.put('/api/sites/:siteId/meters/:deviceId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const deviceId = req.params.deviceId as string;
+        if (!DEVICE_ID_PATTERN.test(deviceId)) return invalidDeviceId(res);
+
+        const role = req.body?.role;
+        if (!METER_ROLES.includes(role)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: `role must be one of ${METER_ROLES.join(', ')}`
+                }
+            });
+        }
+
+        const result = siteService.setMeter(req.params.siteId as string, deviceId, role as MeterRole);
+        if (!result.ok) {
+            if (result.code === 'NOT_FOUND') return siteNotFound(res);
+            if (result.code === 'DEVICE_NOT_FOUND') return deviceNotFound(res);
+            return res.status(409).json({
+                success: false,
+                error: {
+                    code: 'CONFLICT',
+                    message: `Device ${deviceId} belongs to site ${siteService.findSiteOf(deviceId)?.id}`
+                }
+            });
+        }
+
+        const { counted, subMeters } = siteService.scopeOf(result.site);
+        res.status(200).json({
+            success: true,
+            data: { ...result.site, counted, subMeters }
+        });
+    } catch (error) {
+        console.error('Error setting site meter:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to set site meter'
+            }
+        });
+    }
+});
+
+app.delete('/api/sites/:siteId/meters/:deviceId', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        if (!siteService.removeMeter(req.params.siteId as string, req.params.deviceId as string)) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: 'The device is not a meter of this site'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Meter removed from site'
+        });
+    } catch (error) {
+        console.error('Error removing site meter:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to remove site meter'
+            }
+        });
+    }
+});
+
+// GET /dashboard/organizations - Organizations the user may see, with their sites
+app.get('/api/dashboard/organizations', authenticate, authorize('dashboard:read'), (req: Request, res: Response) => {
+    const organizations = siteService.listOrganizations(getRequestUser(req)).map(organizationWithSites);
+    res.status(200).json({
+        success: true,
+        data: { count: organizations.length, organizations }
+    });
+});
+
+// GET /dashboard/sites/:siteId/readings, /dashboard/organizations/:orgId/readings - Latest readings added up
+app.get(['/api/dashboard/sites/:siteId/readings', '/api/dashboard/organizations/:orgId/readings'], authenticate, authorize('dashboard:read'), async (req: Request, res: Response) => {
+    try {
+        const group = resolveMeterGroup(req, res);
+        if (!group) return;
+
+        const requestedPhases = parsePhasesParam(req.query.phases);
+        if (!requestedPhases) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'phases must be a list of phase numbers 1-3, e.g. [1,2,3]'
+                }
+            });
+        }
+
+        const readings = await siteAggregationService.getLatestReadings(group.scopes, requestedPhases);
+        if (!readings) {
+            return res.status(200).json({
+                success: false,
+                error: {
+                    code: 'NO_DATA_AVAILABLE',
+                    message: 'No recent readings available for these meters'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: readings
+        });
+    } catch (error) {
+        console.error('Error getting group readings:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve readings'
+            }
+        });
+    }
+});
+
+// GET .../hourly-usage?date=YYYY-MM-DD&phases=[1,2,3] - Hourly energy of the counted meters, in the site's timezone
+app.get(['/api/dashboard/sites/:siteId/hourly-usage', '/api/dashboard/organizations/:orgId/hourly-usage'], authenticate, authorize('dashboard:read'), async (req: Request, res: Response) => {
+    try {
+        const group = resolveMeterGroup(req, res);
+        if (!group) return;
+
+        const { date } = req.query;
+        const requestedPhases = parsePhasesParam(req.query.phases);
+        const excludeDefaulted = parseBooleanParam(req.query.excludeDefaulted);
+
+        if (!requestedPhases) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'phases must be a list of phase numbers 1-3, e.g. [1,2,3]'
+                }
+            });
+        }
+
+        if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'date must be in YYYY-MM-DD format'
+                }
+            });
+        }
+
+        if (excludeDefaulted === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'excludeDefaulted must be true or false'
+                }
+            });
+        }
+
+        const targetDate = date ? date as string : zonedDateString(new Date(), group.timeZone);
+        const hourlyData = await siteAggregationService.getHourlyUsage(
+            group.scopes,
+            targetDate,
+            requestedPhases,
+            group.timeZone,
+            excludeDefaulted
+        );
+
+        res.status(200).json({
+            success: true,
+            data: hourlyData
+        });
+    } catch (error) {
+        console.error('Error getting group hourly usage:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve hourly usage'
+            }
+        });
+    }
+});
+
+// GET .../statistics?period=today&excludeDefaulted=false - Statistics of the counted meters, with each meter's energy
+app.get(['/api/dashboard/sites/:siteId/statistics', '/api/dashboard/organizations/:orgId/statistics'], authenticate, authorize('dashboard:read'), async (req: Request, res: Response) => {
+    try {
+        const group = resolveMeterGroup(req, res);
+        if (!group) return;
+
+        const period = (req.query.period as string | undefined) || 'today';
+        const excludeDefaulted = parseBooleanParam(req.query.excludeDefaulted);
+
+        if (!['today', 'week', 'month'].includes(period)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'period must be one of today, week, month'
+                }
+            });
+        }
+
+        if (excludeDefaulted === null) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'excludeDefaulted must be true or false'
+                }
+            });
+        }
+
+        const stats = await siteAggregationService.getStatistics(
+            group.scopes,
+            period as 'today' | 'week' | 'month',
+            group.timeZone,
+            excludeDefaulted
+        );
+
+        res.status(200).json({
+            success: true,
+            data: stats
+        });
+    } catch (error) {
+        console.error('Error getting group statistics:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve statistics'
+            }
+        });
+    }
+});
+
+// GET .../phase-data - Phase contributions of the counted meters over the last 24 hours
+app.get(['/api/dashboard/sites/:siteId/phase-data', '/api/dashboard/organizations/:orgId/phase-data'], authenticate, authorize('dashboard:read'), async (req: Request, res: Response) => {
+    try {
+        const group = resolveMeterGroup(req, res);
+        if (!group) return;
+
+        const phaseData = await siteAggregationService.getPhaseData(group.scopes);
+
+        res.status(200).json({
+            success: true,
+            data: phaseData
+        });
+    } catch (error) {
+        console.error('Error getting group phase data:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to retrieve phase data'
+            }
+        });
+    }
+});
+
+// POST .../calculate-bill - { billingPeriod?: 'monthly' | 'daily', maxDemandKVA?, averagePowerFactor? }
+// One bill per site from its metered energy; an organization's total is the sum of its sites' bills
+app.post(['/api/dashboard/sites/:siteId/calculate-bill', '/api/dashboard/organizations/:orgId/calculate-bill'], authenticate, authorize('billing:read'), async (req: Request, res: Response) => {
+    try {
+        const group = resolveMeterGroup(req, res);
+        if (!group) return;
+
+        const { billingPeriod = 'monthly', maxDemandKVA, averagePowerFactor } = req.body || {};
+        const error = !['monthly', 'daily'].includes(billingPeriod) ? 'billingPeriod must be monthly or daily'
+            : maxDemandKVA !== undefined && (typeof maxDemandKVA !== 'number' || maxDemandKVA < 0) ? 'maxDemandKVA must be a non-negative number'
+            : averagePowerFactor !== undefined && (typeof averagePowerFactor !== 'number' || averagePowerFactor <= 0 || averagePowerFactor > 1)
+                ? 'averagePowerFactor must be a number in (0, 1]'
+            : null;
+        if (error) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: error
+                }
+            });
+        }
+
+        const bill = await siteAggregationService.calculateBill(
+            group.scopes,
+            { billingPeriod, maxDemandKVA, averagePowerFactor },
+            group.timeZone
+        );
+
+        res.status(200).json({
+            success: true,
+            data: bill
+        });
+    } catch (error) {
+        console.error('Error calculating group bill:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'CALCULATION_ERROR',
+                message: error instanceof Error ? error.message : 'Failed to calculate electricity bill'
+            }
+        });
+    }
+});
+
+// ===== FIRMWARE UPDATES =====
+
+const FIRMWARE_VERSION_PATTERN = /^[0-9A-Za-z.+_-]{1,32}$/;
+
+// GET /api/firmware/check?d=...&model=...&fw=... - Update offered to a device (signed like readings)
+app.get('/api/firmware/check', logTraffic, (req: Request, res: Response) => {
+    try {
+        const deviceId = req.query.d as string | undefined;
+        const model = req.query.model as string | undefined;
+        const version = (req.query.fw as string | undefined) || undefined;
+
+        if (!deviceId || !DEVICE_ID_PATTERN.test(deviceId) || !model || !FIRMWARE_VERSION_PATTERN.test(model) ||
+            (version !== undefined && !FIRMWARE_VERSION_PATTERN.test(version))) {
+            return res.status(400).json({ status: 'ERROR', message: 'd, model and an optional fw version are required' });
+        }
+
+        const auth = deviceAuthService.verify(deviceId, getSignatureParts(req), canonicalParams(req.query));
+        if (!auth.ok) {
+            return res.status(401).json({ status: 'ERROR', message: auth.message });
+        }
+
+        res.status(200).json({ status: 'OK', ...firmwareService.check(deviceId, model, version) });
+    } catch (error) {
+        console.error('Error checking firmware:', error);
+        res.status(500).json({ status: 'ERROR', message: 'Server error' });
+    }
+});
+
+// GET /api/firmware/download/:id?d=...&exp=...&token=... - Image download via a link from the check
+app.get('/api/firmware/download/:id', async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+        const image = firmwareService.getImage(id);
+        if (!image) {
+            return res.status(404).json({ status: 'ERROR', message: 'Firmware not found' });
+        }
+
+        const valid = firmwareService.verifyDownloadLink(
+            id,
+            String(req.query.d || ''),
+            Number(req.query.exp),
+            String(req.query.token || '')
+        );
+        if (!valid) {
+            return res.status(403).json({ status: 'ERROR', message: 'Download link is invalid or expired' });
+        }
+
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('X-Firmware-Version', image.version);
+        res.setHeader('X-Firmware-Sha256', image.sha256);
+        res.sendFile(path.resolve(firmwareService.imagePath(id)));
+    } catch (error) {
+        console.error('Error downloading firmware:', error);
+        res.status(500).json({ status: 'ERROR', message: 'Server error' });
+    }
+});
+
+// GET /api/firmware - Hosted images and the versions devices report, by model
+app.get('/api/firmware', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    res.status(200).json({
+        success: true,
+        data: {
+            images: firmwareService.listImages(),
+            reportedVersions: firmwareService.getVersionCounts()
+        }
+    });
+});
+
+// POST /api/firmware?version=1.3.0&model=esp32-3ph&sha256=...&notes=... - Upload an image (application/octet-stream)
+app.post('/api/firmware', requirePermission('devices:manage'), async (req: Request, res: Response) => {
+    try {
+        const version = req.query.version as string | undefined;
+        const model = req.query.model as string | undefined;
+        const expectedSha256 = (req.query.sha256 as string | undefined) || undefined;
+
+        if (!version || !FIRMWARE_VERSION_PATTERN.test(version) || !model || !FIRMWARE_VERSION_PATTERN.test(model) ||
+            (expectedSha256 !== undefined && !/^[0-9a-fA-F]{64}$/.test(expectedSha256))) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'version and model are required; sha256 must be 64 hex characters'
+                }
+            });
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'Send the image as an application/octet-stream body'
+                }
+            });
+        }
+
+        const result = await firmwareService.addImage(req.body, {
+            version,
+            model,
+            expectedSha256,
+            notes: typeof req.query.notes === 'string' ? req.query.notes : undefined
+        });
+        if (!result.ok) {
+            return res.status(result.code === 'CONFLICT' ? 409 : 400).json({
+                success: false,
+                error: {
+                    code: result.code,
+                    message: result.message
+                }
+            });
+        }
+
+        res.status(201).json({
+            success: true,
+            data: result.image
+        });
+    } catch (error) {
+        console.error('Error uploading firmware:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to upload firmware'
+            }
+        });
+    }
+});
+
+// GET /api/firmware/rollouts - Rollouts with adoption, newest first
+app.get('/api/firmware/rollouts', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    const rollouts = firmwareService.listRollouts();
+    res.status(200).json({
+        success: true,
+        data: { count: rollouts.length, rollouts }
+    });
+});
+
+const validPercentage = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+
+// deviceIds or group; neither targets every device of the image's model
+const parseRolloutTarget = (deviceIds: unknown, group: unknown): RolloutTarget | null => {
+    if (deviceIds !== undefined && group !== undefined) return null;
+    if (deviceIds !== undefined) {
+        const valid = Array.isArray(deviceIds) && deviceIds.length > 0 &&
+            deviceIds.every(id => typeof id === 'string' && DEVICE_ID_PATTERN.test(id));
+        return valid ? { kind: 'devices', deviceIds } : null;
+    }
+    if (group !== undefined) {
+        return typeof group === 'string' && group.length > 0 ? { kind: 'group', group } : null;
+    }
+    return { kind: 'all' };
+};
+
+// POST /api/firmware/rollouts - Body: { firmwareId, deviceIds?: [...] | group?: '...', percentage: 0-100 }
+app.post('/api/firmware/rollouts', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const { firmwareId, deviceIds, group, percentage = 100 } = req.body || {};
+        const target = parseRolloutTarget(deviceIds, group);
+
+        if (typeof firmwareId !== 'string' || !target || !validPercentage(percentage)) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'Expected firmwareId, either deviceIds or group (neither targets every device of the model) and percentage 0-100'
+                }
+            });
+        }
+
+        const rollout = firmwareService.createRollout(firmwareId, target, percentage);
+        if (!rollout) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: 'Firmware not found'
+                }
+            });
+        }
+
+        res.status(201).json({
+            success: true,
+            data: rollout
+        });
+    } catch (error) {
+        console.error('Error creating rollout:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to create rollout'
+            }
+        });
+    }
+});
+
+// PATCH /api/firmware/rollouts/:id - Body: { percentage?, status?: 'active' | 'paused' }
+app.patch('/api/firmware/rollouts/:id', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        const { percentage, status } = req.body || {};
+        if ((percentage === undefined && status === undefined) ||
+            (percentage !== undefined && !validPercentage(percentage)) ||
+            (status !== undefined && status !== 'active' && status !== 'paused')) {
+            return res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PARAMETERS',
+                    message: 'Expected percentage 0-100 and/or status active|paused'
+                }
+            });
+        }
+
+        const rollout = firmwareService.updateRollout(req.params.id as string, { percentage, status: status as RolloutStatus | undefined });
+        if (!rollout) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: 'Rollout not found'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: rollout
+        });
+    } catch (error) {
+        console.error('Error updating rollout:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to update rollout'
+            }
+        });
+    }
+});
+
+app.delete('/api/firmware/rollouts/:id', requirePermission('devices:manage'), (req: Request, res: Response) => {
+    try {
+        if (!firmwareService.deleteRollout(req.params.id as string)) {
+            return res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: 'Rollout not found'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Rollout deleted'
+        });
+    } catch (error) {
+        console.error('Error deleting rollout:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to delete rollout'
+            }
+        });
+    }
+});
+
+// DELETE /api/firmware/:id - Remove an image no rollout uses
+app.delete('/api/firmware/:id', requirePermission('devices:manage'), async (req: Request, res: Response) => {
+    try {
+        const result = await firmwareService.deleteImage(req.params.id as string);
+        if (!result.ok) {
+            return res.status(result.code === 'NOT_FOUND' ? 404 : 409).json({
+                success: false,
+                error: {
+                    code: result.code,
+                    message: result.code === 'NOT_FOUND' ? 'Firmware not found' : 'Firmware is used by a rollout'
+                }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Firmware deleted'
+        });
+    } catch (error) {
+        console.error('Error deleting firmware:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'SERVER_ERROR',
+                message: 'Failed to delete firmware'
+            }
+        });
+    }
+});
+
 app.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT}`);
+    ingestionQueue.start();
+    rollupService.start();
+    mqttIngestService.start().catch(error => console.error('Failed to start MQTT ingestion:', error));
 });
@@ -0,0 +1,260 @@
+import { storage } from '../db';
+import { StorageRow } from '../storage';
+import { createKeyedLock } from '../utils/keyedLock';
+import ingestionQueue from './ingestionQueue';
+
+export interface ClockResolution {
+    correctionSeconds: number;      // added to the device ts (0 when the clock is trusted)
+    rtcReset: boolean;
+}
+
+export interface ClockDriftEntry {
+    time: string;
+    offsetSeconds: number;          // estimate after this sample
+    sampleOffsetSeconds: number;
+    event: 'sample' | 'rtc_reset';
+}
+
+export interface ClockDriftStatus {
+    offsetSeconds: number | null;   // server time - device time, median of recent live readings
+    samples: number;
+    correcting: boolean;
+    rtcReset: { detectedAt: string; deviceTs: number } | null;
+    lastSampleAt: string | null;
+    history: ClockDriftEntry[];
+}
+
+interface DeviceClock {
+    samples: number[];              // recent offsets (seconds), oldest first
+    jumpSamples: number[];          // consecutive samples far from the estimate, not yet confirmed
+    offset: number | null;
+    rtcReset: { detectedAt: string; deviceTs: number } | null;
+    lastSampleAt: number | null;
+    lastHistory: { time: number; offset: number } | null;
+}
+
+// Device timestamps before this are an RTC that lost its time (module defaults are 2000-01-01 or 1970)
+const RTC_VALID_AFTER = parseInt(process.env.RTC_VALID_AFTER || String(Date.UTC(2020, 0, 1) / 1000), 10);
+// Offsets inside this band are network latency, not drift
+const CORRECTION_THRESHOLD_SECONDS = parseInt(process.env.CLOCK_CORRECTION_THRESHOLD_SECONDS || '30', 10);
+// A jump this large from the estimate means the clock was reset or re-synced
+const CLOCK_JUMP_SECONDS = parseInt(process.env.CLOCK_JUMP_SECONDS || '3600', 10);
+// Consecutive samples that must agree on a jump before it replaces the estimate
+const CLOCK_JUMP_CONFIRM_SAMPLES = parseInt(process.env.CLOCK_JUMP_CONFIRM_SAMPLES || '3', 10);
+const SAMPLE_WINDOW = 15;
+const HISTORY_INTERVAL_MS = 60 * 60 * 1000;
+const HISTORY_MIN_CHANGE_SECONDS = 5;
+
+/**
+ * Clock Drift Service
+ * Estimates each device's clock offset from the gap between its `ts` and
+ * the arrival time of live readings (median of recent samples, so a single
+ * delayed request does not move it) and corrects device timestamps by that
+ * offset. A jump of more than CLOCK_JUMP_SECONDS starts a new estimate only
+ * once CLOCK_JUMP_CONFIRM_SAMPLES consecutive samples agree on it; until then
+ * the readings (e.g. resent late after an outage) keep the current offset.
+ * Only accepted readings are sampled: callers resolve the correction with
+ * `record` off and sample again once the reading has passed validation.
+ * Store-and-forward batches are corrected but not sampled, since their age
+ * is buffering rather than drift - except when a batch shows a reset RTC
+ * the server has not seen yet, where the newest row anchors it.
+ * Estimates are written to the `device_clock` measurement hourly, when they
+ * move by 5 s or more and on RTC resets.
+ */
+class ClockDriftService {
+    private clocks = new Map<string, DeviceClock>();
+    private unseeded = new Set<string>();       // history could not be read yet
+    private withDeviceLock = createKeyedLock();
+
+    /**
+     * Record a live reading's timestamp and return the correction for it
+     * With `record` off the correction is worked out on a copy and nothing is kept
+     */
+    async observe(deviceId: string, ts: number, arrival: number = Date.now() / 1000, record = true): Promise<ClockResolution> {
+        return this.withDeviceLock(deviceId, async () => {
+            const current = await this.getClock(deviceId);
+            const clock = record ? current : { ...current, samples: [...current.samples], jumpSamples: [...current.jumpSamples] };
+            const log = record ? console : { warn: () => undefined, log: () => undefined };
+            const sample = arrival - ts;
+            const rtcReset = ts < RTC_VALID_AFTER && !clock.rtcReset;
+            const jumped = !rtcReset && clock.offset !== null && Math.abs(sample - clock.offset) > CLOCK_JUMP_SECONDS;
+
+            if (jumped) {
+                // Late deliveries disagree with each other; a re-synced clock gives steady offsets
+                const agrees = clock.jumpSamples.length === 0 ||
+                    Math.abs(sample - median(clock.jumpSamples)) <= CORRECTION_THRESHOLD_SECONDS;
+                clock.jumpSamples = agrees ? [...clock.jumpSamples, sample] : [sample];
+                if (clock.jumpSamples.length < CLOCK_JUMP_CONFIRM_SAMPLES) {
+                    return this.resolution(clock);
+                }
+                log.warn(`Clock of ${deviceId} jumped to offset ${Math.round(sample)} s`);
+            }
+
+            if (rtcReset || jumped) {
+                // A new clock regime - earlier samples say nothing about it
+                clock.samples = jumped ? clock.jumpSamples.slice(0, -1) : [];
+            }
+            clock.jumpSamples = [];
+            if (rtcReset) {
+                clock.rtcReset = { detectedAt: new Date(arrival * 1000).toISOString(), deviceTs: ts };
+                log.warn(`RTC reset detected for ${deviceId}: device time ${new Date(ts * 1000).toISOString()}`);
+            } else if (clock.rtcReset && ts >= RTC_VALID_AFTER) {
+                log.log(`Clock of ${deviceId} is valid again (offset ${Math.round(sample)} s)`);
+                clock.rtcReset = null;
+            }
+
+            clock.samples = [...clock.samples, sample].slice(-SAMPLE_WINDOW);
+            clock.offset = median(clock.samples);
+            clock.lastSampleAt = arrival;
+            if (record) await this.recordHistory(deviceId, clock, sample, rtcReset, arrival);
+
+            return this.resolution(clock);
+        });
+    }
+
+    /**
+     * Correction for a buffered reading; `newestTs` is the newest row of its
+     * batch, which anchors the estimate when it shows a freshly reset RTC
+     * (only when `record` is on, as for observe)
+     */
+    async correct(deviceId: string, ts: number, newestTs: number = ts, arrival: number = Date.now() / 1000, record = true): Promise<ClockResolution> {
+        const clock = await this.withDeviceLock(deviceId, () => this.getClock(deviceId));
+        if (newestTs < RTC_VALID_AFTER && !clock.rtcReset) {
+            const anchored = await this.observe(deviceId, newestTs, arrival, record);
+            return ts < RTC_VALID_AFTER ? anchored : { correctionSeconds: 0, rtcReset: true };
+        }
+        // Rows recorded before a reset (or after a re-sync) do not share the current offset
+        if ((ts < RTC_VALID_AFTER) !== (clock.rtcReset !== null)) {
+            return { correctionSeconds: 0, rtcReset: clock.rtcReset !== null };
+        }
+        return this.resolution(clock);
+    }
+
+    async getStatus(deviceId: string, historyLimit = 100): Promise<ClockDriftStatus> {
+        const clock = await this.withDeviceLock(deviceId, () => this.getClock(deviceId));
+        let history: ClockDriftEntry[] = [];
+        try {
+            const rows = await storage.queryRange({
+                measurement: 'device_clock',
+                fields: ['offset_s', 'sample_offset_s', 'event'],
+                where: { device_id: deviceId },
+                since: '30 days',
+                order: 'desc',
+                limit: historyLimit
+            });
+            history = rows.map(row => ({
+                time: new Date(row.time).toISOString(),
+                offsetSeconds: Number(row.offset_s),
+                sampleOffsetSeconds: Number(row.sample_offset_s),
+                event: row.event
+            }));
+        } catch (error) {
+            // No history written yet
+            if (!storage.isMissing(error)) throw error;
+        }
+
+        return {
+            offsetSeconds: clock.offset !== null ? Math.round(clock.offset) : null,
+            samples: clock.samples.length,
+            correcting: this.resolution(clock).correctionSeconds !== 0,
+            rtcReset: clock.rtcReset,
+            lastSampleAt: clock.lastSampleAt !== null ? new Date(clock.lastSampleAt * 1000).toISOString() : null,
+            history
+        };
+    }
+
+    private resolution(clock: DeviceClock): ClockResolution {
+        const offset = clock.offset ?? 0;
+        return {
+            correctionSeconds: Math.abs(offset) >= CORRECTION_THRESHOLD_SECONDS ? Math.round(offset) : 0,
+            rtcReset: clock.rtcReset !== null
+        };
+    }
+
+    /**
+     * In-memory state, seeded from the latest history point after a restart
+     * When storage cannot be read the live estimate starts empty and seeding
+     * is tried again on the next reading
+     */
+    private async getClock(deviceId: string): Promise<DeviceClock> {
+        const cached = this.clocks.get(deviceId);
+        if (cached && !this.unseeded.has(deviceId)) return cached;
+
+        const clock = cached || { samples: [], jumpSamples: [], offset: null, rtcReset: null, lastSampleAt: null, lastHistory: null };
+        try {
+            const latest = await this.getLatestHistory(deviceId);
+            this.unseeded.delete(deviceId);
+            if (latest && clock.offset === null) {
+                const offset = Number(latest.offset_s);
+                clock.samples = [offset];
+                clock.offset = offset;
+                clock.lastHistory = { time: new Date(latest.time).getTime(), offset };
+                if (latest.rtc_reset_at) {
+                    clock.rtcReset = { detectedAt: latest.rtc_reset_at, deviceTs: Number(latest.rtc_reset_ts) };
+                }
+            }
+        } catch (error) {
+            console.error(`Could not load clock history of ${deviceId}, will retry:`, error);
+            this.unseeded.add(deviceId);
+        }
+        this.clocks.set(deviceId, clock);
+        return clock;
+    }
+
+    /**
+     * Newest history point of the last 30 days; the RTC reset columns only
+     * exist once a reset has been recorded
+     */
+    private async getLatestHistory(deviceId: string): Promise<StorageRow | null> {
+        const query = (fields: string[]) => storage.queryRange({
+            measurement: 'device_clock',
+            fields,
+            where: { device_id: deviceId },
+            since: '30 days',
+            order: 'desc',
+            limit: 1
+        });
+        try {
+            return (await query(['offset_s', 'rtc_reset_at', 'rtc_reset_ts']))[0] || null;
+        } catch (error) {
+            if (!storage.isMissing(error)) throw error;
+        }
+        try {
+            return (await query(['offset_s']))[0] || null;
+        } catch (error) {
+            // Measurement does not exist yet
+            if (storage.isMissing(error)) return null;
+            throw error;
+        }
+    }
+
+    private async recordHistory(deviceId: string, clock: DeviceClock, sample: number, rtcReset: boolean, arrival: number): Promise<void> {
+        const now = arrival * 1000;
+        const offset = clock.offset!;
+        const last = clock.lastHistory;
+        if (!rtcReset && last && now - last.time < HISTORY_INTERVAL_MS && Math.abs(offset - last.offset) < HISTORY_MIN_CHANGE_SECONDS) {
+            return;
+        }
+
+        clock.lastHistory = { time: now, offset };
+        await ingestionQueue.enqueue([{
+            measurement: 'device_clock',
+            tags: { device_id: deviceId },
+            fields: {
+                offset_s: Math.round(offset * 10) / 10,
+                sample_offset_s: Math.round(sample * 10) / 10,
+                event: rtcReset ? 'rtc_reset' : 'sample',
+                ...(clock.rtcReset && { rtc_reset_at: clock.rtcReset.detectedAt, rtc_reset_ts: clock.rtcReset.deviceTs })
+            },
+            timestamp: new Date(now)
+        }]);
+    }
+}
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export default new ClockDriftService();
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../utils/jsonStore';
+import { createKeyedLock } from '../utils/keyedLock';
+
+export interface DedupIdentity {
+    idempotencyKey?: string;    // Idempotency-Key header
+    seq?: string;               // device sequence number
+    ts?: number;                // device timestamp (seconds)
+}
+
+export interface DuplicateStats {
+    duplicates: number;
+    lastDuplicateAt: string | null;
+}
+
+interface SeenEntry {
+    expiresAt: number;
+    response?: unknown;         // replayed for Idempotency-Key requests
+}
+
+/**
+ * Duplicate Suppression Service
+ * GSM modems resend a reading when the OK reply times out. Each accepted
+ * reading is remembered by an Idempotency-Key, by (device, seq, payload hash)
+ * or by (device, ts, payload hash); a replay is acknowledged as a duplicate
+ * instead of being stored again.
+ * Readings without ts or seq are only matched within a short window, since
+ * identical untimed payloads can legitimately repeat.
+ * Remembered keys are appended to a JSON-lines file, so a retry arriving
+ * after a restart is still recognised; the file is compacted as keys expire.
+ */
+class DedupService {
+    private ttlMs = parseInt(process.env.DEDUP_TTL_SECONDS || '86400', 10) * 1000;
+    private untimedWindowMs = parseInt(process.env.DEDUP_UNTIMED_WINDOW_SECONDS || '120', 10) * 1000;
+
+    private filePath = process.env.DEDUP_KEYS_FILE || path.join(DATA_DIR, 'dedup-keys.jsonl');
+
+    private seen = new Map<string, SeenEntry>();
+    private stats = new Map<string, DuplicateStats>();
+    private lastSweep = Date.now();
+    private loaded = false;
+
+    /**
+     * Run check-ingest-remember for one device at a time, so a replay that
+     * arrives while the original is still being processed is caught
+     */
+    readonly exclusive = createKeyedLock();
+
+    /**
+     * Identity of a payload; `payload` is the raw parameters as received
+     */
+    keyFor(deviceId: string, payload: Record<string, unknown>, identity: DedupIdentity = {}): string {
+        if (identity.idempotencyKey) {
+            return `${deviceId}|key:${identity.idempotencyKey}`;
+        }
+
+        const hash = hashPayload(payload);
+        if (identity.seq !== undefined) return `${deviceId}|seq:${identity.seq}|${hash}`;
+        if (identity.ts) return `${deviceId}|ts:${identity.ts}|${hash}`;
+        return `${deviceId}|untimed|${hash}`;
+    }
+
+    /**
+     * The remembered entry when `key` was already accepted, and counts the duplicate
+     */
+    checkDuplicate(deviceId: string, key: string): SeenEntry | null {
+        this.load();
+        this.sweep();
+        const entry = this.seen.get(key);
+        if (!entry || entry.expiresAt <= Date.now()) return null;
+
+        const stats = this.stats.get(deviceId) || { duplicates: 0, lastDuplicateAt: null };
+        stats.duplicates++;
+        stats.lastDuplicateAt = new Date().toISOString();
+        this.stats.set(deviceId, stats);
+        console.warn(`Duplicate reading suppressed for ${deviceId} (${stats.duplicates} so far)`);
+
+        return entry;
+    }
+
+    /**
+     * Remember an accepted payload
+     */
+    remember(key: string, response?: unknown): void {
+        this.load();
+        const ttl = key.includes('|untimed|') ? this.untimedWindowMs : this.ttlMs;
+        const entry: SeenEntry = { expiresAt: Date.now() + ttl, response };
+        this.seen.set(key, entry);
+        try {
+            fs.appendFileSync(this.filePath, JSON.stringify({ key, ...entry }) + '\n');
+        } catch (error) {
+            // Still suppressed until a restart
+            console.error('Could not persist dedup key:', error);
+        }
+    }
+
+    getStats(deviceId: string): DuplicateStats {
+        return this.stats.get(deviceId) || { duplicates: 0, lastDuplicateAt: null };
+    }
+
+    getTotals(): { duplicates: number; devices: number; trackedKeys: number } {
+        let duplicates = 0;
+        for (const stats of this.stats.values()) duplicates += stats.duplicates;
+        this.load();
+        return { duplicates, devices: this.stats.size, trackedKeys: this.seen.size };
+    }
+
+    private sweep(): void {
+        const now = Date.now();
+        if (now - this.lastSweep < 60 * 1000) return;
+        this.lastSweep = now;
+        let expired = 0;
+        for (const [key, entry] of this.seen) {
+            if (entry.expiresAt <= now) {
+                this.seen.delete(key);
+                expired++;
+            }
+        }
+        if (expired > 0) this.compact();
+    }
+
+    /**
+     * Keys remembered before a restart
+     */
+    private load(): void {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        if (!fs.existsSync(this.filePath)) return;
+
+        const now = Date.now();
+        for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const { key, ...entry } = JSON.parse(line) as SeenEntry & { key: string };
+                if (entry.expiresAt > now) this.seen.set(key, entry);
+            } catch {
+                // A crash mid-append can leave a partial last line
+                console.warn('Skipping corrupt line in dedup key file');
+            }
+        }
+    }
+
+    /**
+     * Rewrite the key file with only the keys still remembered
+     */
+    private compact(): void {
+        try {
+            const tmpPath = `${this.filePath}.tmp`;
+            const lines = Array.from(this.seen, ([key, entry]) => JSON.stringify({ key, ...entry }) + '\n');
+            fs.writeFileSync(tmpPath, lines.join(''));
+            fs.renameSync(tmpPath, this.filePath);
+        } catch (error) {
+            console.error('Could not compact dedup key file:', error);
+        }
+    }
+}
+
+/**
+ * Order-independent hash of the received parameters
+ */
+const hashPayload = (payload: Record<string, unknown>): string => {
+    const canonical = Object.keys(payload)
+        .sort()
+        .map(key => `${key}=${String(payload[key])}`)
+        .join('&');
+    return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 32);
+};
+
+export default new DedupService();
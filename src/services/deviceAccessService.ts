@@ -0,0 +1,70 @@
+import { createJsonStore } from '../utils/jsonStore';
+import { hasPermission } from '../utils/permissions';
+import { PublicUser } from './userService';
+import deviceRegistryService from './deviceRegistryService';
+import siteService from './siteService';
+
+export interface DeviceGrant {
+    userId: string;
+    grantedAt: string;
+}
+
+export type AccessDecision =
+    | { ok: true; via: 'role' | 'owner' | 'grant' | 'organization' }
+    | { ok: false; code: 'DEVICE_NOT_FOUND' | 'FORBIDDEN' };
+
+/**
+ * Device Access Service
+ * Decides whether a dashboard user may see a device: roles that manage
+ * devices (admin, installer) see every registered device, other users the
+ * devices they own (registry `userId`), those shared with them through
+ * a grant (device-access.json) and the meters of their organizations.
+ */
+class DeviceAccessService {
+    private store = createJsonStore<Record<string, DeviceGrant[]>>('device-access.json', () => ({}));
+
+    check(user: PublicUser, deviceId: string): AccessDecision {
+        const device = deviceRegistryService.get(deviceId);
+        if (!device) return { ok: false, code: 'DEVICE_NOT_FOUND' };
+
+        if (hasPermission(user.role, 'devices:manage')) return { ok: true, via: 'role' };
+        if (device.userId === user.id) return { ok: true, via: 'owner' };
+        if (this.listGrants(deviceId).some(grant => grant.userId === user.id)) return { ok: true, via: 'grant' };
+
+        const site = siteService.findSiteOf(deviceId);
+        const org = site ? siteService.getOrganization(site.organizationId) : null;
+        if (org && siteService.canAccess(user, org)) return { ok: true, via: 'organization' };
+        return { ok: false, code: 'FORBIDDEN' };
+    }
+
+    listGrants(deviceId: string): DeviceGrant[] {
+        return this.store.read()[deviceId] || [];
+    }
+
+    /**
+     * Share a device with a user; granting twice keeps the first grant
+     */
+    grant(deviceId: string, userId: string): DeviceGrant {
+        const grants = this.store.read();
+        const existing = (grants[deviceId] || []).find(grant => grant.userId === userId);
+        if (existing) return existing;
+
+        const grant: DeviceGrant = { userId, grantedAt: new Date().toISOString() };
+        grants[deviceId] = [...(grants[deviceId] || []), grant];
+        this.store.write(grants);
+        return grant;
+    }
+
+    revoke(deviceId: string, userId: string): boolean {
+        const grants = this.store.read();
+        const remaining = (grants[deviceId] || []).filter(grant => grant.userId !== userId);
+        if (remaining.length === (grants[deviceId] || []).length) return false;
+
+        if (remaining.length > 0) grants[deviceId] = remaining;
+        else delete grants[deviceId];
+        this.store.write(grants);
+        return true;
+    }
+}
+
+export default new DeviceAccessService();
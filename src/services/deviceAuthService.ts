@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { createJsonStore } from '../utils/jsonStore';
+
+export interface DeviceKey {
+    keyId: string;
+    secret: string;                 // base64url, shared with the device at provisioning
+    createdAt: string;
+    expiresAt: string | null;       // set on older keys when the device is rotated
+    revokedAt: string | null;
+}
+
+export type DeviceKeyInfo = Omit<DeviceKey, 'secret'> & { status: 'active' | 'expiring' | 'expired' | 'revoked' };
+
+// Sent as query params k/t/n/s (GSM modules) or as X-Key-Id/X-Timestamp/X-Nonce/X-Signature headers
+export interface SignatureParts {
+    keyId?: string;
+    timestamp?: string;     // UNIX seconds
+    nonce?: string;
+    signature?: string;     // hex HMAC-SHA256
+}
+
+// What a request was signed over: the raw body, or canonicalParams() for query-string readings
+export interface SignedPayload {
+    parts: SignatureParts;
+    payload: string;
+}
+
+export type RejectReason =
+    | 'MISSING_SIGNATURE'
+    | 'UNKNOWN_KEY'
+    | 'KEY_REVOKED'
+    | 'KEY_EXPIRED'
+    | 'STALE_TIMESTAMP'
+    | 'REPLAYED_NONCE'
+    | 'BAD_SIGNATURE'
+    | 'NO_CREDENTIALS';
+
+export type VerifyResult =
+    | { ok: true; keyId: string | null }        // null: unsigned device allowed by policy
+    | { ok: false; reason: RejectReason; message: string };
+
+export interface RejectedStats {
+    rejected: number;
+    byReason: Partial<Record<RejectReason, number>>;
+    lastRejectedAt: string | null;
+}
+
+export const SIGNATURE_PARAMS = ['k', 't', 'n', 's'];
+
+/**
+ * Device Credential Service
+ * Per-device HMAC secrets with rotation and revocation. A signed request
+ * carries key ID, timestamp and nonce; the signature is
+ *   hex(HMAC-SHA256(secret, "<deviceId>\n<timestamp>\n<nonce>\n<payload>"))
+ * where payload is the raw request body, or for query-string readings the
+ * parameters other than k/t/n/s sorted by name and joined as `a=1&b=2`.
+ * Devices with no credentials are accepted while UNSIGNED_DEVICE_POLICY is
+ * 'allow' (the default during roll-out); with 'reject' every device must sign.
+ */
+class DeviceAuthService {
+    private store = createJsonStore<Record<string, DeviceKey[]>>('device-credentials.json', () => ({}));
+    private maxSkewSeconds = parseInt(process.env.SIGNATURE_MAX_SKEW_SECONDS || '300', 10);
+    private rotationGraceSeconds = parseInt(process.env.KEY_ROTATION_GRACE_SECONDS || String(7 * 24 * 60 * 60), 10);
+    private unsignedPolicy = process.env.UNSIGNED_DEVICE_POLICY === 'reject' ? 'reject' : 'allow';
+
+    private nonces = new Map<string, Map<string, number>>();
+    private rejected = new Map<string, RejectedStats>();
+
+    /**
+     * Issue a new key; the secret is only returned here
+     */
+    issueKey(deviceId: string): DeviceKey {
+        const credentials = this.store.read();
+        const key: DeviceKey = {
+            keyId: crypto.randomBytes(4).toString('hex'),
+            secret: crypto.randomBytes(24).toString('base64url'),
+            createdAt: new Date().toISOString(),
+            expiresAt: null,
+            revokedAt: null
+        };
+        credentials[deviceId] = [...(credentials[deviceId] || []), key];
+        this.store.write(credentials);
+        return key;
+    }
+
+    /**
+     * Issue a new key and let the current ones expire after the grace period,
+     * so the device can pick up the new secret without losing readings
+     */
+    rotateKey(deviceId: string, graceSeconds: number = this.rotationGraceSeconds): { key: DeviceKey; previousKeysExpireAt: string } {
+        const expiresAt = new Date(Date.now() + graceSeconds * 1000).toISOString();
+        const credentials = this.store.read();
+        for (const key of credentials[deviceId] || []) {
+            if (!key.revokedAt && (!key.expiresAt || key.expiresAt > expiresAt)) key.expiresAt = expiresAt;
+        }
+        this.store.write(credentials);
+        return { key: this.issueKey(deviceId), previousKeysExpireAt: expiresAt };
+    }
+
+    /**
+     * Revoke one key, or every key of the device when keyId is omitted
+     * Returns the number of keys revoked
+     */
+    revoke(deviceId: string, keyId?: string): number {
+        const credentials = this.store.read();
+        const now = new Date().toISOString();
+        let count = 0;
+        for (const key of credentials[deviceId] || []) {
+            if (key.revokedAt || (keyId && key.keyId !== keyId)) continue;
+            key.revokedAt = now;
+            count++;
+        }
+        this.store.write(credentials);
+        return count;
+    }
+
+    listKeys(deviceId: string): DeviceKeyInfo[] {
+        return (this.store.read()[deviceId] || []).map(({ secret, ...key }) => ({ ...key, status: keyStatus(key) }));
+    }
+
+    hasCredentials(deviceId: string): boolean {
+        return (this.store.read()[deviceId] || []).some(key => isUsable(key));
+    }
+
+    /**
+     * Verify a device request; rejections are counted per device
+     */
+    verify(deviceId: string, parts: SignatureParts, payload: string): VerifyResult {
+        const result = this.check(deviceId, parts, payload);
+        if (!result.ok) {
+            const stats = this.getRejectedStats(deviceId);
+            stats.rejected++;
+            stats.byReason[result.reason] = (stats.byReason[result.reason] || 0) + 1;
+            stats.lastRejectedAt = new Date().toISOString();
+            this.rejected.set(deviceId, stats);
+            console.warn(`Rejected request for ${deviceId}: ${result.reason}`);
+        }
+        return result;
+    }
+
+    getRejectedStats(deviceId: string): RejectedStats {
+        return this.rejected.get(deviceId) || { rejected: 0, byReason: {}, lastRejectedAt: null };
+    }
+
+    private check(deviceId: string, parts: SignatureParts, payload: string): VerifyResult {
+        const keys = this.store.read()[deviceId] || [];
+
+        if (!parts.signature) {
+            if (keys.some(key => isUsable(key))) {
+                return { ok: false, reason: 'MISSING_SIGNATURE', message: 'Request must be signed' };
+            }
+            return this.unsignedPolicy === 'allow'
+                ? { ok: true, keyId: null }
+                : { ok: false, reason: 'NO_CREDENTIALS', message: 'Device has no credentials' };
+        }
+
+        const key = keys.find(k => k.keyId === parts.keyId);
+        if (!key) return { ok: false, reason: 'UNKNOWN_KEY', message: 'Unknown key' };
+        if (key.revokedAt) return { ok: false, reason: 'KEY_REVOKED', message: 'Key revoked' };
+        if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+            return { ok: false, reason: 'KEY_EXPIRED', message: 'Key expired' };
+        }
+
+        const timestamp = Number(parts.timestamp);
+        if (!parts.nonce || !Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > this.maxSkewSeconds) {
+            return { ok: false, reason: 'STALE_TIMESTAMP', message: 'Timestamp missing or outside the allowed clock skew' };
+        }
+
+        const expected = signPayload(key.secret, deviceId, parts.timestamp!, parts.nonce, payload);
+        const given = Buffer.from(parts.signature.toLowerCase(), 'utf8');
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, Buffer.from(expected, 'utf8'))) {
+            return { ok: false, reason: 'BAD_SIGNATURE', message: 'Invalid signature' };
+        }
+
+        // Checked after the signature so forged requests cannot burn nonces
+        if (!this.useNonce(deviceId, parts.nonce)) {
+            return { ok: false, reason: 'REPLAYED_NONCE', message: 'Nonce already used' };
+        }
+
+        return { ok: true, keyId: key.keyId };
+    }
+
+    /**
+     * Remember a nonce for twice the skew window; false when already seen
+     */
+    private useNonce(deviceId: string, nonce: string): boolean {
+        const now = Date.now();
+        let seen = this.nonces.get(deviceId);
+        if (!seen) {
+            seen = new Map();
+            this.nonces.set(deviceId, seen);
+        }
+        for (const [value, expiresAt] of seen) {
+            if (expiresAt <= now) seen.delete(value);
+        }
+        if (seen.has(nonce)) return false;
+        seen.set(nonce, now + this.maxSkewSeconds * 2 * 1000);
+        return true;
+    }
+}
+
+const isUsable = (key: DeviceKey): boolean =>
+    !key.revokedAt && (!key.expiresAt || new Date(key.expiresAt).getTime() > Date.now());
+
+const keyStatus = (key: Omit<DeviceKey, 'secret'>): DeviceKeyInfo['status'] =>
+    key.revokedAt ? 'revoked'
+        : !key.expiresAt ? 'active'
+        : new Date(key.expiresAt).getTime() > Date.now() ? 'expiring'
+        : 'expired';
+
+/**
+ * Signature over a request payload (also used by device simulators)
+ */
+export const signPayload = (secret: string, deviceId: string, timestamp: string, nonce: string, payload: string): string =>
+    crypto.createHmac('sha256', secret).update(`${deviceId}\n${timestamp}\n${nonce}\n${payload}`).digest('hex');
+
+/**
+ * Canonical payload of query-string style parameters
+ */
+export const canonicalParams = (params: Record<string, unknown>): string =>
+    Object.keys(params)
+        .filter(key => !SIGNATURE_PARAMS.includes(key) && params[key] !== undefined)
+        .sort()
+        .map(key => `${key}=${String(params[key])}`)
+        .join('&');
+
+export default new DeviceAuthService();
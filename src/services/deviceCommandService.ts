@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { createJsonStore } from '../utils/jsonStore';
+
+export interface DeviceConfig {
+    reportingIntervalSeconds?: number;
+    ctRatio?: number;               // primary amps per secondary amp
+    nominalVoltage?: number;        // V, phase to neutral
+}
+
+export type CommandType = 'reboot' | 'sync_clock';
+
+export type CommandStatus =
+    | 'pending'         // not delivered yet
+    | 'delivered'       // sent in a response, waiting for the device's ack
+    | 'acknowledged'
+    | 'failed'          // the device reported it could not run it
+    | 'expired'         // delivered COMMAND_MAX_DELIVERIES times without an ack
+    | 'cancelled';
+
+export const COMMAND_TYPES: CommandType[] = ['reboot', 'sync_clock'];
+export const COMMAND_STATUSES: CommandStatus[] = ['pending', 'delivered', 'acknowledged', 'failed', 'expired', 'cancelled'];
+
+export interface DeviceCommand {
+    id: string;
+    type: CommandType;
+    status: CommandStatus;
+    createdAt: string;
+    deliveries: number;
+    lastDeliveredAt: string | null;
+    completedAt: string | null;     // acknowledged, failed, expired or cancelled
+}
+
+export interface ConfigStatus {
+    desired: DeviceConfig;
+    version: number;                // bumped on every change
+    updatedAt: string | null;
+    appliedVersion: number | null;  // last version the device acknowledged
+    appliedAt: string | null;
+    lastDeliveredAt: string | null;
+}
+
+// Sent back to the device with an accepted reading
+export interface Downlink {
+    config?: DeviceConfig & { v: number };
+    commands?: { id: string; type: CommandType }[];
+}
+
+// Acknowledgements a device sends with a later reading: `ack`/`nak` command IDs, `cv` applied config version
+export interface DeviceAcks {
+    acked: string[];
+    failed: string[];
+    configVersion?: number;
+}
+
+interface DeviceDownlinkState {
+    config: ConfigStatus;
+    commands: DeviceCommand[];
+}
+
+const CONFIG_LIMITS: Record<keyof DeviceConfig, { min: number; max: number; integer?: boolean }> = {
+    reportingIntervalSeconds: { min: 5, max: 86400, integer: true },
+    ctRatio: { min: 1, max: 10000 },
+    nominalVoltage: { min: 100, max: 480 }
+};
+
+const COMMAND_MAX_DELIVERIES = parseInt(process.env.COMMAND_MAX_DELIVERIES || '10', 10);
+// Completed commands kept per device for the delivery history
+const COMMAND_HISTORY = 50;
+
+/**
+ * Device Command Service
+ * Per-device desired configuration and command queue. Nothing is pushed:
+ * pending items ride on the response to the device's next accepted reading
+ * (`downlink`) and are sent again with every response until the device
+ * acknowledges them in a later request (`ack`, `nak`, `cv` parameters).
+ */
+class DeviceCommandService {
+    private store = createJsonStore<Record<string, DeviceDownlinkState>>('device-commands.json', () => ({}));
+
+    getConfig(deviceId: string): ConfigStatus {
+        return this.getState(deviceId).config;
+    }
+
+    /**
+     * Merge changes into the desired config (null removes a setting) and bump its version
+     */
+    setConfig(deviceId: string, changes: Record<string, number | null>): ConfigStatus {
+        const state = this.getState(deviceId);
+        const desired: Record<string, number> = { ...state.config.desired };
+        for (const [key, value] of Object.entries(changes)) {
+            if (value === null) delete desired[key];
+            else desired[key] = value;
+        }
+
+        state.config = {
+            ...state.config,
+            desired,
+            version: state.config.version + 1,
+            updatedAt: new Date().toISOString()
+        };
+        this.save(deviceId, state);
+        return state.config;
+    }
+
+    /**
+     * Validate config changes from the API; returns an error message or null
+     */
+    validateConfig(changes: Record<string, unknown>): string | null {
+        if (Object.keys(changes).length === 0) return 'No settings given';
+        for (const [key, value] of Object.entries(changes)) {
+            const limits = CONFIG_LIMITS[key as keyof DeviceConfig];
+            if (!limits) return `Unknown setting ${key}`;
+            if (value === null) continue;
+            if (typeof value !== 'number' || !Number.isFinite(value) || (limits.integer && !Number.isInteger(value))) {
+                return `${key} must be ${limits.integer ? 'an integer' : 'a number'}`;
+            }
+            if (value < limits.min || value > limits.max) return `${key} must be between ${limits.min} and ${limits.max}`;
+        }
+        return null;
+    }
+
+    enqueueCommand(deviceId: string, type: CommandType): DeviceCommand {
+        const state = this.getState(deviceId);
+        const command: DeviceCommand = {
+            id: crypto.randomBytes(4).toString('hex'),
+            type,
+            status: 'pending',
+            createdAt: new Date().toISOString(),
+            deliveries: 0,
+            lastDeliveredAt: null,
+            completedAt: null
+        };
+        state.commands.push(command);
+        this.save(deviceId, state);
+        return command;
+    }
+
+    /**
+     * Newest first
+     */
+    listCommands(deviceId: string, status?: CommandStatus): DeviceCommand[] {
+        return this.getState(deviceId).commands
+            .filter(command => !status || command.status === status)
+            .reverse();
+    }
+
+    /**
+     * Cancel a command the device has not acknowledged yet
+     */
+    cancelCommand(deviceId: string, id: string): { ok: true; command: DeviceCommand } | { ok: false; code: 'NOT_FOUND' | 'CONFLICT' } {
+        const state = this.getState(deviceId);
+        const command = state.commands.find(c => c.id === id);
+        if (!command) return { ok: false, code: 'NOT_FOUND' };
+        if (command.status !== 'pending' && command.status !== 'delivered') return { ok: false, code: 'CONFLICT' };
+
+        command.status = 'cancelled';
+        command.completedAt = new Date().toISOString();
+        this.save(deviceId, state);
+        return { ok: true, command };
+    }
+
+    /**
+     * Acknowledgements from request parameters or a JSON body
+     * `ack=a1b2c3d4,e5f6a7b8&nak=...&cv=3`
+     */
+    parseAcks(source: Record<string, unknown>): DeviceAcks {
+        const ids = (value: unknown): string[] => typeof value === 'string'
+            ? value.split(',').map(id => id.trim()).filter(id => id.length > 0)
+            : Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+        const configVersion = Number(source.cv);
+
+        return {
+            acked: ids(source.ack),
+            failed: ids(source.nak),
+            ...(source.cv !== undefined && source.cv !== '' && Number.isInteger(configVersion) && { configVersion })
+        };
+    }
+
+    /**
+     * Record acknowledgements; unknown or already completed IDs are ignored
+     */
+    applyAcks(deviceId: string, acks: DeviceAcks): void {
+        if (acks.acked.length === 0 && acks.failed.length === 0 && acks.configVersion === undefined) return;
+
+        const state = this.getState(deviceId);
+        const now = new Date().toISOString();
+        let changed = false;
+
+        for (const command of state.commands) {
+            if (command.status !== 'pending' && command.status !== 'delivered') continue;
+            const status = acks.acked.includes(command.id) ? 'acknowledged' : acks.failed.includes(command.id) ? 'failed' : null;
+            if (!status) continue;
+            command.status = status;
+            command.completedAt = now;
+            changed = true;
+        }
+
+        const { config } = state;
+        if (acks.configVersion !== undefined && acks.configVersion <= config.version && acks.configVersion !== config.appliedVersion) {
+            config.appliedVersion = acks.configVersion;
+            config.appliedAt = now;
+            changed = true;
+        }
+
+        if (changed) this.save(deviceId, state);
+    }
+
+    /**
+     * Items to piggyback on a response, recorded as delivered
+     * Returns undefined when the device is up to date
+     */
+    takeDownlink(deviceId: string): Downlink | undefined {
+        const state = this.store.read()[deviceId];
+        if (!state) return undefined;
+
+        const now = new Date().toISOString();
+        const downlink: Downlink = {};
+        const { config } = state;
+
+        if (config.version > 0 && config.appliedVersion !== config.version) {
+            downlink.config = { ...config.desired, v: config.version };
+            config.lastDeliveredAt = now;
+        }
+
+        const outstanding = state.commands.filter(c => c.status === 'pending' || c.status === 'delivered');
+        const commands: NonNullable<Downlink['commands']> = [];
+        for (const command of outstanding) {
+            if (command.deliveries >= COMMAND_MAX_DELIVERIES) {
+                command.status = 'expired';
+                command.completedAt = now;
+                continue;
+            }
+            command.status = 'delivered';
+            command.deliveries++;
+            command.lastDeliveredAt = now;
+            commands.push({ id: command.id, type: command.type });
+        }
+        if (commands.length > 0) downlink.commands = commands;
+
+        if (!downlink.config && outstanding.length === 0) return undefined;
+        this.save(deviceId, state);
+        return downlink.config || downlink.commands ? downlink : undefined;
+    }
+
+    private getState(deviceId: string): DeviceDownlinkState {
+        return this.store.read()[deviceId] || {
+            config: {
+                desired: {},
+                version: 0,
+                updatedAt: null,
+                appliedVersion: null,
+                appliedAt: null,
+                lastDeliveredAt: null
+            },
+            commands: []
+        };
+    }
+
+    /**
+     * Persist a device's state, trimming completed commands beyond COMMAND_HISTORY
+     */
+    private save(deviceId: string, state: DeviceDownlinkState): void {
+        const open = state.commands.filter(c => c.status === 'pending' || c.status === 'delivered');
+        const completed = state.commands.filter(c => c.status !== 'pending' && c.status !== 'delivered');
+        const kept = new Set([...open, ...completed.slice(-COMMAND_HISTORY)]);
+        state.commands = state.commands.filter(c => kept.has(c));
+
+        const devices = this.store.read();
+        devices[deviceId] = state;
+        this.store.write(devices);
+    }
+}
+
+export default new DeviceCommandService();
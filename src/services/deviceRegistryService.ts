@@ -0,0 +1,282 @@
+import { UserProfile } from '../types';
+import { createJsonStore } from '../utils/jsonStore';
+import { isValidTimeZone } from '../utils/timezone';
+import { RegisterOptions } from './energyRegisterService';
+import { PlausibilityLimits } from './plausibilityService';
+
+export type DeviceStatus = 'active' | 'decommissioned';
+export type EnergyMode = 'interval' | 'cumulative';
+export type ConnectionCategory = UserProfile['connectionCategory'];
+
+export interface DeviceRecord {
+    deviceId: string;
+    name: string;
+    location: string;
+    userId: string | null;                  // owner
+    connectionCategory: ConnectionCategory | null;
+    installDate: string | null;             // YYYY-MM-DD
+    model: string | null;                   // meter / hardware model
+    reportingIntervalSeconds: number | null;
+    energyMode: EnergyMode;                 // 'cumulative': the device sends kWh registers
+    register?: Partial<RegisterOptions>;    // cumulative register range
+    plausibility?: Partial<PlausibilityLimits>;
+    timezone?: string;
+    group?: string;                         // firmware rollout group
+    mqttTopic?: string;                     // instead of the default topic template
+    status: DeviceStatus;
+    autoRegistered: boolean;                // created by a reading under UNKNOWN_DEVICE_POLICY=register
+    createdAt: string;
+    updatedAt: string;
+    decommissionedAt: string | null;
+}
+
+// Settable through the API; the rest is managed by the registry
+export type DeviceFields = Partial<Omit<DeviceRecord, 'deviceId' | 'status' | 'autoRegistered' | 'createdAt' | 'updatedAt' | 'decommissionedAt'>>;
+
+export type UnknownDevicePolicy = 'allow' | 'reject' | 'register';
+
+export type AdmitResult =
+    | { ok: true }
+    | { ok: false; code: 'UNKNOWN_DEVICE' | 'DECOMMISSIONED'; message: string };
+
+type ChangeListener = (device: DeviceRecord) => void;
+
+export const CONNECTION_CATEGORIES: ConnectionCategory[] = ['domestic-3phase', 'general-purpose-3phase', 'industrial-3phase'];
+export const DEVICE_STATUSES: DeviceStatus[] = ['active', 'decommissioned'];
+
+const ENERGY_MODES: EnergyMode[] = ['interval', 'cumulative'];
+const REGISTER_UNITS = ['Wh', 'kWh'];
+
+// Devices installed before the registry existed
+const SEED_DEVICES: Record<string, DeviceFields> = {
+    'TEST': {
+        name: 'Main Energy Meter',
+        location: 'Building A - Ground Floor',
+        userId: 'user-1',
+        energyMode: 'interval',
+        reportingIntervalSeconds: 60
+    },
+    'ESP32-D4E5F6': {
+        name: 'Factory Power Monitor',
+        location: 'Production Floor',
+        userId: 'user-2',
+        energyMode: 'cumulative',   // SDM630 kWh registers
+        reportingIntervalSeconds: 60,
+        register: { unit: 'kWh', maxKWh: 99999.99, maxPowerW: 150000 },
+        plausibility: { ctRatingA: 250 }
+    }
+};
+
+/**
+ * Device Registry Service
+ * Metadata of every installed meter (name, location, owner, tariff
+ * category, model, reporting interval, energy mode), persisted in
+ * devices.json. Decommissioned devices keep their record and data but
+ * their readings are refused. Readings from devices not in the registry
+ * are handled by UNKNOWN_DEVICE_POLICY: 'allow' (the default) stores them
+ * without a record, 'reject' refuses them and 'register' adds a record.
+ */
+class DeviceRegistryService {
+    private store = createJsonStore<Record<string, DeviceRecord>>('devices.json', () => {
+        const now = new Date().toISOString();
+        return Object.fromEntries(Object.entries(SEED_DEVICES).map(([deviceId, fields]) =>
+            [deviceId, newRecord(deviceId, fields, now)]));
+    });
+    private unknownPolicy: UnknownDevicePolicy =
+        process.env.UNKNOWN_DEVICE_POLICY === 'reject' ? 'reject'
+        : process.env.UNKNOWN_DEVICE_POLICY === 'register' ? 'register'
+        : 'allow';
+    private listeners: ChangeListener[] = [];
+
+    /**
+     * Called with the record of every created, updated or (de)activated device
+     */
+    onChanged(listener: ChangeListener): void {
+        this.listeners.push(listener);
+    }
+
+    get(deviceId: string): DeviceRecord | null {
+        return this.store.read()[deviceId] || null;
+    }
+
+    list(filter: { status?: DeviceStatus; userId?: string } = {}): DeviceRecord[] {
+        return Object.values(this.store.read())
+            .filter(device => !filter.status || device.status === filter.status)
+            .filter(device => !filter.userId || device.userId === filter.userId)
+            .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+    }
+
+    create(deviceId: string, fields: DeviceFields): DeviceRecord | null {
+        const devices = this.store.read();
+        if (devices[deviceId]) return null;
+
+        devices[deviceId] = newRecord(deviceId, fields, new Date().toISOString());
+        this.save(devices, devices[deviceId]);
+        return devices[deviceId];
+    }
+
+    /**
+     * Apply changes; null clears an optional setting
+     */
+    update(deviceId: string, changes: DeviceFields): DeviceRecord | null {
+        const devices = this.store.read();
+        const device = devices[deviceId];
+        if (!device) return null;
+
+        const updated: Record<string, unknown> = { ...device };
+        for (const [key, value] of Object.entries(changes)) {
+            if (value === null && OPTIONAL_FIELDS.includes(key)) delete updated[key];
+            else updated[key] = value;
+        }
+        devices[deviceId] = { ...updated, updatedAt: new Date().toISOString() } as DeviceRecord;
+        this.save(devices, devices[deviceId]);
+        return devices[deviceId];
+    }
+
+    /**
+     * Stop accepting readings from a device; its record and data are kept
+     */
+    decommission(deviceId: string): { ok: true; device: DeviceRecord } | { ok: false; code: 'NOT_FOUND' | 'CONFLICT' } {
+        const devices = this.store.read();
+        const device = devices[deviceId];
+        if (!device) return { ok: false, code: 'NOT_FOUND' };
+        if (device.status === 'decommissioned') return { ok: false, code: 'CONFLICT' };
+
+        const now = new Date().toISOString();
+        device.status = 'decommissioned';
+        device.decommissionedAt = now;
+        device.updatedAt = now;
+        this.save(devices, device);
+        return { ok: true, device };
+    }
+
+    /**
+     * Put a decommissioned device back into service
+     */
+    reactivate(deviceId: string): DeviceRecord | null {
+        const devices = this.store.read();
+        const device = devices[deviceId];
+        if (!device || device.status === 'active') return null;
+
+        device.status = 'active';
+        device.decommissionedAt = null;
+        device.updatedAt = new Date().toISOString();
+        this.save(devices, device);
+        return device;
+    }
+
+    /**
+     * Whether readings from a device are accepted, registering it when the policy says so
+     */
+    admit(deviceId: string): AdmitResult {
+        const device = this.get(deviceId);
+        if (device) {
+            return device.status === 'active'
+                ? { ok: true }
+                : { ok: false, code: 'DECOMMISSIONED', message: `Device ${deviceId} is decommissioned` };
+        }
+
+        if (this.unknownPolicy === 'reject') {
+            return { ok: false, code: 'UNKNOWN_DEVICE', message: `Device ${deviceId} is not registered` };
+        }
+        if (this.unknownPolicy === 'register') {
+            const now = new Date().toISOString();
+            const devices = this.store.read();
+            devices[deviceId] = { ...newRecord(deviceId, {}, now), autoRegistered: true };
+            this.save(devices, devices[deviceId]);
+            console.log(`Registered unknown device ${deviceId}`);
+        }
+        return { ok: true };
+    }
+
+    /**
+     * Validate device fields from the API; returns an error message or null
+     * `creating` requires a name
+     */
+    validate(fields: Record<string, unknown>, creating: boolean): string | null {
+        if (creating && (typeof fields.name !== 'string' || fields.name.trim().length === 0)) return 'name is required';
+
+        for (const [key, value] of Object.entries(fields)) {
+            if (!(key in FIELD_RULES)) return `Unknown field ${key}`;
+            if (value === null) {
+                if (REQUIRED_FIELDS.includes(key)) return `${key} cannot be cleared`;
+                continue;
+            }
+            const error = FIELD_RULES[key](value);
+            if (error) return `${key} ${error}`;
+        }
+        return null;
+    }
+
+    private save(devices: Record<string, DeviceRecord>, changed: DeviceRecord): void {
+        this.store.write(devices);
+        for (const listener of this.listeners) {
+            try {
+                listener(changed);
+            } catch (error) {
+                console.error('Device registry listener failed:', error);
+            }
+        }
+    }
+}
+
+const newRecord = (deviceId: string, fields: DeviceFields, now: string): DeviceRecord => ({
+    deviceId,
+    name: deviceId,
+    location: '',
+    userId: null,
+    connectionCategory: null,
+    installDate: null,
+    model: null,
+    reportingIntervalSeconds: null,
+    energyMode: 'interval',
+    ...fields,
+    status: 'active',
+    autoRegistered: false,
+    createdAt: now,
+    updatedAt: now,
+    decommissionedAt: null
+});
+
+const isText = (max: number) => (value: unknown) =>
+    typeof value === 'string' && value.length <= max ? null : `must be a string of at most ${max} characters`;
+
+// null when valid, otherwise the reason
+// (plausibility limits have their own admin API)
+const FIELD_RULES: Record<string, (value: unknown) => string | null> = {
+    name: value => typeof value === 'string' && value.trim().length > 0 && value.length <= 100
+        ? null : 'must be a non-empty string of at most 100 characters',
+    location: isText(200),
+    userId: isText(64),
+    connectionCategory: value => CONNECTION_CATEGORIES.includes(value as ConnectionCategory)
+        ? null : `must be one of ${CONNECTION_CATEGORIES.join(', ')}`,
+    installDate: value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+        ? null : 'must be a date (YYYY-MM-DD)',
+    model: isText(64),
+    reportingIntervalSeconds: value => typeof value === 'number' && Number.isInteger(value) && value >= 5 && value <= 86400
+        ? null : 'must be an integer between 5 and 86400',
+    energyMode: value => ENERGY_MODES.includes(value as EnergyMode) ? null : `must be one of ${ENERGY_MODES.join(', ')}`,
+    register: value => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return 'must be an object';
+        for (const [key, item] of Object.entries(value)) {
+            if (key === 'unit') {
+                if (!REGISTER_UNITS.includes(item as string)) return `unit must be one of ${REGISTER_UNITS.join(', ')}`;
+            } else if (key !== 'maxKWh' && key !== 'maxPowerW') {
+                return `has unknown key ${key}`;
+            } else if (typeof item !== 'number' || !Number.isFinite(item) || item <= 0) {
+                return `${key} must be a positive number`;
+            }
+        }
+        return null;
+    },
+    timezone: value => typeof value === 'string' && isValidTimeZone(value) ? null : 'must be an IANA timezone name',
+    group: isText(64),
+    // A device topic names exactly one topic; wildcards would take over other devices' readings
+    mqttTopic: value => typeof value === 'string' && value.length > 0 && value.length <= 200 && !/[+#]/.test(value)
+        ? null : 'must be a topic of at most 200 characters without the wildcards + and #'
+};
+
+const REQUIRED_FIELDS = ['name', 'location', 'energyMode'];
+const OPTIONAL_FIELDS = ['register', 'timezone', 'group', 'mqttTopic'];
+
+export default new DeviceRegistryService();
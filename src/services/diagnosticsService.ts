@@ -0,0 +1,254 @@
+import { storage } from '../db';
+import { StoragePoint } from '../storage';
+import { createKeyedLock } from '../utils/keyedLock';
+import firmwareService from './firmwareService';
+
+export interface DeviceDiagnostics {
+    rssiDbm?: number;           // GSM signal strength
+    supplyVoltage?: number;     // V, supply or battery
+    firmware?: string;
+    uptimeSeconds?: number;
+    resetReason?: string;
+}
+
+export interface DiagnosticsTrendPoint {
+    time: string;               // hour start
+    rssiDbm: number | null;     // average
+    supplyVoltage: number | null;   // lowest
+    reboots: number;
+}
+
+export interface DiagnosticsSummary {
+    latest: DeviceDiagnostics & { time: string | null };
+    last24h: {
+        rssiDbm: { min: number | null; avg: number | null; max: number | null };
+        supplyVoltage: { min: number | null; avg: number | null; max: number | null };
+        reboots: number;
+        hourly: DiagnosticsTrendPoint[];
+    };
+}
+
+export type HealthStatus = 'ok' | 'warning' | 'offline';
+
+interface UptimeSample {
+    time: number;
+    uptimeSeconds: number;
+}
+
+const MEASUREMENT = 'device_diagnostics';
+
+// Query/JSON parameter names - `csq` is the raw AT+CSQ value (0-31), converted to dBm
+const PARAMS = { rssi: 'rssi', csq: 'csq', supplyVoltage: 'bv', firmware: 'fw', uptime: 'up', resetReason: 'rr' };
+
+// Health degrades to 'warning' below this signal (dBm, average of the latest hour with data) ...
+const WEAK_SIGNAL_DBM = parseInt(process.env.DIAG_WEAK_SIGNAL_DBM || '-100', 10);
+// ... or after this many reboots in 24 hours
+const REBOOT_WARNING_COUNT = parseInt(process.env.DIAG_REBOOT_WARNING_COUNT || '3', 10);
+
+/**
+ * Device Diagnostics Service
+ * Optional diagnostic parameters sent with readings (rssi or csq, bv, fw,
+ * up, rr) are stored as their own `device_diagnostics` series, one point per
+ * accepted reading. A reboot is recorded when uptime goes backwards, and
+ * the firmware version feeds rollout adoption (see firmwareService).
+ * Device health combines silence (see threePhasePowerService) with weak
+ * signal and repeated reboots.
+ */
+class DiagnosticsService {
+    private lastUptime = new Map<string, UptimeSample>();
+    private withDeviceLock = createKeyedLock();
+
+    /**
+     * Diagnostics in request parameters; invalid values are dropped, null when none were sent
+     */
+    parse(params: Record<string, unknown>): DeviceDiagnostics | null {
+        const num = (key: string) => {
+            const value = params[key];
+            if (value === undefined || value === null || value === '') return undefined;
+            const parsed = Number(value);
+            return Number.isFinite(parsed) ? parsed : undefined;
+        };
+        const text = (key: string) => {
+            const value = params[key];
+            return (typeof value === 'string' || typeof value === 'number') && String(value).length > 0
+                ? String(value).slice(0, 64)
+                : undefined;
+        };
+
+        const csq = num(PARAMS.csq);
+        const rssi = num(PARAMS.rssi) ?? (csq !== undefined && csq >= 0 && csq <= 31 ? -113 + 2 * csq : undefined);
+        const supplyVoltage = num(PARAMS.supplyVoltage);
+        const uptime = num(PARAMS.uptime);
+
+        const diagnostics: DeviceDiagnostics = {
+            ...(rssi !== undefined && rssi <= 0 && rssi >= -150 && { rssiDbm: rssi }),
+            ...(supplyVoltage !== undefined && supplyVoltage >= 0 && { supplyVoltage }),
+            ...(text(PARAMS.firmware) && { firmware: text(PARAMS.firmware) }),
+            ...(uptime !== undefined && uptime >= 0 && { uptimeSeconds: Math.floor(uptime) }),
+            ...(text(PARAMS.resetReason) && { resetReason: text(PARAMS.resetReason) })
+        };
+        return Object.keys(diagnostics).length > 0 ? diagnostics : null;
+    }
+
+    /**
+     * Point for a reading's diagnostics, or null when it carries none
+     * Readings of one device must come in time order for reboot detection;
+     * older ones are stored without it.
+     */
+    async toPoint(deviceId: string, params: Record<string, unknown>, timestamp: string): Promise<StoragePoint | null> {
+        const diagnostics = this.parse(params);
+        if (!diagnostics) return null;
+        if (diagnostics.firmware) firmwareService.recordVersion(deviceId, diagnostics.firmware);
+
+        const time = new Date(timestamp).getTime();
+        const reboot = diagnostics.uptimeSeconds !== undefined
+            ? await this.withDeviceLock(deviceId, () => this.detectReboot(deviceId, time, diagnostics.uptimeSeconds!))
+            : false;
+
+        return {
+            measurement: MEASUREMENT,
+            tags: { device_id: deviceId },
+            fields: {
+                ...(diagnostics.rssiDbm !== undefined && { rssi_dbm: diagnostics.rssiDbm }),
+                ...(diagnostics.supplyVoltage !== undefined && { supply_v: diagnostics.supplyVoltage }),
+                ...(diagnostics.firmware && { firmware: diagnostics.firmware }),
+                ...(diagnostics.uptimeSeconds !== undefined && { uptime_s: diagnostics.uptimeSeconds }),
+                ...(diagnostics.resetReason && { reset_reason: diagnostics.resetReason }),
+                reboot: reboot ? 1 : 0
+            },
+            timestamp: new Date(time)
+        };
+    }
+
+    /**
+     * Latest value of each field and the last 24 hours by hour
+     */
+    async getSummary(deviceId: string): Promise<DiagnosticsSummary> {
+        const summary: DiagnosticsSummary = {
+            latest: { time: null },
+            last24h: {
+                rssiDbm: { min: null, avg: null, max: null },
+                supplyVoltage: { min: null, avg: null, max: null },
+                reboots: 0,
+                hourly: []
+            }
+        };
+
+        try {
+            // Fields are optional per point, so each one's latest value may come from a different row
+            const rows = await storage.queryRange({
+                measurement: MEASUREMENT,
+                fields: ['rssi_dbm', 'supply_v', 'firmware', 'uptime_s', 'reset_reason'],
+                where: { device_id: deviceId },
+                since: '30 days',
+                order: 'desc',
+                limit: 500
+            });
+            const latest = (field: string) => rows.find(row => row[field] !== null && row[field] !== undefined)?.[field];
+            summary.latest = {
+                time: rows.length > 0 ? new Date(rows[0].time).toISOString() : null,
+                ...(latest('rssi_dbm') !== undefined && { rssiDbm: Number(latest('rssi_dbm')) }),
+                ...(latest('supply_v') !== undefined && { supplyVoltage: Number(latest('supply_v')) }),
+                ...(latest('firmware') !== undefined && { firmware: String(latest('firmware')) }),
+                ...(latest('uptime_s') !== undefined && { uptimeSeconds: Number(latest('uptime_s')) }),
+                ...(latest('reset_reason') !== undefined && { resetReason: String(latest('reset_reason')) })
+            };
+
+            const end = new Date(Math.ceil(Date.now() / (60 * 60 * 1000)) * 60 * 60 * 1000);
+            const start = new Date(end.getTime() - 24 * 60 * 60 * 1000);
+            const aggregates = {
+                rssi_min: { fn: 'min' as const, field: 'rssi_dbm' },
+                rssi_avg: { fn: 'avg' as const, field: 'rssi_dbm' },
+                rssi_max: { fn: 'max' as const, field: 'rssi_dbm' },
+                supply_min: { fn: 'min' as const, field: 'supply_v' },
+                supply_avg: { fn: 'avg' as const, field: 'supply_v' },
+                supply_max: { fn: 'max' as const, field: 'supply_v' },
+                reboots: { fn: 'sum' as const, field: 'reboot' }
+            };
+
+            const [day] = await storage.aggregate({ measurement: MEASUREMENT, aggregates, where: { device_id: deviceId }, from: start, to: end });
+            summary.last24h.rssiDbm = { min: round(day?.rssi_min), avg: round(day?.rssi_avg), max: round(day?.rssi_max) };
+            summary.last24h.supplyVoltage = { min: round(day?.supply_min), avg: round(day?.supply_avg), max: round(day?.supply_max) };
+            summary.last24h.reboots = Number(day?.reboots) || 0;
+
+            const hourly = await storage.aggregate({
+                measurement: MEASUREMENT,
+                aggregates,
+                where: { device_id: deviceId },
+                from: start,
+                to: end,
+                bin: { every: '1 hour', origin: start }
+            });
+            summary.last24h.hourly = hourly.map(row => ({
+                time: new Date(row.time).toISOString(),
+                rssiDbm: round(row.rssi_avg),
+                supplyVoltage: round(row.supply_min),
+                reboots: Number(row.reboots) || 0
+            }));
+        } catch (error) {
+            // No diagnostics received yet; an unavailable backend is not a quiet device
+            if (!storage.isMissing(error)) throw error;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Degrade a silence-based health status on weak signal or repeated reboots
+     */
+    assessHealth(status: HealthStatus, summary: DiagnosticsSummary): { status: HealthStatus; reasons: string[] } {
+        if (status === 'offline') return { status, reasons: ['No recent data'] };
+
+        const reasons: string[] = [];
+        if (status === 'warning') reasons.push('Data is late');
+
+        const lastHour = summary.last24h.hourly[summary.last24h.hourly.length - 1];
+        const signal = lastHour?.rssiDbm ?? null;
+        if (signal !== null && signal < WEAK_SIGNAL_DBM) {
+            reasons.push(`Weak signal (${signal} dBm)`);
+        }
+        if (summary.last24h.reboots >= REBOOT_WARNING_COUNT) {
+            reasons.push(`${summary.last24h.reboots} reboots in the last 24 hours`);
+        }
+
+        return { status: reasons.length > 0 ? 'warning' : 'ok', reasons };
+    }
+
+    private async detectReboot(deviceId: string, time: number, uptimeSeconds: number): Promise<boolean> {
+        const previous = this.lastUptime.has(deviceId)
+            ? this.lastUptime.get(deviceId)!
+            : await this.loadLastUptime(deviceId);
+        if (previous && time <= previous.time) return false;
+
+        this.lastUptime.set(deviceId, { time, uptimeSeconds });
+        return previous !== null && uptimeSeconds < previous.uptimeSeconds;
+    }
+
+    /**
+     * Last stored uptime, after a restart
+     */
+    private async loadLastUptime(deviceId: string): Promise<UptimeSample | null> {
+        try {
+            const rows = await storage.queryRange({
+                measurement: MEASUREMENT,
+                fields: ['uptime_s'],
+                where: { device_id: deviceId },
+                since: '30 days',
+                order: 'desc',
+                limit: 20
+            });
+            const row = rows.find(r => typeof r.uptime_s === 'number');
+            return row
+                ? { time: new Date(row.time).getTime(), uptimeSeconds: row.uptime_s }
+                : null;
+        } catch (error) {
+            if (storage.isMissing(error)) return null;
+            throw error;
+        }
+    }
+}
+
+const round = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.round(value * 10) / 10 : null;
+
+export default new DiagnosticsService();
@@ -0,0 +1,113 @@
+import { createKeyedLock } from '../utils/keyedLock';
+
+export type EnergyMethod =
+    | 'measured'            // device sent interval energy
+    | 'register'            // delta of a cumulative register
+    | 'trapezoidal'         // power integrated over the time since the previous sample
+    | 'gap_capped'          // gap too long - only the nominal interval was integrated
+    | 'nominal_interval'    // no previous sample - power x nominal reporting interval
+    | 'out_of_order';       // older than the previous sample - power x nominal interval
+
+export interface IntegrationOptions {
+    nominalIntervalSeconds: number;     // the device's configured reporting interval
+    maxGapSeconds: number;              // longer gaps are not integrated
+}
+
+export interface IntegrationResult {
+    energyWh: number;
+    method: EnergyMethod;
+    elapsedSeconds: number | null;
+}
+
+export interface PowerSample {
+    time: number;       // ms since epoch
+    powerW: number;
+}
+
+export const DEFAULT_INTEGRATION_OPTIONS: IntegrationOptions = {
+    nominalIntervalSeconds: 60,
+    maxGapSeconds: parseInt(process.env.MAX_INTEGRATION_GAP_SECONDS || '900', 10)
+};
+
+/**
+ * Energy Integration Service
+ * Derives interval energy for devices that only send V/I/PF by integrating
+ * power over the actual time elapsed since the same series' previous sample
+ * (trapezoidal rule), instead of assuming a fixed reporting interval.
+ */
+class EnergyIntegrationService {
+    private last = new Map<string, PowerSample>();
+    private withSeriesLock = createKeyedLock();
+
+    /**
+     * Integrate power for a sample and remember it as the series' latest
+     * `loadPrevious` seeds the series from storage after a restart
+     */
+    async integrate(
+        seriesKey: string,
+        time: Date,
+        powerW: number,
+        options: IntegrationOptions,
+        loadPrevious: () => Promise<PowerSample | null>
+    ): Promise<IntegrationResult> {
+        return this.withSeriesLock(seriesKey, async () => {
+            const previous = await this.getPrevious(seriesKey, loadPrevious);
+            const nominalHours = options.nominalIntervalSeconds / 3600;
+
+            if (previous && time.getTime() <= previous.time) {
+                return { energyWh: powerW * nominalHours, method: 'out_of_order' as const, elapsedSeconds: null };
+            }
+
+            this.last.set(seriesKey, { time: time.getTime(), powerW });
+
+            if (!previous) {
+                return { energyWh: powerW * nominalHours, method: 'nominal_interval' as const, elapsedSeconds: null };
+            }
+
+            const elapsedSeconds = (time.getTime() - previous.time) / 1000;
+            if (elapsedSeconds > options.maxGapSeconds) {
+                return { energyWh: powerW * nominalHours, method: 'gap_capped' as const, elapsedSeconds };
+            }
+
+            const energyWh = ((previous.powerW + powerW) / 2) * (elapsedSeconds / 3600);
+            return { energyWh, method: 'trapezoidal' as const, elapsedSeconds };
+        });
+    }
+
+    /**
+     * Remember a sample whose energy was measured, so the next derived
+     * sample integrates from the right starting point
+     */
+    async record(seriesKey: string, time: Date, powerW: number): Promise<void> {
+        await this.withSeriesLock(seriesKey, async () => {
+            const previous = this.last.get(seriesKey);
+            if (!previous || time.getTime() > previous.time) {
+                this.last.set(seriesKey, { time: time.getTime(), powerW });
+            }
+        });
+    }
+
+    /**
+     * Drop the state of every series under a key prefix (reprocessing runs)
+     */
+    forget(prefix: string): void {
+        for (const key of Array.from(this.last.keys())) {
+            if (key.startsWith(prefix)) this.last.delete(key);
+        }
+    }
+
+    private async getPrevious(seriesKey: string, loadPrevious: () => Promise<PowerSample | null>): Promise<PowerSample | null> {
+        if (this.last.has(seriesKey)) return this.last.get(seriesKey)!;
+
+        try {
+            const sample = await loadPrevious();
+            if (sample) this.last.set(seriesKey, sample);
+            return sample;
+        } catch (error) {
+            console.warn(`Could not load previous power sample for ${seriesKey}:`, error);
+            return null;
+        }
+    }
+}
+
+export default new EnergyIntegrationService();
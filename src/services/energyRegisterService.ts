@@ -0,0 +1,221 @@
+import { storage } from '../db';
+import { ThreePhaseReadings } from '../types';
+import { createKeyedLock } from '../utils/keyedLock';
+import ingestionQueue from './ingestionQueue';
+
+export type RegisterChannel = '1' | '2' | '3' | 'total';
+
+export type RegisterEvent =
+    | 'normal'
+    | 'baseline'        // first value seen for this device, nothing to diff against
+    | 'reset'           // counter restarted from zero (meter power loss, manual reset)
+    | 'rollover'        // counter wrapped past its maximum
+    | 'replacement'     // implausible jump - meter swapped, re-baselined
+    | 'out_of_order';   // older than the last stored value, not diffed
+
+export interface RegisterOptions {
+    unit: 'Wh' | 'kWh';
+    maxKWh: number;         // register capacity before it wraps
+    maxPowerW: number;      // highest plausible power per channel, bounds a delta
+}
+
+export interface RegisterResult {
+    deltaWh: number;
+    registerWh: number;
+    event: RegisterEvent;
+}
+
+interface RegisterState {
+    valueWh: number;
+    time: number;
+}
+
+export const DEFAULT_REGISTER_OPTIONS: RegisterOptions = {
+    unit: 'kWh',
+    maxKWh: 99999.99,
+    maxPowerW: 100000
+};
+
+/**
+ * Cumulative Energy Register Service
+ * Converts monotonically increasing kWh/Wh registers (PZEM-004T, SDM630)
+ * into per-interval energy deltas, detecting counter resets, wraparound and
+ * meter replacement so SUM(energy_wh) stays correct.
+ */
+class EnergyRegisterService {
+    private state = new Map<string, Map<RegisterChannel, RegisterState>>();
+    private withDeviceLock = createKeyedLock();
+
+    /**
+     * Convert register readings for one timestamp into interval deltas
+     * Calls for the same device are serialised so deltas are never double-counted.
+     * A `scope` keeps separate state, seeded from the values stored before
+     * `timestamp` (reprocessing replays past readings next to live ingestion).
+     */
+    async toIntervalEnergy(
+        deviceId: string,
+        timestamp: Date,
+        registers: Partial<Record<RegisterChannel, number>>,
+        options: RegisterOptions = DEFAULT_REGISTER_OPTIONS,
+        scope?: string
+    ): Promise<Partial<Record<RegisterChannel, RegisterResult>>> {
+        const stateKey = scope ? `${scope}${deviceId}` : deviceId;
+        return this.withDeviceLock(stateKey, async () => {
+            const deviceState = await this.getDeviceState(deviceId, stateKey, scope ? timestamp : undefined);
+            const results: Partial<Record<RegisterChannel, RegisterResult>> = {};
+
+            for (const [channel, value] of Object.entries(registers) as [RegisterChannel, number][]) {
+                if (value === undefined || isNaN(value)) continue;
+
+                const registerWh = options.unit === 'kWh' ? value * 1000 : value;
+                const previous = deviceState.get(channel);
+                const result = this.diff(previous, registerWh, timestamp.getTime(), options);
+
+                if (result.event !== 'out_of_order') {
+                    deviceState.set(channel, { valueWh: registerWh, time: timestamp.getTime() });
+                }
+                if (result.event !== 'normal') {
+                    console.warn(`Energy register ${result.event} for ${deviceId} channel ${channel}: ${previous?.valueWh ?? '-'} -> ${registerWh} Wh`);
+                }
+                results[channel] = result;
+            }
+
+            return results;
+        });
+    }
+
+    /**
+     * Replace register values in a reading with interval deltas
+     * `registers` holds only the values the device actually sent; the total
+     * falls back to the sum of phase deltas when no total register was sent.
+     */
+    async applyToReadings(
+        deviceId: string,
+        readings: ThreePhaseReadings,
+        registers: Partial<Record<RegisterChannel, number>>,
+        options: RegisterOptions = DEFAULT_REGISTER_OPTIONS,
+        scope?: string
+    ): Promise<void> {
+        const results = await this.toIntervalEnergy(deviceId, new Date(readings.timestamp), registers, options, scope);
+
+        for (const channel of ['1', '2', '3'] as const) {
+            const result = results[channel];
+            if (!result) continue;
+            const phase = readings.phases[channel];
+            phase.energy_wh = result.deltaWh;
+            phase.energy_register_wh = result.registerWh;
+            if (result.event !== 'normal') phase.register_event = result.event;
+        }
+
+        const total = results.total;
+        if (total) {
+            readings.total.energy_wh = total.deltaWh;
+            readings.total.energy_register_wh = total.registerWh;
+            if (total.event !== 'normal') readings.total.register_event = total.event;
+        } else {
+            readings.total.energy_wh = Object.values(readings.phases).reduce((sum, p) => sum + p.energy_wh, 0);
+        }
+    }
+
+    private diff(previous: RegisterState | undefined, registerWh: number, time: number, options: RegisterOptions): RegisterResult {
+        if (!previous) {
+            return { deltaWh: 0, registerWh, event: 'baseline' };
+        }
+        if (time <= previous.time) {
+            return { deltaWh: 0, registerWh, event: 'out_of_order' };
+        }
+
+        // Largest delta physically possible in the elapsed time
+        const elapsedHours = (time - previous.time) / (60 * 60 * 1000);
+        const maxDeltaWh = options.maxPowerW * elapsedHours;
+        const capacityWh = options.maxKWh * 1000;
+        const delta = registerWh - previous.valueWh;
+
+        if (delta >= 0) {
+            return delta <= maxDeltaWh
+                ? { deltaWh: delta, registerWh, event: 'normal' }
+                : { deltaWh: 0, registerWh, event: 'replacement' };
+        }
+
+        const wrapped = capacityWh - previous.valueWh + registerWh;
+        if (previous.valueWh > capacityWh * 0.9 && wrapped <= maxDeltaWh) {
+            return { deltaWh: wrapped, registerWh, event: 'rollover' };
+        }
+        if (registerWh <= maxDeltaWh) {
+            return { deltaWh: registerWh, registerWh, event: 'reset' };
+        }
+        return { deltaWh: 0, registerWh, event: 'replacement' };
+    }
+
+    /**
+     * Drop the state of every device under a scope
+     */
+    forget(scope: string): void {
+        for (const key of Array.from(this.state.keys())) {
+            if (key.startsWith(scope)) this.state.delete(key);
+        }
+    }
+
+    /**
+     * Last register values, seeded after a restart from storage and from
+     * readings still in the ingestion queue (from the values before `before` when given)
+     */
+    private async getDeviceState(deviceId: string, stateKey: string, before?: Date): Promise<Map<RegisterChannel, RegisterState>> {
+        let deviceState = this.state.get(stateKey);
+        if (deviceState) return deviceState;
+
+        deviceState = new Map();
+        try {
+            const phaseRows = await storage.queryRange({
+                measurement: 'three_phase_energy',
+                fields: ['phase', 'energy_register_wh'],
+                where: { device_id: deviceId },
+                ...(before ? { to: before } : { since: '30 days' }),
+                order: 'desc',
+                limit: 30
+            });
+            for (const row of phaseRows) {
+                if (typeof row.energy_register_wh === 'number' && !deviceState.has(row.phase)) {
+                    deviceState.set(row.phase, { valueWh: row.energy_register_wh, time: row.time.getTime() });
+                }
+            }
+
+            const totalRows = await storage.queryRange({
+                measurement: 'three_phase_total',
+                fields: ['total_energy_register_wh'],
+                where: { device_id: deviceId },
+                ...(before ? { to: before } : { since: '30 days' }),
+                order: 'desc',
+                limit: 10
+            });
+            const lastTotal = totalRows.find(row => typeof row.total_energy_register_wh === 'number');
+            if (lastTotal) {
+                deviceState.set('total', { valueWh: lastTotal.total_energy_register_wh, time: lastTotal.time.getTime() });
+            }
+        } catch (error) {
+            // The register columns do not exist until a cumulative-mode device has reported;
+            // anything else is retried by the next reading rather than re-baselined
+            if (!storage.isMissing(error)) throw error;
+            console.warn(`No energy registers stored for ${deviceId}, starting from a new baseline`);
+        }
+
+        // Readings accepted before the restart but not yet written
+        const pending = [
+            ...ingestionQueue.getPendingPoints('three_phase_energy', deviceId)
+                .map(point => ({ point, channel: point.tags.phase as RegisterChannel, value: point.fields.energy_register_wh })),
+            ...ingestionQueue.getPendingPoints('three_phase_total', deviceId)
+                .map(point => ({ point, channel: 'total' as RegisterChannel, value: point.fields.total_energy_register_wh }))
+        ];
+        for (const { point, channel, value } of pending) {
+            const time = point.timestamp.getTime();
+            if (typeof value !== 'number' || (before && time >= before.getTime())) continue;
+            const current = deviceState.get(channel);
+            if (!current || time > current.time) deviceState.set(channel, { valueWh: value, time });
+        }
+
+        this.state.set(stateKey, deviceState);
+        return deviceState;
+    }
+}
+
+export default new EnergyRegisterService();
@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDeviceById } from '../middleware/auth';
+import { DATA_DIR, createJsonStore } from '../utils/jsonStore';
+
+export interface FirmwareImage {
+    id: string;
+    version: string;
+    model: string;                  // hardware model the image is built for
+    sha256: string;                 // hex
+    size: number;                   // bytes
+    notes: string;
+    uploadedAt: string;
+}
+
+export type RolloutStatus = 'active' | 'paused';
+
+// Which devices a rollout targets - explicit devices take precedence over a group, a group over the whole model
+export type RolloutTarget =
+    | { kind: 'devices'; deviceIds: string[] }
+    | { kind: 'group'; group: string }
+    | { kind: 'all' };
+
+export interface Rollout {
+    id: string;
+    firmwareId: string;
+    target: RolloutTarget;
+    percentage: number;             // 0-100, share of targeted devices offered the update
+    status: RolloutStatus;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ReportedFirmware {
+    version: string;
+    model: string | null;           // from firmware checks
+    reportedAt: string;
+}
+
+export interface RolloutAdoption {
+    targeted: number;               // known devices of the model in the target and percentage
+    updated: number;                // reporting the rollout's version
+    pending: string[];              // device IDs not on it yet
+}
+
+export type FirmwareCheck =
+    | { update: false }
+    | { update: true; firmwareId: string; version: string; size: number; sha256: string; url: string };
+
+interface FirmwareStore {
+    images: FirmwareImage[];
+    rollouts: Rollout[];
+    reported: Record<string, ReportedFirmware>;
+}
+
+export const FIRMWARE_MAX_BYTES = parseInt(process.env.FIRMWARE_MAX_BYTES || String(8 * 1024 * 1024), 10);
+// Lifetime of download links handed out by check()
+const DOWNLOAD_LINK_SECONDS = parseInt(process.env.FIRMWARE_LINK_SECONDS || '3600', 10);
+
+const TARGET_PRIORITY: RolloutTarget['kind'][] = ['devices', 'group', 'all'];
+
+/**
+ * Firmware Service
+ * Hosts firmware images (DATA_DIR/firmware) and staged rollouts of a version
+ * to devices, a device group or every device of a hardware model. Devices
+ * poll check() with their model and running version; a device is in a
+ * rollout's percentage when a hash of its ID and the rollout ID falls below
+ * it, so raising the percentage only ever adds devices. Download links are
+ * signed and short-lived, so OTA clients need no device credentials.
+ * Adoption comes from the firmware version devices report with readings.
+ */
+class FirmwareService {
+    private store = createJsonStore<FirmwareStore>('firmware.json', () => ({ images: [], rollouts: [], reported: {} }));
+    private dir = path.join(DATA_DIR, 'firmware');
+    // Download links are signed with this; a restart invalidates outstanding links
+    private linkSecret = process.env.FIRMWARE_LINK_SECRET || crypto.randomBytes(32).toString('hex');
+
+    listImages(): FirmwareImage[] {
+        return [...this.store.read().images].sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    }
+
+    getImage(id: string): FirmwareImage | null {
+        return this.store.read().images.find(image => image.id === id) || null;
+    }
+
+    /**
+     * Store an image; `expectedSha256` (optional) guards against a corrupted upload
+     */
+    async addImage(
+        data: Buffer,
+        meta: { version: string; model: string; notes?: string; expectedSha256?: string }
+    ): Promise<{ ok: true; image: FirmwareImage } | { ok: false; code: 'CONFLICT' | 'CHECKSUM_MISMATCH'; message: string }> {
+        const store = this.store.read();
+        if (store.images.some(image => image.version === meta.version && image.model === meta.model)) {
+            return { ok: false, code: 'CONFLICT', message: `Version ${meta.version} for ${meta.model} already exists` };
+        }
+
+        const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+        if (meta.expectedSha256 && meta.expectedSha256.toLowerCase() !== sha256) {
+            return { ok: false, code: 'CHECKSUM_MISMATCH', message: `Upload has SHA-256 ${sha256}` };
+        }
+
+        const image: FirmwareImage = {
+            id: crypto.randomBytes(6).toString('hex'),
+            version: meta.version,
+            model: meta.model,
+            sha256,
+            size: data.length,
+            notes: meta.notes || '',
+            uploadedAt: new Date().toISOString()
+        };
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        await fs.promises.writeFile(this.imagePath(image.id), data);
+
+        store.images.push(image);
+        this.store.write(store);
+        return { ok: true, image };
+    }
+
+    /**
+     * Remove an image no rollout refers to
+     */
+    async deleteImage(id: string): Promise<{ ok: true } | { ok: false; code: 'NOT_FOUND' | 'CONFLICT' }> {
+        const store = this.store.read();
+        if (!store.images.some(image => image.id === id)) return { ok: false, code: 'NOT_FOUND' };
+        if (store.rollouts.some(rollout => rollout.firmwareId === id)) return { ok: false, code: 'CONFLICT' };
+
+        store.images = store.images.filter(image => image.id !== id);
+        this.store.write(store);
+        await fs.promises.rm(this.imagePath(id), { force: true });
+        return { ok: true };
+    }
+
+    imagePath(id: string): string {
+        return path.join(this.dir, `${id}.bin`);
+    }
+
+    listRollouts(): (Rollout & { firmware: FirmwareImage | null; adoption: RolloutAdoption })[] {
+        return [...this.store.read().rollouts]
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .map(rollout => ({ ...rollout, firmware: this.getImage(rollout.firmwareId), adoption: this.getAdoption(rollout) }));
+    }
+
+    createRollout(firmwareId: string, target: RolloutTarget, percentage: number): Rollout | null {
+        const store = this.store.read();
+        if (!store.images.some(image => image.id === firmwareId)) return null;
+
+        const now = new Date().toISOString();
+        const rollout: Rollout = {
+            id: crypto.randomBytes(6).toString('hex'),
+            firmwareId,
+            target,
+            percentage,
+            status: 'active',
+            createdAt: now,
+            updatedAt: now
+        };
+        store.rollouts.push(rollout);
+        this.store.write(store);
+        return rollout;
+    }
+
+    updateRollout(id: string, changes: { percentage?: number; status?: RolloutStatus }): Rollout | null {
+        const store = this.store.read();
+        const rollout = store.rollouts.find(r => r.id === id);
+        if (!rollout) return null;
+
+        if (changes.percentage !== undefined) rollout.percentage = changes.percentage;
+        if (changes.status !== undefined) rollout.status = changes.status;
+        rollout.updatedAt = new Date().toISOString();
+        this.store.write(store);
+        return rollout;
+    }
+
+    deleteRollout(id: string): boolean {
+        const store = this.store.read();
+        const remaining = store.rollouts.filter(r => r.id !== id);
+        if (remaining.length === store.rollouts.length) return false;
+        store.rollouts = remaining;
+        this.store.write(store);
+        return true;
+    }
+
+    /**
+     * Update offered to a device running `currentVersion` of `model`
+     */
+    check(deviceId: string, model: string, currentVersion: string | undefined): FirmwareCheck {
+        if (currentVersion) this.recordVersion(deviceId, currentVersion, model);
+
+        const target = this.resolveTarget(deviceId, model);
+        if (!target || target.image.version === currentVersion) return { update: false };
+
+        const { image } = target;
+        const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_LINK_SECONDS;
+        const token = this.linkToken(image.id, deviceId, expires);
+        return {
+            update: true,
+            firmwareId: image.id,
+            version: image.version,
+            size: image.size,
+            sha256: image.sha256,
+            url: `/api/firmware/download/${image.id}?d=${encodeURIComponent(deviceId)}&exp=${expires}&token=${token}`
+        };
+    }
+
+    /**
+     * Whether a download link from check() is valid
+     */
+    verifyDownloadLink(id: string, deviceId: string, expires: number, token: string): boolean {
+        if (!Number.isInteger(expires) || expires < Date.now() / 1000) return false;
+        const expected = Buffer.from(this.linkToken(id, deviceId, expires));
+        const actual = Buffer.from(token);
+        return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+    }
+
+    /**
+     * Firmware version a device reported (readings or checks); only changes are written
+     */
+    recordVersion(deviceId: string, version: string, model?: string): void {
+        const store = this.store.read();
+        const previous = store.reported[deviceId];
+        if (previous && previous.version === version && (!model || previous.model === model)) return;
+
+        store.reported[deviceId] = {
+            version,
+            model: model || previous?.model || null,
+            reportedAt: new Date().toISOString()
+        };
+        this.store.write(store);
+    }
+
+    getReported(deviceId: string): ReportedFirmware | null {
+        return this.store.read().reported[deviceId] || null;
+    }
+
+    /**
+     * Devices per reported version, by model
+     */
+    getVersionCounts(): Record<string, Record<string, number>> {
+        const counts: Record<string, Record<string, number>> = {};
+        for (const reported of Object.values(this.store.read().reported)) {
+            const model = reported.model || 'unknown';
+            counts[model] = counts[model] || {};
+            counts[model][reported.version] = (counts[model][reported.version] || 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * The image a device should run: the most specific active rollout that
+     * includes it, newest first within the same kind of target
+     */
+    private resolveTarget(deviceId: string, model: string): { rollout: Rollout; image: FirmwareImage } | null {
+        const candidates = this.store.read().rollouts
+            .filter(rollout => rollout.status === 'active' && this.targets(rollout, deviceId))
+            .map(rollout => ({ rollout, image: this.getImage(rollout.firmwareId) }))
+            .filter((c): c is { rollout: Rollout; image: FirmwareImage } => c.image !== null && c.image.model === model)
+            .sort((a, b) =>
+                TARGET_PRIORITY.indexOf(a.rollout.target.kind) - TARGET_PRIORITY.indexOf(b.rollout.target.kind) ||
+                b.rollout.createdAt.localeCompare(a.rollout.createdAt));
+
+        return candidates.find(c => inPercentage(c.rollout, deviceId)) || null;
+    }
+
+    private targets(rollout: Rollout, deviceId: string): boolean {
+        const { target } = rollout;
+        switch (target.kind) {
+            case 'devices': return target.deviceIds.includes(deviceId);
+            case 'group': return getDeviceById(deviceId)?.group === target.group;
+            case 'all': return true;
+        }
+    }
+
+    private getAdoption(rollout: Rollout): RolloutAdoption {
+        const image = this.getImage(rollout.firmwareId);
+        const reported = this.store.read().reported;
+        const known = new Set([
+            ...Object.keys(reported),
+            ...(rollout.target.kind === 'devices' ? rollout.target.deviceIds : [])
+        ]);
+
+        const targeted = Array.from(known).filter(deviceId =>
+            (!reported[deviceId]?.model || reported[deviceId].model === image?.model) &&
+            this.targets(rollout, deviceId) &&
+            inPercentage(rollout, deviceId));
+        const pending = targeted.filter(deviceId => reported[deviceId]?.version !== image?.version);
+
+        return { targeted: targeted.length, updated: targeted.length - pending.length, pending };
+    }
+
+    private linkToken(id: string, deviceId: string, expires: number): string {
+        return crypto.createHmac('sha256', this.linkSecret).update(`${id}\n${deviceId}\n${expires}`).digest('hex');
+    }
+}
+
+// Stable 0-99 bucket of a device within a rollout
+const inPercentage = (rollout: Rollout, deviceId: string): boolean =>
+    crypto.createHash('sha256').update(`${rollout.id}:${deviceId}`).digest().readUInt32BE(0) % 100 < rollout.percentage;
+
+export default new FirmwareService();
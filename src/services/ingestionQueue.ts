@@ -0,0 +1,316 @@
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../db';
+import { StoragePoint } from '../storage';
+
+interface QueueEntry {
+    id: number;
+    enqueuedAt: string;
+    points: StoragePoint[];
+}
+
+export interface IngestionQueueStats {
+    depth: number;                      // pending entries (one per accepted request)
+    pendingPoints: number;
+    oldestPendingAgeSeconds: number | null;
+    retryAttempt: number;
+    nextRetryAt: string | null;
+    lastError: string | null;
+    lastFlushAt: string | null;
+    deadLettered: number;               // points in the dead-letter file
+    lastDeadLetterAt: string | null;
+}
+
+// A point storage refused, kept in the dead-letter file for inspection
+interface DeadLetter {
+    rejectedAt: string;
+    entryId: number;
+    enqueuedAt: string;
+    error: string;
+    point: StoragePoint;
+}
+
+type FlushListener = (points: StoragePoint[]) => void;
+
+/**
+ * Durable Ingestion Queue
+ * Readings are appended to a local JSON-lines file (fsync'd) before the
+ * device is acknowledged, then written to the storage backend in batches.
+ * Failed writes are retried with exponential backoff; entries still in the
+ * file after a restart are replayed. Points the backend refuses outright
+ * (see StorageBackend.isRejection) are isolated by splitting the batch and
+ * moved to a dead-letter file, so one bad point cannot hold up the rest.
+ */
+class IngestionQueue {
+    private filePath = process.env.INGEST_QUEUE_FILE || path.join('data', 'ingest-queue.jsonl');
+    private batchSize = parseInt(process.env.INGEST_BATCH_SIZE || '500', 10);
+    private flushIntervalMs = parseInt(process.env.INGEST_FLUSH_INTERVAL_MS || '1000', 10);
+    private maxBackoffMs = parseInt(process.env.INGEST_MAX_BACKOFF_MS || '300000', 10);
+    private deadLetterPath = process.env.INGEST_DEAD_LETTER_FILE || path.join(path.dirname(this.filePath), 'ingest-dead-letter.jsonl');
+
+    private pending: QueueEntry[] = [];
+    private nextId = 1;
+    private loaded = false;
+    private fileLock: Promise<void> = Promise.resolve();
+    private listeners: FlushListener[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private flushing = false;
+
+    private retryAttempt = 0;
+    private nextAttemptAt = 0;
+    private lastError: string | null = null;
+    private lastFlushAt: Date | null = null;
+    private deadLettered = 0;
+    private lastDeadLetterAt: Date | null = null;
+
+    /**
+     * Load entries left over from a previous run and start the flush loop
+     */
+    start(): void {
+        if (this.timer) return;
+        this.load();
+        if (this.pending.length > 0) {
+            console.log(`Replaying ${this.pending.length} queued ingestion entries`);
+        }
+        this.timer = setInterval(() => {
+            this.flush().catch(error => console.error('Error flushing ingestion queue:', error));
+        }, this.flushIntervalMs);
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Called with the points of every successfully written batch
+     */
+    onFlushed(listener: FlushListener): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Durably queue points. Resolves once they are on disk.
+     * Throws for points no backend could store (invalid timestamp or number).
+     */
+    async enqueue(points: StoragePoint[]): Promise<void> {
+        this.load();
+
+        for (const point of points) {
+            const error = pointError(point);
+            if (error) throw new Error(error);
+        }
+
+        const entry: QueueEntry = {
+            id: this.nextId++,
+            enqueuedAt: new Date().toISOString(),
+            points
+        };
+
+        await this.withFileLock(async () => {
+            const handle = await fs.promises.open(this.filePath, 'a');
+            try {
+                await handle.appendFile(JSON.stringify(entry) + '\n');
+                await handle.datasync();
+            } finally {
+                await handle.close();
+            }
+            this.pending.push(entry);
+        });
+    }
+
+    /**
+     * Write the next batch to storage (no-op while backing off)
+     */
+    async flush(): Promise<void> {
+        if (this.flushing || this.pending.length === 0 || Date.now() < this.nextAttemptAt) return;
+        this.flushing = true;
+
+        try {
+            const batch: QueueEntry[] = [];
+            let pointCount = 0;
+            for (const entry of this.pending) {
+                if (batch.length > 0 && pointCount + entry.points.length > this.batchSize) break;
+                batch.push(entry);
+                pointCount += entry.points.length;
+            }
+
+            const rejected: DeadLetter[] = [];
+            const points: StoragePoint[] = [];
+            for (const entry of batch) {
+                for (const point of entry.points) {
+                    // Entries replayed from an older queue file were not validated on enqueue
+                    const error = pointError(point);
+                    if (error) rejected.push(deadLetter(entry, point, error));
+                    else points.push(point);
+                }
+            }
+
+            try {
+                await this.writeIsolating(batch, points, rejected);
+            } catch (error) {
+                this.retryAttempt++;
+                const backoff = Math.min(1000 * Math.pow(2, this.retryAttempt - 1), this.maxBackoffMs);
+                this.nextAttemptAt = Date.now() + backoff;
+                this.lastError = error instanceof Error ? error.message : String(error);
+                console.error(`Ingestion write failed (attempt ${this.retryAttempt}), retrying in ${backoff}ms:`, this.lastError);
+                return;
+            }
+
+            this.retryAttempt = 0;
+            this.nextAttemptAt = 0;
+            this.lastError = null;
+            this.lastFlushAt = new Date();
+
+            // Listeners run before the entries leave the queue file, so a crash in
+            // between replays them instead of losing what the listeners record
+            const refused = new Set(rejected.map(letter => letter.point));
+            const stored = points.filter(point => !refused.has(point));
+            for (const listener of this.listeners) {
+                try {
+                    listener(stored);
+                } catch (error) {
+                    console.error('Ingestion flush listener failed:', error);
+                }
+            }
+
+            // Dead letters are on disk before their entries leave the queue file
+            if (rejected.length > 0) await this.appendDeadLetters(rejected);
+            const written = new Set(batch.map(entry => entry.id));
+            this.pending = this.pending.filter(entry => !written.has(entry.id));
+            await this.compact();
+        } finally {
+            this.flushing = false;
+        }
+    }
+
+    /**
+     * Points of one device still waiting to be written, oldest first
+     */
+    getPendingPoints(measurement: string, deviceId: string): StoragePoint[] {
+        this.load();
+        return this.pending.flatMap(entry => entry.points.filter(point =>
+            point.measurement === measurement && point.tags.device_id === deviceId
+        ));
+    }
+
+    getStats(): IngestionQueueStats {
+        const oldest = this.pending[0];
+        return {
+            depth: this.pending.length,
+            pendingPoints: this.pending.reduce((sum, entry) => sum + entry.points.length, 0),
+            oldestPendingAgeSeconds: oldest
+                ? Math.round((Date.now() - new Date(oldest.enqueuedAt).getTime()) / 1000)
+                : null,
+            retryAttempt: this.retryAttempt,
+            nextRetryAt: this.nextAttemptAt > 0 ? new Date(this.nextAttemptAt).toISOString() : null,
+            lastError: this.lastError,
+            lastFlushAt: this.lastFlushAt ? this.lastFlushAt.toISOString() : null,
+            deadLettered: this.deadLettered,
+            lastDeadLetterAt: this.lastDeadLetterAt ? this.lastDeadLetterAt.toISOString() : null
+        };
+    }
+
+    /**
+     * Write points; when the backend rejects them, halve the write until the
+     * refused points are found and add those to `rejected`. Other errors are
+     * thrown (halves already written are rewritten on retry, which replaces them).
+     */
+    private async writeIsolating(batch: QueueEntry[], points: StoragePoint[], rejected: DeadLetter[]): Promise<void> {
+        if (points.length === 0) return;
+        try {
+            await storage.write(points);
+        } catch (error) {
+            if (!storage.isRejection(error)) throw error;
+            if (points.length === 1) {
+                const entry = batch.find(e => e.points.includes(points[0]))!;
+                rejected.push(deadLetter(entry, points[0], error instanceof Error ? error.message : String(error)));
+                return;
+            }
+            const middle = Math.ceil(points.length / 2);
+            await this.writeIsolating(batch, points.slice(0, middle), rejected);
+            await this.writeIsolating(batch, points.slice(middle), rejected);
+        }
+    }
+
+    private async appendDeadLetters(letters: DeadLetter[]): Promise<void> {
+        const handle = await fs.promises.open(this.deadLetterPath, 'a');
+        try {
+            await handle.appendFile(letters.map(letter => JSON.stringify(letter) + '\n').join(''));
+            await handle.datasync();
+        } finally {
+            await handle.close();
+        }
+        this.deadLettered += letters.length;
+        this.lastDeadLetterAt = new Date();
+        for (const letter of letters) {
+            console.error(`Ingestion point from entry ${letter.entryId} rejected by storage, dead-lettered:`, letter.error);
+        }
+    }
+
+    /**
+     * Rewrite the queue file with only the entries still pending
+     */
+    private async compact(): Promise<void> {
+        await this.withFileLock(async () => {
+            const tmpPath = `${this.filePath}.tmp`;
+            const content = this.pending.map(entry => JSON.stringify(entry) + '\n').join('');
+            await fs.promises.writeFile(tmpPath, content);
+            await fs.promises.rename(tmpPath, this.filePath);
+        });
+    }
+
+    private load(): void {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        if (fs.existsSync(this.deadLetterPath)) {
+            this.deadLettered = fs.readFileSync(this.deadLetterPath, 'utf8').split('\n').filter(line => line.trim()).length;
+        }
+        if (!fs.existsSync(this.filePath)) return;
+
+        for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as QueueEntry;
+                // An invalid Date was saved as null; keep it invalid rather than 1970
+                entry.points = entry.points.map(p => ({ ...p, timestamp: new Date(p.timestamp ?? NaN) }));
+                this.pending.push(entry);
+                this.nextId = Math.max(this.nextId, entry.id + 1);
+            } catch {
+                // A crash mid-append can leave a partial last line
+                console.warn('Skipping corrupt line in ingestion queue file');
+            }
+        }
+    }
+
+    /**
+     * Serialise appends and compactions so a rename never drops an append
+     */
+    private withFileLock(operation: () => Promise<void>): Promise<void> {
+        const run = this.fileLock.then(operation);
+        this.fileLock = run.catch(() => undefined);
+        return run;
+    }
+}
+
+// Why a point cannot be stored by any backend, or null
+const pointError = (point: StoragePoint): string | null => {
+    if (!(point.timestamp instanceof Date) || isNaN(point.timestamp.getTime())) {
+        return `Invalid timestamp in ${point.measurement} point`;
+    }
+    const field = Object.entries(point.fields).find(([, value]) => typeof value === 'number' && !isFinite(value));
+    return field ? `Invalid value for field ${field[0]} in ${point.measurement} point` : null;
+};
+
+const deadLetter = (entry: QueueEntry, point: StoragePoint, error: string): DeadLetter => ({
+    rejectedAt: new Date().toISOString(),
+    entryId: entry.id,
+    enqueuedAt: entry.enqueuedAt,
+    error,
+    point
+});
+
+export default new IngestionQueue();
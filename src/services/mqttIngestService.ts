@@ -0,0 +1,271 @@
+import net from 'net';
+import { connect, MqttClient, IPublishPacket } from 'mqtt';
+import { createBroker } from 'aedes';
+import { getDeviceMqttTopics } from '../middleware/auth';
+import deviceRegistryService from './deviceRegistryService';
+import threePhaseIngestService, { toParams } from './threePhaseIngestService';
+import trafficLogService from './trafficLogService';
+
+export interface MqttIngestStats {
+    enabled: boolean;
+    connected: boolean;
+    url: string | null;
+    embeddedBrokerPort: number | null;
+    topics: string[];
+    received: number;
+    accepted: number;
+    rejected: number;
+    duplicates: number;
+    quarantined: number;
+    lastMessageAt: string | null;
+}
+
+// Acknowledgement payload (an IngestReply, or the batch summary)
+type MqttAck = { status: 'OK' | 'ERROR'; code?: string } & Record<string, unknown>;
+
+/**
+ * MQTT Ingestion Service
+ * Subscribes to per-device topics (default `energo/<deviceId>/3phase`) and
+ * feeds each message through the same validation and storage path as
+ * `/api/energy-measurement-3phase`. Payloads are a JSON object or a query
+ * string using the short parameter names (`ts=...&v1=...&c1=...`); a JSON
+ * array is handled as a batch. The acknowledgement is published on
+ * `<topic>/ack`, or on the response topic of MQTT 5 messages.
+ *
+ * MQTT_URL connects to an external broker; MQTT_EMBEDDED_PORT starts a local
+ * broker (used when MQTT_URL is not set) for development and testing.
+ */
+class MqttIngestService {
+    private url = process.env.MQTT_URL || null;
+    private embeddedPort = process.env.MQTT_EMBEDDED_PORT ? parseInt(process.env.MQTT_EMBEDDED_PORT, 10) : null;
+    private topicTemplate = process.env.MQTT_TOPIC_TEMPLATE || 'energo/{deviceId}/3phase';
+    private ackSuffix = process.env.MQTT_ACK_SUFFIX || '/ack';
+    // 3.1.1 by default (what GSM modem stacks and the embedded broker speak); 5 enables response topics
+    private protocolVersion: 4 | 5 = process.env.MQTT_PROTOCOL_VERSION === '5' ? 5 : 4;
+
+    private client: MqttClient | null = null;
+    private broker: ReturnType<typeof createBroker> | null = null;
+    private server: net.Server | null = null;
+    private topics: string[] = [];
+
+    private counters = { received: 0, accepted: 0, rejected: 0, duplicates: 0, quarantined: 0 };
+    private lastMessageAt: Date | null = null;
+
+    constructor() {
+        deviceRegistryService.onChanged(() => this.syncTopics());
+    }
+
+    /**
+     * Start the embedded broker (if configured) and subscribe
+     */
+    async start(): Promise<void> {
+        if (this.client) return;
+
+        if (this.embeddedPort !== null) {
+            await this.startEmbeddedBroker(this.embeddedPort);
+        }
+
+        const url = this.url || (this.embeddedPort !== null ? `mqtt://localhost:${this.embeddedPort}` : null);
+        if (!url) {
+            console.log('MQTT ingestion disabled (set MQTT_URL or MQTT_EMBEDDED_PORT)');
+            return;
+        }
+        this.url = url;
+
+        this.topics = this.wantedTopics();
+
+        this.client = connect(url, {
+            protocolVersion: this.protocolVersion,
+            clientId: process.env.MQTT_CLIENT_ID || `energy-api-${process.pid}`,
+            username: process.env.MQTT_USERNAME,
+            password: process.env.MQTT_PASSWORD,
+            reconnectPeriod: 5000
+        });
+
+        this.client.on('connect', () => {
+            console.log(`MQTT connected to ${url}, subscribing to ${this.topics.join(', ')}`);
+            this.client!.subscribe(this.topics, { qos: 1 }, error => {
+                if (error) console.error('MQTT subscribe failed:', error);
+            });
+        });
+        this.client.on('error', error => console.error('MQTT client error:', error.message));
+        this.client.on('message', (topic, payload, packet) => {
+            this.handleMessage(topic, payload, packet).catch(error => {
+                console.error(`Error handling MQTT message on ${topic}:`, error);
+            });
+        });
+    }
+
+    async stop(): Promise<void> {
+        if (this.client) {
+            await this.client.endAsync();
+            this.client = null;
+        }
+        if (this.server) {
+            await new Promise<void>(resolve => this.server!.close(() => resolve()));
+            this.server = null;
+        }
+        if (this.broker) {
+            await new Promise<void>(resolve => this.broker!.close(() => resolve()));
+            this.broker = null;
+        }
+    }
+
+    getStats(): MqttIngestStats {
+        return {
+            enabled: this.client !== null,
+            connected: this.client?.connected ?? false,
+            url: this.url,
+            embeddedBrokerPort: this.server ? this.embeddedPort : null,
+            topics: this.topics,
+            ...this.counters,
+            lastMessageAt: this.lastMessageAt ? this.lastMessageAt.toISOString() : null
+        };
+    }
+
+    private async handleMessage(topic: string, payload: Buffer, packet: IPublishPacket): Promise<void> {
+        const deviceId = this.deviceIdForTopic(topic);
+        if (!deviceId) return;
+
+        this.counters.received++;
+        this.lastMessageAt = new Date();
+
+        const started = Date.now();
+        const text = payload.toString('utf8').trim();
+        const ack = await this.ingest(deviceId, text);
+
+        trafficLogService.record({
+            receivedAt: new Date(started).toISOString(),
+            deviceId,
+            route: topic,
+            method: 'MQTT',
+            ip: null,
+            headers: {},
+            query: {},
+            body: text,
+            status: ack.status === 'OK' ? 200 : ack.code === 'UNAUTHORIZED' ? 401 : 400,
+            latencyMs: Date.now() - started
+        }).catch(error => console.error('Error writing traffic log:', error));
+
+        const replyTopic = packet.properties?.responseTopic || `${topic}${this.ackSuffix}`;
+        const correlationData = packet.properties?.correlationData;
+        this.client?.publish(replyTopic, JSON.stringify(ack), {
+            qos: 1,
+            ...(correlationData && { properties: { correlationData } })
+        });
+    }
+
+    /**
+     * Validate and store a message, returning the acknowledgement payload
+     */
+    private async ingest(deviceId: string, text: string): Promise<MqttAck> {
+        let body: unknown;
+        try {
+            body = text.startsWith('{') || text.startsWith('[')
+                ? JSON.parse(text)
+                : Object.fromEntries(new URLSearchParams(text));
+        } catch {
+            this.counters.rejected++;
+            return { status: 'ERROR', message: 'Invalid JSON' };
+        }
+
+        if (Array.isArray(body)) {
+            const parsed = threePhaseIngestService.parseBatch(body);
+            if (!parsed.ok) {
+                this.counters.rejected++;
+                return { status: 'ERROR', message: parsed.message };
+            }
+            // Batches cannot carry a signature, so only devices without credentials may send them here
+            const outcome = await threePhaseIngestService.ingestBatch(deviceId, parsed.rows);
+            if (outcome.status === 'ERROR') {
+                this.counters.rejected++;
+                return { status: 'ERROR', message: outcome.message, code: outcome.code };
+            }
+            const { results, downlink } = outcome;
+            const count = (status: string) => results.filter(r => r.status === status).length;
+            this.counters.accepted += count('OK');
+            this.counters.rejected += count('ERROR');
+            this.counters.duplicates += count('DUPLICATE');
+            this.counters.quarantined += count('QUARANTINED');
+            return {
+                status: 'OK',
+                accepted: count('OK'),
+                rejected: count('ERROR'),
+                duplicates: count('DUPLICATE'),
+                quarantined: count('QUARANTINED'),
+                results,
+                ...(downlink && { downlink })
+            };
+        }
+
+        // The topic identifies the device; a `d` in the payload is ignored
+        const params: Record<string, string> = { ...toParams(body), d: deviceId };
+        const reply = await threePhaseIngestService.handleReading(params, { channel: 'mqtt', raw: text });
+
+        if (reply.status === 'ERROR') this.counters.rejected++;
+        else if ('duplicate' in reply) this.counters.duplicates++;
+        else if ('quarantined' in reply) this.counters.quarantined++;
+        else this.counters.accepted++;
+
+        // Echo ts/seq so devices can match acks to buffered readings
+        return { ...reply, ...(params.ts && { ts: Number(params.ts) }), ...(params.seq && { seq: params.seq }) };
+    }
+
+    private wantedTopics(): string[] {
+        return Array.from(new Set([this.topicTemplate.replace('{deviceId}', '+'), ...getDeviceMqttTopics().values()]));
+    }
+
+    /**
+     * Follow registry changes to device topics without a restart
+     * (a reconnect subscribes to the current list on its own)
+     */
+    private syncTopics(): void {
+        if (!this.client) return;
+
+        const wanted = this.wantedTopics();
+        const added = wanted.filter(topic => !this.topics.includes(topic));
+        const removed = this.topics.filter(topic => !wanted.includes(topic));
+        if (added.length === 0 && removed.length === 0) return;
+        this.topics = wanted;
+        if (!this.client.connected) return;
+
+        if (added.length > 0) {
+            console.log(`MQTT subscribing to ${added.join(', ')}`);
+            this.client.subscribe(added, { qos: 1 }, error => {
+                if (error) console.error('MQTT subscribe failed:', error);
+            });
+        }
+        if (removed.length > 0) {
+            console.log(`MQTT unsubscribing from ${removed.join(', ')}`);
+            this.client.unsubscribe(removed, error => {
+                if (error) console.error('MQTT unsubscribe failed:', error);
+            });
+        }
+    }
+
+    /**
+     * Device ID from a per-device topic or from the topic template
+     */
+    private deviceIdForTopic(topic: string): string | null {
+        for (const [deviceId, deviceTopic] of getDeviceMqttTopics()) {
+            if (deviceTopic === topic) return deviceId;
+        }
+
+        const [prefix, suffix] = this.topicTemplate.split('{deviceId}');
+        if (!topic.startsWith(prefix) || !topic.endsWith(suffix ?? '')) return null;
+        const deviceId = topic.slice(prefix.length, topic.length - (suffix ?? '').length);
+        return /^[a-zA-Z0-9-_]+$/.test(deviceId) ? deviceId : null;
+    }
+
+    private async startEmbeddedBroker(port: number): Promise<void> {
+        this.broker = createBroker();
+        this.server = net.createServer(this.broker.handle);
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(port, () => resolve());
+        });
+        console.log(`Embedded MQTT broker listening on port ${port}`);
+    }
+}
+
+export default new MqttIngestService();
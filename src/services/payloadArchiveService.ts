@@ -0,0 +1,79 @@
+import { storage } from '../db';
+import { StoragePoint, StorageRow } from '../storage';
+
+export type PayloadChannel =
+    | 'query'           // GET/POST /api/energy-measurement-3phase
+    | 'compact'         // positional CSV / binary payloads
+    | 'batch'           // store-and-forward batches (HTTP or MQTT)
+    | 'mqtt'            // single MQTT readings
+    | 'dashboard'       // structured ESP32 readings (POST /api/dashboard/readings)
+    | 'quarantine';     // released after review
+
+export interface ArchivedPayload {
+    deviceId: string;
+    timestamp: string;                  // reading time as stored (after clock correction)
+    channel: PayloadChannel;
+    receivedAt: string;
+    params: Record<string, string>;     // the reading's parameters as received (short names)
+    raw: string;                        // request body / query string / MQTT message ('' for batch rows)
+}
+
+const MEASUREMENT = 'raw_payload';
+const FIELDS = ['device_id', 'channel', 'params', 'raw', 'received_at'];
+
+/**
+ * Raw Payload Archive
+ * Every accepted reading is archived verbatim next to its derived points,
+ * in the same ingestion queue entry, so readings can be re-derived later
+ * with the current ingestion logic (see reprocessService). Points are
+ * stamped with the stored reading time, so a time range of readings maps
+ * to a time range of the archive.
+ */
+class PayloadArchiveService {
+    toPoint(payload: ArchivedPayload): StoragePoint {
+        return {
+            measurement: MEASUREMENT,
+            tags: { device_id: payload.deviceId, channel: payload.channel },
+            fields: {
+                params: JSON.stringify(payload.params),
+                raw: payload.raw,
+                received_at: payload.receivedAt
+            },
+            timestamp: new Date(payload.timestamp)
+        };
+    }
+
+    /**
+     * A device's archived readings in [from, to), oldest first
+     */
+    async list(deviceId: string, from: Date, to: Date): Promise<ArchivedPayload[]> {
+        try {
+            const rows = await storage.queryRange({
+                measurement: MEASUREMENT,
+                fields: FIELDS,
+                where: { device_id: deviceId },
+                from,
+                to,
+                order: 'asc'
+            });
+            return rows.map(row => this.toPayload(row));
+        } catch (error) {
+            // Nothing archived yet; anything else must not read as an empty archive
+            if (storage.isMissing(error)) return [];
+            throw error;
+        }
+    }
+
+    private toPayload(row: StorageRow): ArchivedPayload {
+        return {
+            deviceId: row.device_id,
+            timestamp: new Date(row.time).toISOString(),
+            channel: row.channel,
+            receivedAt: row.received_at,
+            params: JSON.parse(row.params || '{}'),
+            raw: row.raw || ''
+        };
+    }
+}
+
+export default new PayloadArchiveService();
@@ -0,0 +1,157 @@
+import { ThreePhaseReadings } from '../types';
+import { getDeviceById } from '../middleware/auth';
+import { createJsonStore } from '../utils/jsonStore';
+
+export interface PlausibilityLimits {
+    nominalVoltage: number;         // V, phase to neutral
+    voltageTolerancePct: number;    // accepted band around nominal
+    ctRatingA: number;              // current transformer rating
+    overloadFactor: number;         // max current = ctRatingA x overloadFactor
+    allowNegativePower: boolean;    // export / solar sites
+    consistencyTolerancePct: number;
+    consistencyToleranceW: number;  // absolute floor so near-zero loads don't trip the % check
+}
+
+export type PlausibilityRule =
+    | 'voltage_band'
+    | 'max_current'
+    | 'negative_power'
+    | 'phase_power_consistency'
+    | 'total_power_consistency'
+    | 'total_current_consistency';
+
+export interface PlausibilityViolation {
+    rule: PlausibilityRule;
+    phase?: '1' | '2' | '3';
+    value: number;
+    expected: string;               // human readable limit, e.g. "195.5-264.5 V"
+}
+
+export const DEFAULT_PLAUSIBILITY_LIMITS: PlausibilityLimits = {
+    nominalVoltage: 230,
+    voltageTolerancePct: 15,
+    ctRatingA: 100,
+    overloadFactor: 1.2,
+    allowNegativePower: false,
+    consistencyTolerancePct: 10,
+    consistencyToleranceW: 50
+};
+
+const PHASES = ['1', '2', '3'] as const;
+
+/**
+ * Plausibility Service
+ * Rules-based sanity checks on a prepared reading, run before it is stored.
+ * Limits are the defaults, overridden by the device record's `plausibility`
+ * settings and then by limits set through the admin API.
+ * Consistency rules only compare measured values - derived ones agree by
+ * construction.
+ */
+class PlausibilityService {
+    private overrides = createJsonStore<Record<string, Partial<PlausibilityLimits>>>('plausibility-limits.json', () => ({}));
+
+    getLimits(deviceId: string): PlausibilityLimits {
+        return {
+            ...DEFAULT_PLAUSIBILITY_LIMITS,
+            ...(getDeviceById(deviceId)?.plausibility || {}),
+            ...(this.overrides.read()[deviceId] || {})
+        };
+    }
+
+    /**
+     * Store per-device overrides (merged into existing ones); null clears them
+     */
+    setLimits(deviceId: string, limits: Partial<PlausibilityLimits> | null): PlausibilityLimits {
+        const overrides = this.overrides.read();
+        if (limits === null) {
+            delete overrides[deviceId];
+        } else {
+            overrides[deviceId] = { ...(overrides[deviceId] || {}), ...limits };
+        }
+        this.overrides.write(overrides);
+        return this.getLimits(deviceId);
+    }
+
+    /**
+     * Validate limit overrides from the API; returns an error message or null
+     */
+    validateLimits(limits: Record<string, unknown>): string | null {
+        for (const [key, value] of Object.entries(limits)) {
+            if (!(key in DEFAULT_PLAUSIBILITY_LIMITS)) return `Unknown limit ${key}`;
+            const expected = typeof DEFAULT_PLAUSIBILITY_LIMITS[key as keyof PlausibilityLimits];
+            if (typeof value !== expected) return `${key} must be a ${expected}`;
+            if (expected === 'number' && !((value as number) >= 0 && Number.isFinite(value))) {
+                return `${key} must be a non-negative number`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Rule violations of a reading (empty when plausible)
+     */
+    check(deviceId: string, readings: ThreePhaseReadings): PlausibilityViolation[] {
+        const limits = this.getLimits(deviceId);
+        const violations: PlausibilityViolation[] = [];
+
+        const minVoltage = round(limits.nominalVoltage * (1 - limits.voltageTolerancePct / 100));
+        const maxVoltage = round(limits.nominalVoltage * (1 + limits.voltageTolerancePct / 100));
+        const maxCurrent = round(limits.ctRatingA * limits.overloadFactor);
+
+        for (const phase of PHASES) {
+            const reading = readings.phases[phase];
+            const measured = (field: string) => reading.provenance?.[field] === 'measured';
+
+            if (reading.voltage < minVoltage || reading.voltage > maxVoltage) {
+                violations.push({ rule: 'voltage_band', phase, value: reading.voltage, expected: `${minVoltage}-${maxVoltage} V` });
+            }
+            if (Math.abs(reading.current) > maxCurrent) {
+                violations.push({ rule: 'max_current', phase, value: reading.current, expected: `<= ${maxCurrent} A` });
+            }
+            if (!limits.allowNegativePower && reading.power < 0) {
+                violations.push({ rule: 'negative_power', phase, value: reading.power, expected: '>= 0 W' });
+            }
+
+            if (measured('power') && measured('voltage') && measured('current') && measured('power_factor')) {
+                const computed = reading.voltage * reading.current * reading.powerFactor;
+                if (!withinTolerance(reading.power, computed, limits)) {
+                    violations.push({ rule: 'phase_power_consistency', phase, value: reading.power, expected: `~${round(computed)} W (V x I x PF)` });
+                }
+            }
+        }
+
+        const total = readings.total;
+        const phases = PHASES.map(phase => readings.phases[phase]);
+        const allMeasured = (field: string) => phases.every(p => p.provenance?.[field] === 'measured');
+
+        if (total.provenance?.power === 'measured' && allMeasured('power')) {
+            const sum = phases.reduce((acc, p) => acc + p.power, 0);
+            if (!withinTolerance(total.power, sum, limits)) {
+                violations.push({ rule: 'total_power_consistency', value: total.power, expected: `~${round(sum)} W (phase sum)` });
+            }
+        }
+        if (total.provenance?.current === 'measured' && allMeasured('current')) {
+            const sum = phases.reduce((acc, p) => acc + p.current, 0);
+            // Same relative tolerance; the absolute floor is converted at nominal voltage
+            const floorA = limits.consistencyToleranceW / limits.nominalVoltage;
+            if (Math.abs(total.current - sum) > Math.max(floorA, Math.abs(sum) * limits.consistencyTolerancePct / 100)) {
+                violations.push({ rule: 'total_current_consistency', value: total.current, expected: `~${round(sum)} A (phase sum)` });
+            }
+        }
+
+        return violations;
+    }
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const withinTolerance = (actual: number, expected: number, limits: PlausibilityLimits): boolean =>
+    Math.abs(actual - expected) <= Math.max(limits.consistencyToleranceW, Math.abs(expected) * limits.consistencyTolerancePct / 100);
+
+/**
+ * One-line reason, e.g. "voltage_band (phase 2): 0, expected 195.5-264.5 V"
+ */
+export const describeViolation = (violation: PlausibilityViolation): string =>
+    `${violation.rule}${violation.phase ? ` (phase ${violation.phase})` : ''}: ${violation.value}, expected ${violation.expected}`;
+
+export default new PlausibilityService();
@@ -1,5 +1,8 @@
-import { Point } from '@influxdata/influxdb3-client';
-import { influxClient, database } from '../db';
+import { storage } from '../db';
+import { StoragePoint } from '../storage';
+import { Provenance } from '../types';
+import ingestionQueue from './ingestionQueue';
+import { ENERGY_MEASUREMENT_PROVENANCE_FIELDS, summarizeProvenance } from '../utils/provenance';
 
 export interface PowerData {
     voltage: number;      // Average voltage in Volts (V) over the measurement period
@@ -17,6 +20,8 @@ export interface EnergyMeasurement {
     v_min?: number;       // Minimum RMS voltage in minute (volts) (generated if missing)
     v_max?: number;       // Maximum RMS voltage in minute (volts) (generated if missing)
     p_peak?: number;      // Highest instantaneous real power in minute (watts) (generated if missing)
+    energy_method?: string; // How e_Wh was obtained when the device did not send it (trapezoidal, gap_capped, ...)
+    provenance?: Partial<Record<string, Provenance>>;  // measured / derived / defaulted per field above
 }
 
 class PowerMonitorService {
@@ -31,22 +36,31 @@ class PowerMonitorService {
     }
 
     /**
-     * Send power data to InfluxDB
+     * Build a power_usage point from voltage and charge
+     * Always uses server time for consistency (as per requirement)
+     */
+    private toPowerUsagePoint(data: PowerData): StoragePoint {
+        return {
+            measurement: 'power_usage',
+            tags: {},
+            fields: {
+                voltage: data.voltage,
+                charge: data.charge,
+                energy_wh: this.calculateEnergy(data.voltage, data.charge)
+            },
+            timestamp: new Date()
+        };
+    }
+
+    /**
+     * Send power data to storage
      * Stores voltage (V), charge (C), and calculated energy (Wh)
      */
     async sendPowerData(data: PowerData): Promise<void> {
         try {
             const energyWh = this.calculateEnergy(data.voltage, data.charge);
-            
-            const point = Point.measurement('power_usage')
-                .setFloatField('voltage', data.voltage)
-                .setFloatField('charge', data.charge)
-                .setFloatField('energy_wh', energyWh);
 
-            // Always use server time for consistency (as per requirement)
-            point.setTimestamp(new Date());
-
-            await influxClient.write(point, database);
+            await storage.write([this.toPowerUsagePoint(data)]);
             console.log(`Energy data sent: ${energyWh.toFixed(4)}Wh (${data.voltage}V × ${data.charge}C)`);
         } catch (error) {
             console.error('Error sending power data:', error);
@@ -55,53 +69,65 @@ class PowerMonitorService {
     }
 
     /**
-     * Send detailed energy measurement data to InfluxDB
-     * Stores comprehensive power quality metrics
+     * Send detailed energy measurement data to storage
+     * Stores comprehensive power quality metrics via the durable ingestion queue
      */
     async sendEnergyMeasurement(data: EnergyMeasurement): Promise<void> {
         try {
             // Ensure all required fields are present (should be generated by endpoint)
             const timestamp = new Date((data.ts || Date.now() / 1000) * 1000);
-
-            const point = Point.measurement('energy_measurement')
-                .setFloatField('energy_wh', data.e_Wh!)
-                .setFloatField('power_w', data.p_W!)
-                .setFloatField('voltage_rms', data.v_rms!)
-                .setFloatField('current_rms', data.i_rms!)
-                .setFloatField('power_factor', data.pf!)
-                .setFloatField('voltage_min', data.v_min!)
-                .setFloatField('voltage_max', data.v_max!)
-                .setFloatField('power_peak', data.p_peak!);
-
-            point.setTimestamp(timestamp);
-
-            await influxClient.write(point, database);
-            console.log(`Energy measurement sent: ${data.e_Wh}Wh at ${timestamp.toISOString()}`);
+            const provenance = data.provenance && summarizeProvenance(ENERGY_MEASUREMENT_PROVENANCE_FIELDS, data.provenance);
+
+            await ingestionQueue.enqueue([{
+                measurement: 'energy_measurement',
+                tags: {},
+                fields: {
+                    energy_wh: data.e_Wh!,
+                    power_w: data.p_W!,
+                    voltage_rms: data.v_rms!,
+                    current_rms: data.i_rms!,
+                    power_factor: data.pf!,
+                    voltage_min: data.v_min!,
+                    voltage_max: data.v_max!,
+                    power_peak: data.p_peak!,
+                    ...(data.energy_method && { energy_method: data.energy_method }),
+                    ...(provenance && {
+                        quality: provenance.quality,
+                        energy_quality: data.provenance!.e_Wh || 'measured',
+                        derived_mask: provenance.derivedMask,
+                        defaulted_mask: provenance.defaultedMask
+                    })
+                },
+                timestamp
+            }]);
+            console.log(`Energy measurement queued: ${data.e_Wh}Wh at ${timestamp.toISOString()}`);
         } catch (error) {
             console.error('Error sending energy measurement:', error);
             throw error;
         }
     }
 
+    /**
+     * Last stored energy measurement power sample before the given time
+     */
+    async getLastPowerSample(before: Date): Promise<{ time: number; powerW: number } | null> {
+        const rows = await storage.queryRange({
+            measurement: 'energy_measurement',
+            fields: ['power_w'],
+            since: '1 day',
+            to: before,
+            order: 'desc',
+            limit: 1
+        });
+        return rows.length > 0 ? { time: rows[0].time.getTime(), powerW: rows[0].power_w } : null;
+    }
+
     /**
      * Send multiple power readings at once
      */
     async sendBatchPowerData(dataArray: PowerData[]): Promise<void> {
         try {
-            const points = dataArray.map(data => {
-                const energyWh = this.calculateEnergy(data.voltage, data.charge);
-                const point = Point.measurement('power_usage')
-                    .setFloatField('voltage', data.voltage)
-                    .setFloatField('charge', data.charge)
-                    .setFloatField('energy_wh', energyWh);
-
-                // Always use server time
-                point.setTimestamp(new Date());
-
-                return point;
-            });
-
-            await influxClient.write(points, database);
+            await storage.write(dataArray.map(data => this.toPowerUsagePoint(data)));
             console.log(`Batch of ${dataArray.length} energy readings sent`);
         } catch (error) {
             console.error('Error sending batch power data:', error);
@@ -114,19 +140,12 @@ class PowerMonitorService {
      */
     async getPowerUsage(timeRange: string = '1h'): Promise<any[]> {
         try {
-            const query = `SELECT time, voltage, charge, energy_wh 
-                          FROM power_usage 
-                          WHERE time >= now() - INTERVAL '${timeRange}'
-                          ORDER BY time DESC`;
-
-            const result = await influxClient.query(query, database);
-            const data = [];
-            
-            for await (const row of result) {
-                data.push(row);
-            }
-            
-            return data;
+            return await storage.queryRange({
+                measurement: 'power_usage',
+                fields: ['voltage', 'charge', 'energy_wh'],
+                since: timeRange,
+                order: 'desc'
+            });
         } catch (error) {
             console.error('Error querying power usage:', error);
             throw error;
@@ -138,20 +157,14 @@ class PowerMonitorService {
      */
     async getPowerUsageRange(fromIso: string, toIso: string): Promise<any[]> {
         try {
-            const query = `SELECT time, voltage, charge, energy_wh
-                           FROM power_usage
-                           WHERE time >= '${fromIso}'
-                             AND time <= '${toIso}'
-                           ORDER BY time ASC`;
-
-            const result = await influxClient.query(query, database);
-            const data = [];
-
-            for await (const row of result) {
-                data.push(row);
-            }
-
-            return data;
+            // 'to' is inclusive for this endpoint
+            return await storage.queryRange({
+                measurement: 'power_usage',
+                fields: ['voltage', 'charge', 'energy_wh'],
+                from: new Date(fromIso),
+                to: new Date(new Date(toIso).getTime() + 1),
+                order: 'asc'
+            });
         } catch (error) {
             console.error('Error querying power usage range:', error);
             throw error;
@@ -164,13 +177,13 @@ class PowerMonitorService {
      */
     async getTotalEnergyConsumption(timeRange: string = '24h'): Promise<number> {
         try {
-            const query = `SELECT SUM(energy_wh) as total_wh 
-                          FROM power_usage 
-                          WHERE time >= now() - INTERVAL '${timeRange}'`;
+            const result = await storage.aggregate({
+                measurement: 'power_usage',
+                aggregates: { total_wh: { fn: 'sum', field: 'energy_wh' } },
+                since: timeRange
+            });
 
-            const result = await influxClient.query(query, database);
-            
-            for await (const row of result) {
+            for (const row of result) {
                 const totalWh = row.total_wh || 0;
                 return totalWh / 1000; // Convert Wh to kWh
             }
@@ -188,18 +201,15 @@ class PowerMonitorService {
      */
     async getAllVoltageAndCharge(limit?: number): Promise<any[]> {
         try {
-            let query = `SELECT time, voltage, charge 
-                        FROM power_usage 
-                        ORDER BY time DESC`;
-            
-            if (limit) {
-                query += ` LIMIT ${limit}`;
-            }
-
-            const result = await influxClient.query(query, database);
+            const result = await storage.queryRange({
+                measurement: 'power_usage',
+                fields: ['voltage', 'charge'],
+                order: 'desc',
+                limit
+            });
             const data = [];
-            
-            for await (const row of result) {
+
+            for (const row of result) {
                 data.push({
                     time: row.time,
                     voltage: row.voltage,
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { storage } from '../db';
+import { StoragePoint, StorageRow } from '../storage';
+import { createKeyedLock } from '../utils/keyedLock';
+import { PlausibilityViolation, describeViolation } from './plausibilityService';
+import { ThreePhaseInput } from './threePhaseIngestService';
+
+export type QuarantineStatus = 'pending' | 'released' | 'discarded';
+
+export const QUARANTINE_STATUSES: QuarantineStatus[] = ['pending', 'released', 'discarded'];
+
+// A reading that failed plausibility checks, before it is stored
+export interface QuarantineCandidate {
+    deviceId: string;
+    timestamp: string;              // reading time (ISO)
+    input: ThreePhaseInput;         // as received, with the resolved ts
+    violations: PlausibilityViolation[];
+}
+
+export interface QuarantineEntry extends QuarantineCandidate {
+    id: string;
+    status: QuarantineStatus;
+    reasons: string[];
+    quarantinedAt: string;
+    reviewedAt: string | null;
+}
+
+// Reading times to search; the last QUARANTINE_WINDOW when neither bound is given
+export interface QuarantineRange {
+    deviceId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+export interface QuarantineQuery extends QuarantineRange {
+    status?: QuarantineStatus;
+    limit?: number;
+}
+
+const MEASUREMENT = 'three_phase_quarantine';
+const FIELDS = ['device_id', 'quarantine_id', 'status', 'violations', 'input', 'quarantined_at', 'reviewed_at'];
+const QUARANTINE_WINDOW = '30 days';
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Quarantine Service
+ * Readings that fail plausibility checks are kept in their own measurement
+ * instead of `three_phase_energy`, with the reasons, until someone releases
+ * (stores) or discards them. Entries are written straight to storage rather
+ * than through the ingestion queue, so a status change is never overtaken by
+ * an older queued write of the same point.
+ */
+class QuarantineService {
+    /**
+     * Serializes release/discard of the same entry
+     */
+    readonly exclusive = createKeyedLock();
+
+    async add(candidate: QuarantineCandidate): Promise<QuarantineEntry> {
+        const [entry] = await this.addAll([candidate]);
+        return entry;
+    }
+
+    /**
+     * Quarantine many readings of one device in one write (batch uploads)
+     */
+    async addAll(candidates: QuarantineCandidate[]): Promise<QuarantineEntry[]> {
+        if (candidates.length === 0) return [];
+        const quarantinedAt = new Date().toISOString();
+        const entries: QuarantineEntry[] = candidates.map(candidate => ({
+            ...candidate,
+            id: crypto.randomBytes(8).toString('hex'),
+            status: 'pending',
+            reasons: candidate.violations.map(describeViolation),
+            quarantinedAt,
+            reviewedAt: null
+        }));
+        await storage.write(entries.map(entry => this.toPoint(entry)));
+        for (const entry of entries) {
+            console.warn(`Reading from ${entry.deviceId} at ${entry.timestamp} quarantined: ${entry.reasons.join('; ')}`);
+        }
+        return entries;
+    }
+
+    /**
+     * Newest first, at most `limit` (100 by default). Status is a field, so
+     * with a status filter rows are read page by page until enough match.
+     */
+    async list(query: QuarantineQuery): Promise<QuarantineEntry[]> {
+        const limit = query.limit ?? DEFAULT_LIMIT;
+        const pageSize = query.status ? Math.max(limit, DEFAULT_LIMIT) : limit;
+        const entries: QuarantineEntry[] = [];
+        const seen = new Set<string>();
+        let range = this.toRange(query);
+
+        while (entries.length < limit) {
+            const rows = await storage.queryRange({
+                measurement: MEASUREMENT,
+                fields: FIELDS,
+                where: query.deviceId ? { device_id: query.deviceId } : undefined,
+                ...range,
+                order: 'desc',
+                limit: pageSize
+            });
+
+            let added = 0;
+            for (const row of rows) {
+                if (seen.has(row.quarantine_id)) continue;
+                seen.add(row.quarantine_id);
+                added++;
+                const entry = this.toEntry(row);
+                if (!query.status || entry.status === query.status) entries.push(entry);
+            }
+            if (rows.length < pageSize || added === 0) break;
+
+            // `to` is exclusive; rows sharing the oldest time are read again and skipped
+            range = { ...range, to: new Date(new Date(rows[rows.length - 1].time).getTime() + 1) };
+        }
+        return entries.slice(0, limit);
+    }
+
+    /**
+     * Entries outside the default window need the range they fall in
+     */
+    async get(id: string, range: QuarantineRange = {}): Promise<QuarantineEntry | null> {
+        const rows = await storage.queryRange({
+            measurement: MEASUREMENT,
+            fields: FIELDS,
+            where: { quarantine_id: id, ...(range.deviceId && { device_id: range.deviceId }) },
+            ...this.toRange(range),
+            limit: 1
+        });
+        return rows.length > 0 ? this.toEntry(rows[0]) : null;
+    }
+
+    /**
+     * Record the review outcome (rewrites the point with the same tags and time)
+     */
+    async setStatus(entry: QuarantineEntry, status: QuarantineStatus): Promise<QuarantineEntry> {
+        const updated: QuarantineEntry = { ...entry, status, reviewedAt: new Date().toISOString() };
+        await storage.write([this.toPoint(updated)]);
+        return updated;
+    }
+
+    private toRange(range: QuarantineRange): { from?: Date; to?: Date; since?: string } {
+        if (range.from || range.to) return { from: range.from, to: range.to };
+        return { since: QUARANTINE_WINDOW };
+    }
+
+    private toPoint(entry: QuarantineEntry): StoragePoint {
+        return {
+            measurement: MEASUREMENT,
+            tags: { device_id: entry.deviceId, quarantine_id: entry.id },
+            fields: {
+                status: entry.status,
+                violations: JSON.stringify(entry.violations),
+                input: JSON.stringify(entry.input),
+                quarantined_at: entry.quarantinedAt,
+                reviewed_at: entry.reviewedAt || ''
+            },
+            timestamp: new Date(entry.timestamp)
+        };
+    }
+
+    private toEntry(row: StorageRow): QuarantineEntry {
+        const violations: PlausibilityViolation[] = JSON.parse(row.violations || '[]');
+        return {
+            id: row.quarantine_id,
+            deviceId: row.device_id,
+            timestamp: new Date(row.time).toISOString(),
+            status: row.status,
+            reasons: violations.map(describeViolation),
+            violations,
+            input: JSON.parse(row.input || '{}'),
+            quarantinedAt: row.quarantined_at,
+            reviewedAt: row.reviewed_at || null
+        };
+    }
+}
+
+export default new QuarantineService();
@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { storage } from '../db';
+import { ThreePhaseReadings } from '../types';
+import dedupService from './dedupService';
+import energyIntegrationService from './energyIntegrationService';
+import energyRegisterService from './energyRegisterService';
+import payloadArchiveService, { PayloadChannel } from './payloadArchiveService';
+import rollupService from './rollupService';
+import threePhaseIngestService from './threePhaseIngestService';
+import threePhasePowerService from './threePhasePowerService';
+
+type Channel = '1' | '2' | '3' | 'total';
+
+export type EnergyTotals = Record<Channel, number>;
+
+export interface ReprocessChange {
+    timestamp: string;
+    before: EnergyTotals;
+    after: EnergyTotals;
+}
+
+export interface ReprocessSkip {
+    timestamp: string;
+    channel: PayloadChannel;
+    reason: string;
+}
+
+export interface ReprocessReport {
+    deviceId: string;
+    from: string;
+    to: string;
+    dryRun: boolean;
+    archived: number;           // archived readings in the range
+    reprocessed: number;
+    changed: number;            // readings whose energy differs
+    unarchived: number;         // stored readings without an archived payload, left as they are
+    skipped: ReprocessSkip[];
+    energy: { before: EnergyTotals; after: EnergyTotals; deltaWh: EnergyTotals };   // over the reprocessed readings
+    changes: ReprocessChange[]; // first REPORT_MAX_CHANGES
+    rollupDays: number;         // days of rollups recomputed (0 for a dry run)
+}
+
+
+const CHANNELS: Channel[] = ['1', '2', '3', 'total'];
+const REPORT_MAX_CHANGES = 100;
+const ENERGY_EPSILON_WH = 1e-6;
+
+/**
+ * Reprocessing Service
+ * Replays a device's archived payloads for a time range through the current
+ * ingestion logic (derivation, energy integration, register deltas) and
+ * rewrites the derived points and rollups, or only reports how energy would
+ * change (dry run). Readings keep their stored time; plausibility rules are
+ * not applied again. Integration and register state is kept apart from live
+ * ingestion and starts from the readings stored before the range.
+ */
+class ReprocessService {
+    async reprocess(deviceId: string, from: Date, to: Date, dryRun: boolean): Promise<ReprocessReport> {
+        // Live readings of the device in this process wait, so none lands between the read
+        // and the rewrite (the reprocess CLI calls the server's route for the same reason)
+        return dedupService.exclusive(deviceId, async (): Promise<ReprocessReport> => {
+            const payloads = await payloadArchiveService.list(deviceId, from, to);
+            const stored = await this.loadStored(deviceId, from, to);
+            const scope = `reprocess:${crypto.randomBytes(4).toString('hex')}:`;
+
+            const report: ReprocessReport = {
+                deviceId,
+                from: from.toISOString(),
+                to: to.toISOString(),
+                dryRun,
+                archived: payloads.length,
+                reprocessed: 0,
+                changed: 0,
+                unarchived: 0,
+                skipped: [],
+                energy: { before: emptyTotals(), after: emptyTotals(), deltaWh: emptyTotals() },
+                changes: [],
+                rollupDays: 0
+            };
+            const rewrites: ThreePhaseReadings[] = [];
+            const archivedTimes = new Set<number>();
+
+            try {
+                for (const payload of payloads) {
+                    const time = new Date(payload.timestamp).getTime();
+                    const skip = (reason: string) => report.skipped.push({ timestamp: payload.timestamp, channel: payload.channel, reason });
+
+                    if (archivedTimes.has(time)) {
+                        skip('Another archived payload has the same reading time');
+                        continue;
+                    }
+                    archivedTimes.add(time);
+
+                    if (Object.keys(payload.params).length === 0) {
+                        // Structured readings were archived without their parameters before they were converted
+                        skip('Archived without reading parameters');
+                        continue;
+                    }
+                    const before = stored.get(time);
+                    if (!before) {
+                        skip('No stored reading at this time');
+                        continue;
+                    }
+
+                    const result = await threePhaseIngestService.prepare(
+                        { ...threePhaseIngestService.parseQuery(payload.params), deviceId, ts: time / 1000 },
+                        { strictTimestamp: true, maxAgeSeconds: Infinity, skipPlausibility: true, clock: 'none', energyScope: scope }
+                    );
+                    if (!result.ok) {
+                        skip(result.message);
+                        continue;
+                    }
+
+                    const after = energyOf(result.readings);
+                    report.reprocessed++;
+                    for (const channel of CHANNELS) {
+                        report.energy.before[channel] += before[channel];
+                        report.energy.after[channel] += after[channel];
+                    }
+                    if (CHANNELS.some(channel => Math.abs(after[channel] - before[channel]) > ENERGY_EPSILON_WH)) {
+                        report.changed++;
+                        if (report.changes.length < REPORT_MAX_CHANGES) {
+                            report.changes.push({ timestamp: payload.timestamp, before, after });
+                        }
+                    }
+                    rewrites.push(result.readings);
+                }
+            } finally {
+                energyIntegrationService.forget(scope);
+                energyRegisterService.forget(scope);
+            }
+
+            report.unarchived = Array.from(stored.keys()).filter(time => !archivedTimes.has(time)).length;
+            for (const channel of CHANNELS) {
+                report.energy.deltaWh[channel] = report.energy.after[channel] - report.energy.before[channel];
+            }
+
+            if (!dryRun && rewrites.length > 0) {
+                await threePhasePowerService.rewrite3PhaseReadings(deviceId, rewrites);
+                report.rollupDays = await rollupService.recomputeSpan(
+                    deviceId,
+                    new Date(rewrites[0].timestamp),
+                    new Date(rewrites[rewrites.length - 1].timestamp)
+                );
+            }
+
+            console.log(`Reprocessed ${report.reprocessed} readings of ${deviceId} (${report.changed} changed${dryRun ? ', dry run' : ''})`);
+            return report;
+        });
+    }
+
+    /**
+     * Stored energy of a device's readings in [from, to), by time
+     */
+    private async loadStored(deviceId: string, from: Date, to: Date): Promise<Map<number, EnergyTotals>> {
+        const readings = new Map<number, EnergyTotals>();
+        const get = (time: Date) => {
+            const key = time.getTime();
+            if (!readings.has(key)) readings.set(key, emptyTotals());
+            return readings.get(key)!;
+        };
+
+        const totals = await storage.queryRange({
+            measurement: 'three_phase_total',
+            fields: ['total_energy_wh'],
+            where: { device_id: deviceId },
+            from,
+            to
+        });
+        for (const row of totals) {
+            get(row.time).total = Number(row.total_energy_wh) || 0;
+        }
+
+        const phases = await storage.queryRange({
+            measurement: 'three_phase_energy',
+            fields: ['phase', 'energy_wh'],
+            where: { device_id: deviceId, phase: ['1', '2', '3'] },
+            from,
+            to
+        });
+        for (const row of phases) {
+            get(row.time)[row.phase as Channel] = Number(row.energy_wh) || 0;
+        }
+
+        return readings;
+    }
+}
+
+const emptyTotals = (): EnergyTotals => ({ '1': 0, '2': 0, '3': 0, total: 0 });
+
+const energyOf = (readings: ThreePhaseReadings): EnergyTotals => ({
+    '1': readings.phases['1'].energy_wh,
+    '2': readings.phases['2'].energy_wh,
+    '3': readings.phases['3'].energy_wh,
+    total: readings.total.energy_wh
+});
+
+export default new ReprocessService();
@@ -0,0 +1,382 @@
+import { storage } from '../db';
+import { StoragePoint, StorageRow } from '../storage';
+import ingestionQueue from './ingestionQueue';
+import { createJsonStore } from '../utils/jsonStore';
+import { DEFAULT_TIMEZONE, shiftDate, zonedDateString, zonedDayRange, zonedDayStart } from '../utils/timezone';
+
+export type RollupResolution = '15m' | '1h' | '1d';
+
+export interface RollupRow {
+    time: Date;
+    phase: string;              // '1', '2', '3' or 'total'
+    energy_wh: number;
+    voltage_avg: number;
+    voltage_min: number;
+    voltage_max: number;
+    current_avg: number;
+    current_min: number;
+    current_max: number;
+    power_avg: number;
+    power_min: number;
+    power_max: number;
+    power_factor_avg: number | null;
+    power_factor_min: number | null;
+    power_factor_max: number | null;
+    max_demand_w: number;       // highest 15-minute average power in the bucket
+    sample_count: number;
+}
+
+const ROLLUP_MEASUREMENT = 'three_phase_rollup';
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const ROLLUP_FIELDS = [
+    'energy_wh',
+    'voltage_avg', 'voltage_min', 'voltage_max',
+    'current_avg', 'current_min', 'current_max',
+    'power_avg', 'power_min', 'power_max',
+    'power_factor_avg', 'power_factor_min', 'power_factor_max',
+    'max_demand_w', 'sample_count'
+];
+
+/**
+ * Continuous Rollup Service
+ * Maintains per-device, per-phase 15-minute, hourly and daily aggregates of
+ * three-phase readings. 15-minute buckets are computed from raw data; hourly
+ * and daily buckets are combined from the 15-minute ones. Hour and day
+ * boundaries follow ROLLUP_TIMEZONE (default DEFAULT_TIMEZONE).
+ * Buckets not yet recomputed are kept in rollup-dirty.json, so readings
+ * stored just before a restart are still rolled up after it.
+ */
+class RollupService {
+    private timeZone = process.env.ROLLUP_TIMEZONE || DEFAULT_TIMEZONE;
+    private flushIntervalMs = parseInt(process.env.ROLLUP_FLUSH_INTERVAL_MS || '60000', 10);
+    private store = createJsonStore<Record<string, number[]>>('rollup-dirty.json', () => ({}));
+    private dirty = new Map<string, Set<number>>();
+    private recomputing = new Map<string, Set<number>>();   // taken by the running flush
+    private loaded = false;
+    private timer: NodeJS.Timeout | null = null;
+    private flushing: Promise<void> | null = null;
+
+    /**
+     * Start periodic recomputation of buckets touched by new readings
+     */
+    start(): void {
+        if (this.timer) return;
+
+        // Recompute buckets once the queued readings have reached storage
+        this.load();
+        ingestionQueue.onFlushed(points => {
+            const totals = points.filter(point => point.measurement === 'three_phase_total');
+            for (const point of totals) {
+                this.markDirty(point.tags.device_id, point.timestamp);
+            }
+            if (totals.length > 0) this.save();
+        });
+
+        this.timer = setInterval(() => {
+            this.flush().catch(error => console.error('Error flushing rollups:', error));
+        }, this.flushIntervalMs);
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Mark the 15-minute bucket containing a reading as needing recomputation
+     */
+    markDirty(deviceId: string, timestamp: Date): void {
+        this.load();
+        if (!this.dirty.has(deviceId)) this.dirty.set(deviceId, new Set());
+        this.dirty.get(deviceId)!.add(Math.floor(timestamp.getTime() / QUARTER_HOUR_MS) * QUARTER_HOUR_MS);
+    }
+
+    /**
+     * Recompute every dirty bucket and the hours/days that contain them
+     */
+    async flush(): Promise<void> {
+        if (this.flushing) return this.flushing;
+        this.load();
+
+        const pending = this.dirty;
+        this.dirty = new Map();
+        this.recomputing = pending;
+
+        this.flushing = (async () => {
+            const failed: string[] = [];
+            let lastError: unknown;
+            for (const [deviceId, buckets] of pending) {
+                try {
+                    for (const bucket of buckets) {
+                        await this.recompute15m(deviceId, new Date(bucket), new Date(bucket + QUARTER_HOUR_MS));
+                    }
+                    await this.recomputeCoarse(deviceId, Array.from(buckets).map(b => new Date(b)));
+                } catch (error) {
+                    // Put the buckets back so the next flush retries them, and go on with the other devices
+                    for (const bucket of buckets) this.markDirty(deviceId, new Date(bucket));
+                    failed.push(deviceId);
+                    lastError = error;
+                }
+            }
+            if (failed.length > 0) {
+                const message = lastError instanceof Error ? lastError.message : String(lastError);
+                throw new Error(`Rollup recompute failed for ${failed.join(', ')} (will retry): ${message}`);
+            }
+        })();
+
+        try {
+            await this.flushing;
+        } finally {
+            this.flushing = null;
+            this.recomputing = new Map();
+            if (pending.size > 0) this.save();
+        }
+    }
+
+    /**
+     * Start of the earliest 15-minute bucket of a device whose rollups are
+     * out of date (readings stored since the last flush), or null
+     */
+    getStaleSince(deviceId: string): Date | null {
+        this.load();
+        const buckets = [...(this.dirty.get(deviceId) || []), ...(this.recomputing.get(deviceId) || [])];
+        return buckets.length > 0 ? new Date(Math.min(...buckets)) : null;
+    }
+
+    /**
+     * Buckets left dirty by the previous run
+     */
+    private load(): void {
+        if (this.loaded) return;
+        this.loaded = true;
+        for (const [deviceId, buckets] of Object.entries(this.store.read())) {
+            for (const bucket of buckets) this.markDirty(deviceId, new Date(bucket));
+        }
+    }
+
+    /**
+     * Persist every bucket not yet recomputed (dirty or taken by a running flush)
+     */
+    private save(): void {
+        const pending: Record<string, number[]> = {};
+        for (const source of [this.dirty, this.recomputing]) {
+            for (const [deviceId, buckets] of source) {
+                pending[deviceId] = Array.from(new Set([...(pending[deviceId] || []), ...buckets]));
+            }
+        }
+        try {
+            this.store.write(pending);
+        } catch (error) {
+            console.error('Could not persist dirty rollup buckets:', error);
+        }
+    }
+
+    /**
+     * Backfill / recompute all rollups for a device over local dates [fromDate, toDate]
+     */
+    async recomputeRange(deviceId: string, fromDate: string, toDate: string): Promise<number> {
+        let days = 0;
+        for (let date = fromDate; date <= toDate; date = shiftDate(date, 1)) {
+            const { start, end } = zonedDayRange(date, this.timeZone);
+            await this.recompute15m(deviceId, start, end);
+
+            const quarters: Date[] = [];
+            for (let t = start.getTime(); t < end.getTime(); t += QUARTER_HOUR_MS) {
+                quarters.push(new Date(t));
+            }
+            await this.recomputeCoarse(deviceId, quarters);
+            days++;
+        }
+        return days;
+    }
+
+    /**
+     * Recompute all rollups for a device over the local dates spanned by [from, to]
+     */
+    async recomputeSpan(deviceId: string, from: Date, to: Date): Promise<number> {
+        return this.recomputeRange(deviceId, zonedDateString(from, this.timeZone), zonedDateString(to, this.timeZone));
+    }
+
+    /**
+     * Read rollup rows for a device
+     */
+    async getRollups(
+        deviceId: string,
+        resolution: RollupResolution,
+        phase: string,
+        window: { since?: string; from?: Date; to?: Date }
+    ): Promise<RollupRow[]> {
+        const rows = await storage.queryRange({
+            measurement: ROLLUP_MEASUREMENT,
+            fields: ['phase', ...ROLLUP_FIELDS],
+            where: { device_id: deviceId, resolution, phase },
+            ...window,
+            order: 'asc'
+        });
+        return rows as RollupRow[];
+    }
+
+    /**
+     * Combine rollup rows into one (energy summed, averages weighted by sample count)
+     */
+    combine(rows: RollupRow[], time: Date, phase: string): RollupRow {
+        const samples = rows.reduce((sum, r) => sum + (r.sample_count || 0), 0);
+        const weighted = (field: keyof RollupRow) => {
+            const withValue = rows.filter(r => r[field] !== null && r[field] !== undefined);
+            const weight = withValue.reduce((sum, r) => sum + r.sample_count, 0);
+            return weight > 0
+                ? withValue.reduce((sum, r) => sum + (r[field] as number) * r.sample_count, 0) / weight
+                : null;
+        };
+        const extreme = (field: keyof RollupRow, fn: (a: number, b: number) => number) => {
+            const values = rows.map(r => r[field]).filter((v): v is number => typeof v === 'number');
+            return values.length > 0 ? values.reduce(fn) : null;
+        };
+
+        return {
+            time,
+            phase,
+            energy_wh: rows.reduce((sum, r) => sum + (r.energy_wh || 0), 0),
+            voltage_avg: weighted('voltage_avg')!,
+            voltage_min: extreme('voltage_min', Math.min)!,
+            voltage_max: extreme('voltage_max', Math.max)!,
+            current_avg: weighted('current_avg')!,
+            current_min: extreme('current_min', Math.min)!,
+            current_max: extreme('current_max', Math.max)!,
+            power_avg: weighted('power_avg')!,
+            power_min: extreme('power_min', Math.min)!,
+            power_max: extreme('power_max', Math.max)!,
+            power_factor_avg: weighted('power_factor_avg'),
+            power_factor_min: extreme('power_factor_min', Math.min),
+            power_factor_max: extreme('power_factor_max', Math.max),
+            max_demand_w: extreme('max_demand_w', Math.max)!,
+            sample_count: samples
+        };
+    }
+
+    /**
+     * 15-minute buckets from raw per-phase and total readings in [start, end)
+     */
+    private async recompute15m(deviceId: string, start: Date, end: Date): Promise<void> {
+        const stats = (prefix: string, field: string) => ({
+            [`${prefix}_avg`]: { fn: 'avg' as const, field },
+            [`${prefix}_min`]: { fn: 'min' as const, field },
+            [`${prefix}_max`]: { fn: 'max' as const, field }
+        });
+
+        const phaseRows = await storage.aggregate({
+            measurement: 'three_phase_energy',
+            aggregates: {
+                energy_wh: { fn: 'sum', field: 'energy_wh' },
+                ...stats('voltage', 'voltage'),
+                ...stats('current', 'current'),
+                ...stats('power', 'power'),
+                ...stats('power_factor', 'power_factor'),
+                sample_count: { fn: 'count', field: 'power' }
+            },
+            where: { device_id: deviceId },
+            from: start,
+            to: end,
+            groupBy: ['phase'],
+            bin: { every: '15 minutes' }
+        });
+
+        const totalRows = await storage.aggregate({
+            measurement: 'three_phase_total',
+            aggregates: {
+                energy_wh: { fn: 'sum', field: 'total_energy_wh' },
+                ...stats('voltage', 'avg_voltage'),
+                ...stats('current', 'total_current'),
+                ...stats('power', 'total_power'),
+                sample_count: { fn: 'count', field: 'total_power' }
+            },
+            where: { device_id: deviceId },
+            from: start,
+            to: end,
+            bin: { every: '15 minutes' }
+        });
+
+        const rows: StorageRow[] = [
+            ...phaseRows,
+            ...totalRows.map((row): StorageRow => ({ ...row, phase: 'total', power_factor_avg: null, power_factor_min: null, power_factor_max: null }))
+        ].filter(row => row.sample_count > 0);
+
+        await storage.write(rows.map(row => this.toPoint(deviceId, '15m', {
+            ...(row as RollupRow),
+            max_demand_w: row.power_avg
+        })));
+    }
+
+    /**
+     * Hourly and daily buckets containing the given 15-minute buckets
+     */
+    private async recomputeCoarse(deviceId: string, quarters: Date[]): Promise<void> {
+        const hours = new Map<number, Date>();
+        const days = new Map<string, { start: Date; end: Date }>();
+
+        for (const quarter of quarters) {
+            const date = zonedDateString(quarter, this.timeZone);
+            const dayStart = zonedDayStart(date, this.timeZone);
+            const hourStart = dayStart.getTime() + Math.floor((quarter.getTime() - dayStart.getTime()) / HOUR_MS) * HOUR_MS;
+            hours.set(hourStart, new Date(hourStart));
+            if (!days.has(date)) days.set(date, zonedDayRange(date, this.timeZone));
+        }
+
+        for (const day of days.values()) {
+            const quarterRows = await this.getRollups15m(deviceId, day.start, day.end);
+            const points: StoragePoint[] = [];
+
+            for (const [phase, rows] of groupByPhase(quarterRows)) {
+                points.push(this.toPoint(deviceId, '1d', this.combine(rows, day.start, phase)));
+
+                for (const hour of hours.values()) {
+                    if (hour < day.start || hour >= day.end) continue;
+                    const inHour = rows.filter(r => r.time >= hour && r.time.getTime() < hour.getTime() + HOUR_MS);
+                    if (inHour.length > 0) {
+                        points.push(this.toPoint(deviceId, '1h', this.combine(inHour, hour, phase)));
+                    }
+                }
+            }
+
+            await storage.write(points);
+        }
+    }
+
+    private async getRollups15m(deviceId: string, from: Date, to: Date): Promise<RollupRow[]> {
+        const rows = await storage.queryRange({
+            measurement: ROLLUP_MEASUREMENT,
+            fields: ['phase', ...ROLLUP_FIELDS],
+            where: { device_id: deviceId, resolution: '15m' },
+            from,
+            to
+        });
+        return rows as RollupRow[];
+    }
+
+    private toPoint(deviceId: string, resolution: RollupResolution, row: StorageRow): StoragePoint {
+        const fields: Record<string, number> = {};
+        for (const field of ROLLUP_FIELDS) {
+            if (typeof row[field] === 'number') fields[field] = row[field];
+        }
+        return {
+            measurement: ROLLUP_MEASUREMENT,
+            tags: { device_id: deviceId, phase: row.phase, resolution },
+            fields,
+            timestamp: row.time
+        };
+    }
+}
+
+const groupByPhase = (rows: RollupRow[]): Map<string, RollupRow[]> => {
+    const groups = new Map<string, RollupRow[]>();
+    for (const row of rows) {
+        if (!groups.has(row.phase)) groups.set(row.phase, []);
+        groups.get(row.phase)!.push(row);
+    }
+    return groups;
+};
+
+export default new RollupService();
@@ -0,0 +1,270 @@
+import { storage } from '../db';
+import { BillCalculationResponse, DataQualityCounts, HourlyUsageData, PhaseData } from '../types';
+import billingService from './billingService';
+import deviceRegistryService, { ConnectionCategory } from './deviceRegistryService';
+import { MeterRole, SiteScope } from './siteService';
+import threePhasePowerService from './threePhasePowerService';
+
+type PhaseKey = '1' | '2' | '3';
+
+interface CombinedPhase {
+    voltage: number;            // average of the meters
+    current: number;            // sum
+    power: number;              // sum
+    energy_wh: number;          // sum
+    powerFactor: number;        // total power over total apparent power
+}
+
+// A meter's part in a site or organization total
+export interface MeterContribution {
+    deviceId: string;
+    siteId: string;
+    role: MeterRole;
+    counted: boolean;           // false for sub-meters under a main meter
+}
+
+export interface GroupReadings {
+    timestamp: string | null;   // newest meter reading
+    phases: Partial<Record<PhaseKey, CombinedPhase>>;
+    total: { energy_wh: number; voltage: number; current: number; power: number };
+    meters: (MeterContribution & { timestamp: string | null; power: number | null })[];
+}
+
+export interface GroupStatistics {
+    totalEnergy: number;        // kWh
+    averageVoltage: number;
+    peakPower: number;          // sum of the meters' peaks, an upper bound of the combined peak
+    latestReading: { timestamp: string; energy: number; voltage: number; current: number } | null;
+    dataQuality: DataQualityCounts;
+    excludeDefaulted: boolean;
+    meters: (MeterContribution & { totalEnergy: number })[];
+}
+
+export interface SiteBill {
+    siteId: string;
+    name: string;
+    totalEnergy: number;        // kWh
+    bill: BillCalculationResponse | null;
+    error?: string;             // no tariff category
+}
+
+export interface GroupBill {
+    billingPeriod: 'monthly' | 'daily';
+    totalAmount: number;
+    sites: SiteBill[];
+}
+
+/**
+ * Site Aggregation Service
+ * Dashboard figures for a site or an organization, combined from the
+ * member meters counted in each site's total (see siteService). Energy,
+ * current and power add up; voltage is averaged. Bills are per site, as
+ * each site is its own utility account, and the organization pays their sum.
+ */
+class SiteAggregationService {
+    async getLatestReadings(scopes: SiteScope[], phases: number[]): Promise<GroupReadings | null> {
+        const meters = contributions(scopes);
+        const latest = await Promise.all(meters.map(meter => threePhasePowerService.getLatestReadings(meter.deviceId, phases)));
+        const counted = latest.filter((readings, i) => readings && meters[i].counted);
+        if (counted.length === 0) return null;
+
+        const result: GroupReadings = {
+            timestamp: null,
+            phases: {},
+            total: { energy_wh: 0, voltage: 0, current: 0, power: 0 },
+            meters: meters.map((meter, i) => ({
+                ...meter,
+                timestamp: latest[i]?.timestamp ?? null,
+                power: latest[i]?.total.power ?? null
+            }))
+        };
+
+        for (const phase of phases.map(p => p.toString() as PhaseKey)) {
+            const readings = counted.map(r => r!.phases[phase]).filter(reading => reading !== undefined);
+            if (readings.length === 0) continue;
+            const power = sum(readings.map(r => r.power || 0));
+            const apparent = sum(readings.map(r => (r.power || 0) / (r.powerFactor || 1)));
+            result.phases[phase] = {
+                voltage: round(average(readings.map(r => r.voltage || 0)), 1),
+                current: round(sum(readings.map(r => r.current || 0)), 2),
+                power: round(power, 1),
+                energy_wh: round(sum(readings.map(r => r.energy_wh || 0)), 3),
+                powerFactor: round(apparent > 0 ? power / apparent : 0, 3)
+            };
+        }
+
+        result.total = {
+            energy_wh: round(sum(counted.map(r => r!.total.energy_wh || 0)), 3),
+            voltage: round(average(counted.map(r => r!.total.voltage || 0)), 1),
+            current: round(sum(counted.map(r => r!.total.current || 0)), 2),
+            power: round(sum(counted.map(r => r!.total.power || 0)), 1)
+        };
+        result.timestamp = counted
+            .map(r => new Date(r!.timestamp).toISOString())
+            .sort()
+            .pop() ?? null;
+        return result;
+    }
+
+    /**
+     * Hours of the day in `timeZone`, summed over the counted meters
+     */
+    async getHourlyUsage(
+        scopes: SiteScope[],
+        date: string,
+        phases: number[],
+        timeZone: string,
+        excludeDefaulted: boolean
+    ): Promise<HourlyUsageData[]> {
+        return threePhasePowerService.getHourlyUsage(countedIds(scopes), date, phases, timeZone, excludeDefaulted);
+    }
+
+    async getStatistics(
+        scopes: SiteScope[],
+        period: 'today' | 'week' | 'month',
+        timeZone: string,
+        excludeDefaulted: boolean
+    ): Promise<GroupStatistics> {
+        const meters = contributions(scopes);
+        const stats = await Promise.all(meters.map(meter =>
+            threePhasePowerService.getStatistics(meter.deviceId, period, timeZone, excludeDefaulted)));
+        const counted = stats.filter((_, i) => meters[i].counted);
+        const latest = counted.map(s => s.latestReading).filter(reading => reading !== null);
+
+        const dataQuality: DataQualityCounts = { measured: 0, derived: 0, defaulted: 0, unknown: 0, measuredShare: 0 };
+        for (const s of counted) {
+            dataQuality.measured += s.dataQuality?.measured || 0;
+            dataQuality.derived += s.dataQuality?.derived || 0;
+            dataQuality.defaulted += s.dataQuality?.defaulted || 0;
+            dataQuality.unknown += s.dataQuality?.unknown || 0;
+        }
+        const readings = dataQuality.measured + dataQuality.derived + dataQuality.defaulted + dataQuality.unknown;
+        dataQuality.measuredShare = readings > 0 ? round(dataQuality.measured / readings, 3) : 0;
+
+        return {
+            totalEnergy: round(sum(counted.map(s => s.totalEnergy)), 2),
+            averageVoltage: counted.length > 0 ? round(average(counted.map(s => s.averageVoltage)), 1) : 230,
+            peakPower: round(sum(counted.map(s => s.peakPower)), 0),
+            latestReading: latest.length > 0
+                ? {
+                    timestamp: latest.map(r => new Date(r.timestamp).toISOString()).sort().pop()!,
+                    energy: round(sum(latest.map(r => r.energy)), 2),
+                    voltage: round(average(latest.map(r => r.voltage)), 1),
+                    current: round(sum(latest.map(r => r.current)), 2)
+                }
+                : null,
+            dataQuality,
+            excludeDefaulted,
+            meters: meters.map((meter, i) => ({ ...meter, totalEnergy: stats[i].totalEnergy }))
+        };
+    }
+
+    /**
+     * Phase contributions over the last 24 hours of the counted meters combined
+     */
+    async getPhaseData(scopes: SiteScope[]): Promise<Record<string, PhaseData>> {
+        const deviceIds = countedIds(scopes);
+        if (deviceIds.length === 0) return {};
+
+        const rows = await storage.aggregate({
+            measurement: 'three_phase_energy',
+            aggregates: {
+                avg_voltage: { fn: 'avg', field: 'voltage' },
+                avg_current: { fn: 'avg', field: 'current' },
+                avg_power: { fn: 'avg', field: 'power' },
+                total_energy: { fn: 'sum', field: 'energy_wh' }
+            },
+            where: { device_id: deviceIds },
+            since: '24 hours',
+            groupBy: ['phase', 'device_id']
+        });
+
+        // Per phase: meters' average voltage, and current / power / energy added up across meters
+        const byPhase = new Map<string, { voltages: number[]; current: number; power: number; energy: number }>();
+        for (const row of rows) {
+            if (!byPhase.has(row.phase)) byPhase.set(row.phase, { voltages: [], current: 0, power: 0, energy: 0 });
+            const phase = byPhase.get(row.phase)!;
+            phase.voltages.push(row.avg_voltage || 0);
+            phase.current += row.avg_current || 0;
+            phase.power += row.avg_power || 0;
+            phase.energy += row.total_energy || 0;
+        }
+
+        const totalEnergy = sum(Array.from(byPhase.values()).map(phase => phase.energy));
+        const phaseData: Record<string, PhaseData> = {};
+        for (const [key, phase] of byPhase) {
+            phaseData[key] = {
+                contribution: round(totalEnergy > 0 ? (phase.energy / totalEnergy) * 100 : 0, 1),
+                voltage: round(average(phase.voltages), 1),
+                current: round(phase.current, 2),
+                power: round(phase.power, 1)
+            };
+        }
+        return phaseData;
+    }
+
+    /**
+     * One bill per site from its counted meters' energy over the period
+     * (this month so far for 'monthly', today for 'daily')
+     */
+    async calculateBill(
+        scopes: SiteScope[],
+        request: { billingPeriod: 'monthly' | 'daily'; maxDemandKVA?: number; averagePowerFactor?: number },
+        timeZone: string
+    ): Promise<GroupBill> {
+        const period = request.billingPeriod === 'daily' ? 'today' : 'month';
+        const sites: SiteBill[] = [];
+
+        for (const scope of scopes) {
+            const stats = await this.getStatistics([scope], period, scope.site.timezone || timeZone, false);
+            const category = siteCategory(scope);
+            const base = { siteId: scope.site.id, name: scope.site.name, totalEnergy: stats.totalEnergy };
+
+            if (!category) {
+                sites.push({ ...base, bill: null, error: 'Neither the site nor its counted meters have a connectionCategory' });
+                continue;
+            }
+            sites.push({
+                ...base,
+                bill: billingService.calculateBill({
+                    totalEnergy: stats.totalEnergy,
+                    deviceId: scope.counted[0] || '',
+                    connectionCategory: category,
+                    billingPeriod: request.billingPeriod,
+                    maxDemandKVA: request.maxDemandKVA,
+                    averagePowerFactor: request.averagePowerFactor
+                })
+            });
+        }
+
+        return {
+            billingPeriod: request.billingPeriod,
+            totalAmount: round(sum(sites.map(site => site.bill?.totalAmount || 0)), 2),
+            sites
+        };
+    }
+}
+
+const contributions = (scopes: SiteScope[]): MeterContribution[] =>
+    scopes.flatMap(scope => scope.site.meters.map(meter => ({
+        deviceId: meter.deviceId,
+        siteId: scope.site.id,
+        role: meter.role,
+        counted: scope.counted.includes(meter.deviceId)
+    })));
+
+const countedIds = (scopes: SiteScope[]): string[] => scopes.flatMap(scope => scope.counted);
+
+// The site's own tariff category, else the first counted meter's
+const siteCategory = (scope: SiteScope): ConnectionCategory | null =>
+    scope.site.connectionCategory ||
+    scope.counted.map(id => deviceRegistryService.get(id)?.connectionCategory).find(category => category) ||
+    null;
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const average = (values: number[]): number => values.length > 0 ? sum(values) / values.length : 0;
+
+const round = (value: number, digits: number): number => parseFloat(value.toFixed(digits));
+
+export default new SiteAggregationService();
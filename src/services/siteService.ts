@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { createJsonStore } from '../utils/jsonStore';
+import { hasPermission } from '../utils/permissions';
+import deviceRegistryService, { ConnectionCategory } from './deviceRegistryService';
+import { PublicUser } from './userService';
+
+// 'main': incomer metering the whole site; 'sub': a feeder already included in a main meter
+export type MeterRole = 'main' | 'sub';
+
+export interface SiteMeter {
+    deviceId: string;
+    role: MeterRole;
+    addedAt: string;
+}
+
+export interface Site {
+    id: string;
+    organizationId: string;
+    name: string;
+    location: string;
+    connectionCategory: ConnectionCategory | null;  // the site's utility account; main meter's category when unset
+    timezone?: string;
+    meters: SiteMeter[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface Organization {
+    id: string;
+    name: string;
+    userIds: string[];              // users who may see the organization, its sites and meters
+    timezone?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Meters a site total is made of
+export interface SiteScope {
+    site: Site;
+    counted: string[];              // main meters, or every meter when the site has none
+    subMeters: string[];            // not added to the total when main meters exist
+}
+
+interface SiteStore {
+    organizations: Record<string, Organization>;
+    sites: Record<string, Site>;
+}
+
+export const METER_ROLES: MeterRole[] = ['main', 'sub'];
+
+/**
+ * Site Service
+ * Organization -> site -> meter hierarchy (sites.json). A meter belongs to
+ * at most one site. A site's total is the sum of its main (incomer) meters;
+ * sub-meters are reported separately so their energy is not counted twice.
+ * A site without a main meter adds up all of its meters. Users listed on an
+ * organization see it, its sites and their meters; roles that manage
+ * devices see every organization.
+ */
+class SiteService {
+    private store = createJsonStore<SiteStore>('sites.json', () => ({ organizations: {}, sites: {} }));
+
+    listOrganizations(user?: PublicUser): Organization[] {
+        return Object.values(this.store.read().organizations)
+            .filter(org => !user || this.canAccess(user, org))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    getOrganization(id: string): Organization | null {
+        return this.store.read().organizations[id] || null;
+    }
+
+    createOrganization(fields: { name: string; userIds?: string[]; timezone?: string }): Organization {
+        const store = this.store.read();
+        const now = new Date().toISOString();
+        const org: Organization = {
+            id: `org-${crypto.randomBytes(4).toString('hex')}`,
+            name: fields.name,
+            userIds: fields.userIds || [],
+            ...(fields.timezone && { timezone: fields.timezone }),
+            createdAt: now,
+            updatedAt: now
+        };
+        store.organizations[org.id] = org;
+        this.store.write(store);
+        return org;
+    }
+
+    updateOrganization(id: string, changes: { name?: string; userIds?: string[]; timezone?: string | null }): Organization | null {
+        const store = this.store.read();
+        const org = store.organizations[id];
+        if (!org) return null;
+
+        if (changes.name !== undefined) org.name = changes.name;
+        if (changes.userIds !== undefined) org.userIds = changes.userIds;
+        if (changes.timezone === null) delete org.timezone;
+        else if (changes.timezone !== undefined) org.timezone = changes.timezone;
+        org.updatedAt = new Date().toISOString();
+        this.store.write(store);
+        return org;
+    }
+
+    /**
+     * Remove an organization that has no sites left
+     */
+    deleteOrganization(id: string): { ok: true } | { ok: false; code: 'NOT_FOUND' | 'CONFLICT' } {
+        const store = this.store.read();
+        if (!store.organizations[id]) return { ok: false, code: 'NOT_FOUND' };
+        if (Object.values(store.sites).some(site => site.organizationId === id)) return { ok: false, code: 'CONFLICT' };
+
+        delete store.organizations[id];
+        this.store.write(store);
+        return { ok: true };
+    }
+
+    listSites(organizationId: string): Site[] {
+        return Object.values(this.store.read().sites)
+            .filter(site => site.organizationId === organizationId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    getSite(id: string): Site | null {
+        return this.store.read().sites[id] || null;
+    }
+
+    createSite(
+        organizationId: string,
+        fields: { name: string; location?: string; connectionCategory?: ConnectionCategory; timezone?: string }
+    ): Site | null {
+        const store = this.store.read();
+        if (!store.organizations[organizationId]) return null;
+
+        const now = new Date().toISOString();
+        const site: Site = {
+            id: `site-${crypto.randomBytes(4).toString('hex')}`,
+            organizationId,
+            name: fields.name,
+            location: fields.location || '',
+            connectionCategory: fields.connectionCategory || null,
+            ...(fields.timezone && { timezone: fields.timezone }),
+            meters: [],
+            createdAt: now,
+            updatedAt: now
+        };
+        store.sites[site.id] = site;
+        this.store.write(store);
+        return site;
+    }
+
+    updateSite(
+        id: string,
+        changes: { name?: string; location?: string; connectionCategory?: ConnectionCategory | null; timezone?: string | null }
+    ): Site | null {
+        const store = this.store.read();
+        const site = store.sites[id];
+        if (!site) return null;
+
+        if (changes.name !== undefined) site.name = changes.name;
+        if (changes.location !== undefined) site.location = changes.location;
+        if (changes.connectionCategory !== undefined) site.connectionCategory = changes.connectionCategory;
+        if (changes.timezone === null) delete site.timezone;
+        else if (changes.timezone !== undefined) site.timezone = changes.timezone;
+        site.updatedAt = new Date().toISOString();
+        this.store.write(store);
+        return site;
+    }
+
+    deleteSite(id: string): boolean {
+        const store = this.store.read();
+        if (!store.sites[id]) return false;
+        delete store.sites[id];
+        this.store.write(store);
+        return true;
+    }
+
+    /**
+     * Add a meter to a site or change its role
+     * CONFLICT when it belongs to another site
+     */
+    setMeter(siteId: string, deviceId: string, role: MeterRole): { ok: true; site: Site } | { ok: false; code: 'NOT_FOUND' | 'DEVICE_NOT_FOUND' | 'CONFLICT' } {
+        const store = this.store.read();
+        const site = store.sites[siteId];
+        if (!site) return { ok: false, code: 'NOT_FOUND' };
+        if (!deviceRegistryService.get(deviceId)) return { ok: false, code: 'DEVICE_NOT_FOUND' };
+        const other = this.findSiteOf(deviceId);
+        if (other && other.id !== siteId) return { ok: false, code: 'CONFLICT' };
+
+        const meter = site.meters.find(m => m.deviceId === deviceId);
+        if (meter) meter.role = role;
+        else site.meters.push({ deviceId, role, addedAt: new Date().toISOString() });
+        site.updatedAt = new Date().toISOString();
+        this.store.write(store);
+        return { ok: true, site };
+    }
+
+    removeMeter(siteId: string, deviceId: string): boolean {
+        const store = this.store.read();
+        const site = store.sites[siteId];
+        if (!site || !site.meters.some(m => m.deviceId === deviceId)) return false;
+
+        site.meters = site.meters.filter(m => m.deviceId !== deviceId);
+        site.updatedAt = new Date().toISOString();
+        this.store.write(store);
+        return true;
+    }
+
+    findSiteOf(deviceId: string): Site | null {
+        return Object.values(this.store.read().sites).find(site => site.meters.some(m => m.deviceId === deviceId)) || null;
+    }
+
+    scopeOf(site: Site): SiteScope {
+        const mains = site.meters.filter(m => m.role === 'main').map(m => m.deviceId);
+        return {
+            site,
+            counted: mains.length > 0 ? mains : site.meters.map(m => m.deviceId),
+            subMeters: mains.length > 0 ? site.meters.filter(m => m.role === 'sub').map(m => m.deviceId) : []
+        };
+    }
+
+    canAccess(user: PublicUser, org: Organization): boolean {
+        return hasPermission(user.role, 'devices:manage') || org.userIds.includes(user.id);
+    }
+}
+
+export default new SiteService();
@@ -0,0 +1,850 @@
+import { storage } from '../db';
+import { StoragePoint } from '../storage';
+import { Provenance, ThreePhaseReadings } from '../types';
+import { getDeviceById } from '../middleware/auth';
+import threePhasePowerService from './threePhasePowerService';
+import dedupService from './dedupService';
+import clockDriftService from './clockDriftService';
+import plausibilityService, { describeViolation } from './plausibilityService';
+import quarantineService, { QuarantineCandidate, QuarantineEntry, QuarantineRange } from './quarantineService';
+import deviceAuthService, { SIGNATURE_PARAMS, SignedPayload, canonicalParams } from './deviceAuthService';
+import energyRegisterService, { DEFAULT_REGISTER_OPTIONS } from './energyRegisterService';
+import energyIntegrationService, { DEFAULT_INTEGRATION_OPTIONS, EnergyMethod } from './energyIntegrationService';
+import payloadArchiveService, { ArchivedPayload, PayloadChannel } from './payloadArchiveService';
+import deviceCommandService, { DeviceAcks, Downlink } from './deviceCommandService';
+import diagnosticsService from './diagnosticsService';
+import deviceRegistryService, { AdmitResult } from './deviceRegistryService';
+import {
+    PHASE_PROVENANCE_FIELDS,
+    TOTAL_PROVENANCE_FIELDS,
+    ProvenanceSummary,
+    derivedFrom,
+    summarizeProvenance
+} from '../utils/provenance';
+
+/**
+ * Flat 3-phase input as sent by GSM modules (after short-name mapping)
+ */
+export interface ThreePhaseInput {
+    deviceId?: string;
+    ts?: number;
+    p1_voltage?: number; p1_current?: number; p1_power?: number; p1_energy_wh?: number; p1_powerFactor?: number;
+    p2_voltage?: number; p2_current?: number; p2_power?: number; p2_energy_wh?: number; p2_powerFactor?: number;
+    p3_voltage?: number; p3_current?: number; p3_power?: number; p3_energy_wh?: number; p3_powerFactor?: number;
+    total_energy_wh?: number;
+    total_voltage?: number;
+    total_current?: number;
+    total_power?: number;
+}
+
+export type IngestResult =
+    | { ok: true; deviceId: string; readings: ThreePhaseReadings }
+    | { ok: false; message: string }
+    | { ok: false; message: string; quarantine: QuarantineCandidate; quarantineId?: string };   // failed plausibility checks
+
+export interface IngestOptions {
+    // Batch rows are replayed from a device buffer: they must carry a timestamp,
+    // and one outside the accepted window rejects the row instead of being
+    // replaced with server time
+    strictTimestamp?: boolean;
+    maxAgeSeconds?: number;     // oldest accepted reading (default 30 days)
+    skipPlausibility?: boolean; // readings released from quarantine were reviewed already
+    // Device clock handling: 'observe' samples the offset of live readings (the
+    // default unless strictTimestamp), 'correct' only applies the estimate
+    // (buffered rows), 'none' keeps ts as is (already corrected)
+    clock?: 'observe' | 'correct' | 'none';
+    clockAnchorTs?: number;     // newest ts of the batch, see clockDriftService.correct
+    // Key prefix for separate integration/register state (reprocessing)
+    energyScope?: string;
+}
+
+// How a payload arrived: signature, resend identity and what goes into the raw payload archive
+export interface PayloadSource {
+    idempotencyKey?: string;
+    signed?: SignedPayload;     // default: k/t/n/s over the other params (single readings), unsigned (batches)
+    channel?: PayloadChannel;   // default 'query' (single readings) or 'batch'
+    raw?: string;               // verbatim payload of a single reading
+    acks?: DeviceAcks;          // default: ack/nak/cv params of a single reading, none for batches
+}
+
+export interface BatchRowResult {
+    row: number;                // index in the request, 0-based
+    ts?: number;
+    status: 'OK' | 'ERROR' | 'DUPLICATE' | 'QUARANTINED';
+    message?: string;
+    quarantineId?: string;
+}
+
+export type BatchOutcome =
+    | { status: 'OK'; duplicate: boolean; results: BatchRowResult[]; downlink?: Downlink }    // duplicate: the whole request replayed an Idempotency-Key
+    | { status: 'ERROR'; message: string; code: 'UNAUTHORIZED' | AdmitRejection };
+
+// Unknown (UNKNOWN_DEVICE_POLICY=reject) or decommissioned device
+type AdmitRejection = Extract<AdmitResult, { ok: false }>['code'];
+
+// Acknowledgement sent back to the device (HTTP body or MQTT ack payload)
+export type IngestReply =
+    | { status: 'OK'; duplicate: true }
+    | { status: 'OK'; quarantined: true; quarantineId: string; reasons: string[]; downlink?: Downlink }
+    | { status: 'OK'; provenance: Record<'1' | '2' | '3' | 'total', ProvenanceSummary>; downlink?: Downlink }
+    | { status: 'ERROR'; message: string; code?: 'UNAUTHORIZED' | AdmitRejection };
+
+export type QuarantineReviewResult =
+    | { ok: true; entry: QuarantineEntry }
+    | { ok: false; code: 'NOT_FOUND' | 'CONFLICT' | 'INVALID_READING'; message: string };
+
+export type BatchParseResult =
+    | { ok: true; deviceId?: string; rows: Record<string, string>[]; rowErrors?: Map<number, string> }
+    | { ok: false; message: string };
+
+const DEFAULT_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+const MAX_FUTURE_SECONDS = 300;
+
+export const BATCH_MAX_READINGS = parseInt(process.env.BATCH_MAX_READINGS || '1000', 10);
+// Registered devices may replay buffered readings up to this old
+export const BACKFILL_MAX_DAYS = parseInt(process.env.BACKFILL_MAX_DAYS || '365', 10);
+
+// Least to most approximate - the total reports the worst of its phases
+const METHOD_RANK: EnergyMethod[] = ['measured', 'register', 'trapezoidal', 'nominal_interval', 'out_of_order', 'gap_capped'];
+
+/**
+ * Three-Phase Ingestion Service
+ * Validates GSM/ESP32 3-phase readings, fills in derivable fields and
+ * resolves interval energy before handing the reading to storage.
+ */
+class ThreePhaseIngestService {
+
+    /**
+     * Map shortened query parameter names to full names
+     * Phase N: vN, cN, pN, eN, pfN - Totals: te, tv, tc, tp
+     */
+    parseQuery(query: Record<string, any>): ThreePhaseInput {
+        const num = (key: string) => query[key] ? parseFloat(query[key] as string) : undefined;
+
+        return {
+            deviceId: query.d as string,
+            ts: num('ts'),
+            // Phase 1 - shortened names: v1, c1, pf1
+            p1_voltage: num('v1'),
+            p1_current: num('c1'),
+            p1_power: num('p1'),
+            p1_energy_wh: num('e1'),
+            p1_powerFactor: num('pf1'),
+            // Phase 2 - shortened names: v2, c2, pf2
+            p2_voltage: num('v2'),
+            p2_current: num('c2'),
+            p2_power: num('p2'),
+            p2_energy_wh: num('e2'),
+            p2_powerFactor: num('pf2'),
+            // Phase 3 - shortened names: v3, c3, pf3
+            p3_voltage: num('v3'),
+            p3_current: num('c3'),
+            p3_power: num('p3'),
+            p3_energy_wh: num('e3'),
+            p3_powerFactor: num('pf3'),
+            // Totals - shortened names: te, tv, tc, tp
+            total_energy_wh: num('te'),
+            total_voltage: num('tv'),
+            total_current: num('tc'),
+            total_power: num('tp')
+        };
+    }
+
+    /**
+     * Parse a batch body: JSON `{ deviceId?, readings: [{ ts, v1, c1, ... }] }`
+     * (or a bare array), or CSV text whose header row uses the short
+     * parameter names, e.g. `ts,v1,c1,pf1,v2,c2,pf2,v3,c3,pf3`
+     */
+    parseBatch(body: unknown): BatchParseResult {
+        if (typeof body === 'string') {
+            const trimmed = body.trim();
+            if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+                try {
+                    return this.parseBatch(JSON.parse(trimmed));
+                } catch {
+                    return { ok: false, message: 'Invalid JSON' };
+                }
+            }
+            return this.parseCsv(trimmed);
+        }
+
+        const readings = Array.isArray(body) ? body : (body as any)?.readings;
+        if (!Array.isArray(readings)) {
+            return { ok: false, message: 'readings must be an array' };
+        }
+
+        const rows = readings.map(toParams);
+
+        const deviceId = Array.isArray(body) ? undefined : (body as any).deviceId ?? (body as any).d;
+        return { ok: true, deviceId: typeof deviceId === 'string' ? deviceId : undefined, rows };
+    }
+
+    /**
+     * Validate and store a batch of buffered readings from one device
+     * Rows are processed oldest first so interval energy is derived in order;
+     * results keep the request order. Rows already accepted earlier (or
+     * repeated within the batch) are reported as DUPLICATE and not stored.
+     * `source.signed` is the request signature over the raw body; unsigned
+     * batches are only accepted for devices without credentials. Pending
+     * config and commands are returned as `downlink`.
+     */
+    async ingestBatch(
+        deviceId: string,
+        rows: Record<string, string>[],
+        rowErrors: Map<number, string> = new Map(),
+        source: PayloadSource = {}
+    ): Promise<BatchOutcome> {
+        const { idempotencyKey, signed = { parts: {}, payload: '' }, channel = 'batch', acks } = source;
+        const receivedAt = new Date().toISOString();
+
+        return dedupService.exclusive(deviceId, async (): Promise<BatchOutcome> => {
+            const batchKey = idempotencyKey && dedupService.keyFor(deviceId, {}, { idempotencyKey });
+            const replayed = batchKey && dedupService.checkDuplicate(deviceId, batchKey);
+            if (replayed) {
+                return { status: 'OK', duplicate: true, results: replayed.response as BatchRowResult[] };
+            }
+
+            const auth = deviceAuthService.verify(deviceId, signed.parts, signed.payload);
+            if (!auth.ok) {
+                return { status: 'ERROR', message: auth.message, code: 'UNAUTHORIZED' };
+            }
+            const admitted = deviceRegistryService.admit(deviceId);
+            if (!admitted.ok) {
+                return { status: 'ERROR', message: admitted.message, code: admitted.code };
+            }
+
+            if (acks) deviceCommandService.applyAcks(deviceId, acks);
+
+            const results = await this.ingestBatchRows(deviceId, rows, rowErrors, channel, receivedAt);
+            if (batchKey) dedupService.remember(batchKey, results);
+            const downlink = deviceCommandService.takeDownlink(deviceId);
+            return { status: 'OK', duplicate: false, results, ...(downlink && { downlink }) };
+        });
+    }
+
+    private async ingestBatchRows(
+        deviceId: string,
+        rows: Record<string, string>[],
+        rowErrors: Map<number, string>,
+        channel: PayloadChannel,
+        receivedAt: string
+    ): Promise<BatchRowResult[]> {
+        const inputs = rows.map((row, index) => ({ index, input: { ...this.parseQuery(row), deviceId } }));
+        const ordered = [...inputs].sort((a, b) => (a.input.ts ?? 0) - (b.input.ts ?? 0));
+
+        const options: IngestOptions = {
+            strictTimestamp: true,
+            maxAgeSeconds: getDeviceById(deviceId) ? BACKFILL_MAX_DAYS * 24 * 60 * 60 : DEFAULT_MAX_AGE_SECONDS,
+            clockAnchorTs: ordered[ordered.length - 1]?.input.ts
+        };
+
+        const results: BatchRowResult[] = new Array(rows.length);
+        const accepted: ThreePhaseReadings[] = [];
+        const extraPoints: StoragePoint[] = [];     // raw payloads and diagnostics
+        const acceptedKeys = new Set<string>();
+        const quarantined: { index: number; candidate: QuarantineCandidate }[] = [];
+
+        for (const { index, input } of ordered) {
+            const parseError = rowErrors.get(index);
+            if (parseError) {
+                results[index] = { row: index, status: 'ERROR', message: parseError };
+                continue;
+            }
+
+            const key = dedupService.keyFor(deviceId, rows[index], { seq: rows[index].seq, ts: input.ts });
+            if (acceptedKeys.has(key) || dedupService.checkDuplicate(deviceId, key)) {
+                results[index] = { row: index, ts: input.ts, status: 'DUPLICATE' };
+                continue;
+            }
+
+            const result = await this.prepare(input, options);
+            if (result.ok) {
+                accepted.push(result.readings);
+                extraPoints.push(payloadArchiveService.toPoint({
+                    deviceId,
+                    timestamp: result.readings.timestamp,
+                    channel,
+                    receivedAt,
+                    params: rows[index],
+                    raw: ''
+                }));
+                const diagnostics = await diagnosticsService.toPoint(deviceId, rows[index], result.readings.timestamp);
+                if (diagnostics) extraPoints.push(diagnostics);
+                acceptedKeys.add(key);
+                results[index] = { row: index, ts: input.ts, status: 'OK' };
+            } else if ('quarantine' in result) {
+                quarantined.push({ index, candidate: result.quarantine });
+                acceptedKeys.add(key);
+                results[index] = { row: index, ts: input.ts, status: 'QUARANTINED', message: result.message };
+            } else {
+                results[index] = { row: index, ts: input.ts, status: 'ERROR', message: result.message };
+            }
+        }
+
+        // Quarantined rows first: if that write fails nothing is stored and the device resends the batch
+        const entries = await quarantineService.addAll(quarantined.map(q => q.candidate));
+        entries.forEach((entry, i) => {
+            results[quarantined[i].index].quarantineId = entry.id;
+        });
+        await threePhasePowerService.store3PhaseReadings(deviceId, accepted, extraPoints);
+        for (const key of acceptedKeys) dedupService.remember(key);
+        return results;
+    }
+
+    /**
+     * Handle one reading from a device channel (HTTP query string, MQTT message)
+     * Replays of an already accepted reading are acknowledged without storing
+     * them again; new readings must pass the device's signature check, by
+     * default the k/t/n/s parameters over the remaining parameters. Pending
+     * config and commands ride on the acknowledgement as `downlink`.
+     */
+    async handleReading(params: Record<string, unknown>, source: PayloadSource = {}): Promise<IngestReply> {
+        const {
+            idempotencyKey,
+            signed = {
+                parts: {
+                    keyId: params.k as string | undefined,
+                    timestamp: params.t as string | undefined,
+                    nonce: params.n as string | undefined,
+                    signature: params.s as string | undefined
+                },
+                payload: canonicalParams(params)
+            },
+            channel = 'query',
+            raw = '',
+            acks = deviceCommandService.parseAcks(params)
+        } = source;
+        const receivedAt = new Date().toISOString();
+        const input = this.parseQuery(params);
+        const deviceId = typeof input.deviceId === 'string' ? input.deviceId : '';
+        // Signature params differ between resends, so they are not part of the identity
+        const payload = Object.fromEntries(Object.entries(params).filter(([key]) => !SIGNATURE_PARAMS.includes(key)));
+        const dedupKey = dedupService.keyFor(deviceId, payload, {
+            idempotencyKey,
+            seq: params.seq as string | undefined,
+            ts: input.ts
+        });
+
+        return dedupService.exclusive(deviceId, async (): Promise<IngestReply> => {
+            // Verified first so unsigned or forged resends are never acknowledged;
+            // a correctly signed resend of a stored reading reuses its nonce
+            const auth = deviceAuthService.verify(deviceId, signed.parts, signed.payload);
+            if (!auth.ok && auth.reason !== 'REPLAYED_NONCE') {
+                return { status: 'ERROR', message: auth.message, code: 'UNAUTHORIZED' };
+            }
+            if (dedupService.checkDuplicate(deviceId, dedupKey)) {
+                return { status: 'OK', duplicate: true };
+            }
+            if (!auth.ok) {
+                return { status: 'ERROR', message: auth.message, code: 'UNAUTHORIZED' };
+            }
+            const admitted = deviceRegistryService.admit(deviceId);
+            if (!admitted.ok) {
+                return { status: 'ERROR', message: admitted.message, code: admitted.code };
+            }
+            deviceCommandService.applyAcks(deviceId, acks);
+
+            const result = await this.ingest(input, { channel, receivedAt, params: toParams(params), raw });
+            if (!result.ok && 'quarantine' in result) {
+                // Acknowledged so the device does not resend it; kept for review
+                dedupService.remember(dedupKey);
+                const downlink = deviceCommandService.takeDownlink(deviceId);
+                return {
+                    status: 'OK',
+                    quarantined: true,
+                    quarantineId: result.quarantineId!,
+                    reasons: result.quarantine.violations.map(describeViolation),
+                    ...(downlink && { downlink })
+                };
+            }
+            if (!result.ok) {
+                return { status: 'ERROR', message: result.message };
+            }
+
+            dedupService.remember(dedupKey);
+            const downlink = deviceCommandService.takeDownlink(deviceId);
+            return { status: 'OK', provenance: this.getProvenanceSummary(result.readings), ...(downlink && { downlink }) };
+        });
+    }
+
+    /**
+     * Validate and store a reading; implausible readings go to quarantine
+     * and accepted ones are archived with the payload they arrived in, next
+     * to any diagnostics it carried
+     */
+    async ingest(input: ThreePhaseInput, payload: Omit<ArchivedPayload, 'deviceId' | 'timestamp'>): Promise<IngestResult> {
+        const result = await this.prepare(input);
+        if (result.ok) {
+            const { deviceId, readings } = result;
+            const diagnostics = await diagnosticsService.toPoint(deviceId, payload.params, readings.timestamp);
+            await threePhasePowerService.store3PhaseReading(deviceId, readings, [
+                payloadArchiveService.toPoint({ ...payload, deviceId, timestamp: readings.timestamp }),
+                ...(diagnostics ? [diagnostics] : [])
+            ]);
+        } else if ('quarantine' in result) {
+            const entry = await quarantineService.add(result.quarantine);
+            return { ...result, quarantineId: entry.id };
+        }
+        return result;
+    }
+
+    /**
+     * Store a quarantined reading after review
+     * The reading goes through the normal validation again, without the
+     * plausibility rules, and energy is resolved as for a late reading.
+     */
+    async releaseQuarantined(id: string, range: QuarantineRange = {}): Promise<QuarantineReviewResult> {
+        return quarantineService.exclusive(id, async (): Promise<QuarantineReviewResult> => {
+            const entry = await quarantineService.get(id, range);
+            if (!entry) return { ok: false, code: 'NOT_FOUND', message: 'Quarantined reading not found' };
+            if (entry.status !== 'pending') {
+                return { ok: false, code: 'CONFLICT', message: `Reading was already ${entry.status}` };
+            }
+
+            const result = await dedupService.exclusive(entry.deviceId, async () => {
+                const prepared = await this.prepare(entry.input, {
+                    strictTimestamp: true,
+                    maxAgeSeconds: Infinity,
+                    skipPlausibility: true,
+                    clock: 'none'
+                });
+                if (prepared.ok) {
+                    await threePhasePowerService.store3PhaseReading(prepared.deviceId, prepared.readings, [
+                        payloadArchiveService.toPoint({
+                            deviceId: prepared.deviceId,
+                            timestamp: prepared.readings.timestamp,
+                            channel: 'quarantine',
+                            receivedAt: entry.quarantinedAt,
+                            params: toShortParams(entry.input),
+                            raw: ''
+                        })
+                    ]);
+                }
+                return prepared;
+            });
+            if (!result.ok) return { ok: false, code: 'INVALID_READING', message: result.message };
+
+            return { ok: true, entry: await quarantineService.setStatus(entry, 'released') };
+        });
+    }
+
+    /**
+     * Drop a quarantined reading after review (the entry is kept as discarded)
+     */
+    async discardQuarantined(id: string, range: QuarantineRange = {}): Promise<QuarantineReviewResult> {
+        return quarantineService.exclusive(id, async (): Promise<QuarantineReviewResult> => {
+            const entry = await quarantineService.get(id, range);
+            if (!entry) return { ok: false, code: 'NOT_FOUND', message: 'Quarantined reading not found' };
+            if (entry.status !== 'pending') {
+                return { ok: false, code: 'CONFLICT', message: `Reading was already ${entry.status}` };
+            }
+            return { ok: true, entry: await quarantineService.setStatus(entry, 'discarded') };
+        });
+    }
+
+    /**
+     * Validate a reading and derive missing fields, without storing it
+     */
+    async prepare(input: ThreePhaseInput, options: IngestOptions = {}): Promise<IngestResult> {
+        const {
+            deviceId,
+            ts,
+            p1_voltage, p1_current, p1_power, p1_energy_wh, p1_powerFactor,
+            p2_voltage, p2_current, p2_power, p2_energy_wh, p2_powerFactor,
+            p3_voltage, p3_current, p3_power, p3_energy_wh, p3_powerFactor,
+            total_energy_wh, total_voltage, total_current, total_power
+        } = input;
+
+        // Validate required deviceId
+        if (!deviceId || typeof deviceId !== 'string') {
+            return { ok: false, message: 'deviceId is required and must be a string' };
+        }
+
+        if (!/^[a-zA-Z0-9-_]+$/.test(deviceId)) {
+            return { ok: false, message: 'Invalid deviceId format' };
+        }
+
+        const invalidNumber = Object.entries(input).find(([key, value]) => key !== 'deviceId' && Number.isNaN(value));
+        if (invalidNumber) {
+            return { ok: false, message: `Invalid number for ${invalidNumber[0]}` };
+        }
+
+        // Generate missing fields where possible
+        const currentTime = Math.floor(Date.now() / 1000); // Current UNIX timestamp
+
+        // Validate timestamp - must be within last 30 days (or the backfill window) and not in future
+        const oldestAllowed = currentTime - (options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS);
+        let generatedTs = ts || currentTime;
+
+        if (options.strictTimestamp && !ts) {
+            return { ok: false, message: 'ts is required' };
+        }
+
+        // Shift device time by the estimated clock offset; the reading is only
+        // sampled into the estimate once it has been accepted (see below)
+        const clockMode = options.clock ?? (options.strictTimestamp ? 'correct' : 'observe');
+        const arrival = Date.now() / 1000;
+        const resolveClock = (record: boolean) => clockMode === 'observe'
+            ? clockDriftService.observe(deviceId, ts!, arrival, record)
+            : clockDriftService.correct(deviceId, ts!, options.clockAnchorTs, arrival, record);
+        let clockCorrection = 0;
+        if (ts && clockMode !== 'none') {
+            clockCorrection = (await resolveClock(false)).correctionSeconds;
+            generatedTs = ts + clockCorrection;
+        }
+
+        // If timestamp is still too old or in future, use current server time
+        if (generatedTs < oldestAllowed || generatedTs > currentTime + MAX_FUTURE_SECONDS) {
+            if (options.strictTimestamp) {
+                return { ok: false, message: 'Timestamp outside the accepted window' };
+            }
+            console.warn(`Invalid timestamp ${generatedTs} (${new Date(generatedTs * 1000).toISOString()}), using server time`);
+            generatedTs = currentTime;
+        }
+
+        // Generate data for each phase
+        const phase1Data = this.generatePhaseData(p1_voltage, p1_current, p1_power, p1_powerFactor);
+        const phase2Data = this.generatePhaseData(p2_voltage, p2_current, p2_power, p2_powerFactor);
+        const phase3Data = this.generatePhaseData(p3_voltage, p3_current, p3_power, p3_powerFactor);
+
+        // Generate totals if missing
+        let genTotalVoltage = total_voltage;
+        let genTotalCurrent = total_current;
+        let genTotalPower = total_power;
+        const allPhases = [phase1Data, phase2Data, phase3Data];
+        const totalProvenance: Partial<Record<string, Provenance>> = {
+            voltage: 'measured',
+            current: 'measured',
+            power: 'measured'
+        };
+
+        // Calculate totals from phases if not provided
+        if (genTotalPower === undefined) {
+            genTotalPower = (phase1Data.power || 0) + (phase2Data.power || 0) + (phase3Data.power || 0);
+            totalProvenance.power = derivedFrom(...allPhases.map(p => p.provenance.power));
+        }
+        if (genTotalCurrent === undefined) {
+            genTotalCurrent = (phase1Data.current || 0) + (phase2Data.current || 0) + (phase3Data.current || 0);
+            totalProvenance.current = derivedFrom(...allPhases.map(p => p.provenance.current));
+        }
+        if (genTotalVoltage === undefined) {
+            // Average voltage across phases
+            const voltages = [phase1Data.voltage, phase2Data.voltage, phase3Data.voltage].filter(v => v !== undefined) as number[];
+            genTotalVoltage = voltages.length > 0 ? voltages.reduce((a, b) => a + b, 0) / voltages.length : 230;
+            totalProvenance.voltage = derivedFrom(...allPhases.map(p => p.provenance.voltage));
+        }
+
+        // Validate that we have essential fields for all phases (energy is resolved below)
+        const phasesValid = [phase1Data, phase2Data, phase3Data].every(phase =>
+            phase.voltage !== undefined && phase.current !== undefined &&
+            phase.power !== undefined && phase.powerFactor !== undefined
+        );
+
+        if (!phasesValid) {
+            return { ok: false, message: 'Missing or incomplete 3-phase data' };
+        }
+
+        // Validate power factors
+        const invalidPf = [phase1Data.powerFactor, phase2Data.powerFactor, phase3Data.powerFactor]
+            .some(pf => pf !== undefined && (pf < 0 || pf > 1));
+
+        if (invalidPf) {
+            return { ok: false, message: 'Invalid power factor (must be between 0 and 1)' };
+        }
+
+        if (generatedTs <= 0) {
+            return { ok: false, message: 'Invalid timestamp' };
+        }
+
+        // Create ThreePhaseReadings structure (energy filled in by resolveEnergy)
+        const threePhaseReadings: ThreePhaseReadings = {
+            phases: {
+                "1": {
+                    voltage: phase1Data.voltage!,
+                    current: phase1Data.current!,
+                    power: phase1Data.power!,
+                    energy_wh: 0,
+                    powerFactor: phase1Data.powerFactor!,
+                    provenance: phase1Data.provenance
+                },
+                "2": {
+                    voltage: phase2Data.voltage!,
+                    current: phase2Data.current!,
+                    power: phase2Data.power!,
+                    energy_wh: 0,
+                    powerFactor: phase2Data.powerFactor!,
+                    provenance: phase2Data.provenance
+                },
+                "3": {
+                    voltage: phase3Data.voltage!,
+                    current: phase3Data.current!,
+                    power: phase3Data.power!,
+                    energy_wh: 0,
+                    powerFactor: phase3Data.powerFactor!,
+                    provenance: phase3Data.provenance
+                }
+            },
+            total: {
+                energy_wh: 0,
+                voltage: genTotalVoltage,
+                current: genTotalCurrent,
+                power: genTotalPower,
+                provenance: totalProvenance
+            },
+            timestamp: new Date(generatedTs * 1000).toISOString(),
+            ...(clockCorrection !== 0 && { clockCorrectionSeconds: clockCorrection })
+        };
+
+        // Checked before energy is resolved, so a bad reading never becomes an integration anchor
+        const violations = options.skipPlausibility ? [] : plausibilityService.check(deviceId, threePhaseReadings);
+        if (violations.length > 0) {
+            return {
+                ok: false,
+                message: `Implausible reading: ${violations.map(describeViolation).join('; ')}`,
+                quarantine: {
+                    deviceId,
+                    timestamp: threePhaseReadings.timestamp,
+                    input: { ...input, ts: generatedTs },
+                    violations
+                }
+            };
+        }
+
+        await this.resolveEnergy(deviceId, threePhaseReadings, {
+            '1': p1_energy_wh,
+            '2': p2_energy_wh,
+            '3': p3_energy_wh,
+            total: total_energy_wh
+        }, options.energyScope);
+
+        if (ts && clockMode !== 'none') await resolveClock(true);
+
+        return { ok: true, deviceId, readings: threePhaseReadings };
+    }
+
+    /**
+     * Flat input of an already structured reading (ESP32 JSON uploads), for
+     * quarantine entries that are validated again on release
+     */
+    toInput(readings: ThreePhaseReadings): ThreePhaseInput {
+        const { phases, total } = readings;
+        return {
+            ts: Math.floor(new Date(readings.timestamp).getTime() / 1000),
+            p1_voltage: phases['1'].voltage, p1_current: phases['1'].current, p1_power: phases['1'].power,
+            p1_energy_wh: phases['1'].energy_wh, p1_powerFactor: phases['1'].powerFactor,
+            p2_voltage: phases['2'].voltage, p2_current: phases['2'].current, p2_power: phases['2'].power,
+            p2_energy_wh: phases['2'].energy_wh, p2_powerFactor: phases['2'].powerFactor,
+            p3_voltage: phases['3'].voltage, p3_current: phases['3'].current, p3_power: phases['3'].power,
+            p3_energy_wh: phases['3'].energy_wh, p3_powerFactor: phases['3'].powerFactor,
+            total_energy_wh: total.energy_wh,
+            total_voltage: total.voltage,
+            total_current: total.current,
+            total_power: total.power
+        };
+    }
+
+    /**
+     * CSV batch: header row of short parameter names, one reading per line
+     */
+    private parseCsv(text: string): BatchParseResult {
+        const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+        if (lines.length < 2) {
+            return { ok: false, message: 'CSV body needs a header row and at least one reading' };
+        }
+
+        const header = lines[0].split(',').map(column => column.trim());
+        if (!header.includes('ts')) {
+            return { ok: false, message: 'CSV header must include ts' };
+        }
+
+        const rowErrors = new Map<number, string>();
+        const rows = lines.slice(1).map((line, index) => {
+            const values = line.split(',').map(value => value.trim());
+            if (values.length !== header.length) {
+                rowErrors.set(index, `Expected ${header.length} columns, got ${values.length}`);
+                return {};
+            }
+            return Object.fromEntries(header.map((column, i) => [column, values[i]]).filter(([, value]) => value !== ''));
+        });
+
+        return { ok: true, rows, rowErrors };
+    }
+
+    /**
+     * Per-channel provenance summaries, echoed back to the device
+     */
+    getProvenanceSummary(readings: ThreePhaseReadings): Record<'1' | '2' | '3' | 'total', ProvenanceSummary> {
+        return {
+            '1': summarizeProvenance(PHASE_PROVENANCE_FIELDS, readings.phases['1'].provenance || {}),
+            '2': summarizeProvenance(PHASE_PROVENANCE_FIELDS, readings.phases['2'].provenance || {}),
+            '3': summarizeProvenance(PHASE_PROVENANCE_FIELDS, readings.phases['3'].provenance || {}),
+            total: summarizeProvenance(TOTAL_PROVENANCE_FIELDS, readings.total.provenance || {})
+        };
+    }
+
+    /**
+     * Fill in missing phase data from what the device sent, recording
+     * which fields were measured, derived or defaulted
+     */
+    private generatePhaseData(voltage?: number, current?: number, power?: number, powerFactor?: number) {
+        let genVoltage = voltage;
+        let genCurrent = current;
+        let genPower = power;
+        let genPf = powerFactor;
+        const provenance: Partial<Record<string, Provenance>> = {
+            voltage: 'measured',
+            current: 'measured',
+            power: 'measured',
+            power_factor: 'measured'
+        };
+
+        // Generate power factor if missing (default to 0.95 for typical residential)
+        if (genPf === undefined) {
+            genPf = 0.95;
+            provenance.power_factor = 'defaulted';
+        }
+
+        // Generate voltage if missing (default to 230V for standard mains)
+        if (genVoltage === undefined) {
+            genVoltage = 230.0;
+            provenance.voltage = 'defaulted';
+        }
+
+        // If we have voltage, current, and power factor, calculate power
+        if (genVoltage !== undefined && genCurrent !== undefined && genPf !== undefined && genPower === undefined) {
+            genPower = genVoltage * genCurrent * genPf;
+            provenance.power = derivedFrom(provenance.voltage, provenance.current, provenance.power_factor);
+        }
+
+        // If current is missing but we have voltage and power
+        if (genCurrent === undefined && genPower !== undefined && genVoltage !== undefined && genVoltage > 0 && genPf !== undefined && genPf > 0) {
+            genCurrent = genPower / (genVoltage * genPf);
+            provenance.current = derivedFrom(provenance.power, provenance.voltage, provenance.power_factor);
+        }
+
+        return {
+            voltage: genVoltage,
+            current: genCurrent,
+            power: genPower,
+            powerFactor: genPf,
+            provenance
+        };
+    }
+
+    /**
+     * Resolve interval energy per phase and for the total
+     * - cumulative-mode devices: register deltas
+     * - interval energy sent by the device: used as-is
+     * - otherwise: power integrated over the time since the previous sample
+     */
+    private async resolveEnergy(
+        deviceId: string,
+        readings: ThreePhaseReadings,
+        sent: { '1'?: number; '2'?: number; '3'?: number; total?: number },
+        scope = ''
+    ): Promise<void> {
+        const device = getDeviceById(deviceId);
+        const cumulative = device?.energyMode === 'cumulative';
+        const timestamp = new Date(readings.timestamp);
+        const integrationOptions = {
+            ...DEFAULT_INTEGRATION_OPTIONS,
+            ...(device?.reportingIntervalSeconds && { nominalIntervalSeconds: device.reportingIntervalSeconds })
+        };
+
+        for (const phaseNum of ['1', '2', '3'] as const) {
+            const phase = readings.phases[phaseNum];
+            const seriesKey = `${scope}${deviceId}:${phaseNum}`;
+            const energy = sent[phaseNum];
+
+            if (energy !== undefined) {
+                phase.energy_wh = energy;
+                phase.energy_method = cumulative ? 'register' : 'measured';
+                phase.provenance!.energy_wh = 'measured';
+                await energyIntegrationService.record(seriesKey, timestamp, phase.power);
+                continue;
+            }
+
+            const integrated = await energyIntegrationService.integrate(
+                seriesKey,
+                timestamp,
+                phase.power,
+                integrationOptions,
+                () => this.loadPreviousPower(deviceId, phaseNum, timestamp)
+            );
+            phase.energy_wh = integrated.energyWh;
+            phase.energy_method = integrated.method;
+            phase.provenance!.energy_wh = derivedFrom(phase.provenance!.power);
+        }
+
+        if (cumulative) {
+            // Replaces register values with deltas and sums the phases when no total register was sent
+            await energyRegisterService.applyToReadings(
+                deviceId,
+                readings,
+                { '1': sent['1'], '2': sent['2'], '3': sent['3'], total: sent.total },
+                { ...DEFAULT_REGISTER_OPTIONS, ...device.register },
+                scope || undefined
+            );
+        } else if (sent.total !== undefined) {
+            readings.total.energy_wh = sent.total;
+        } else {
+            readings.total.energy_wh = Object.values(readings.phases).reduce((sum, p) => sum + p.energy_wh, 0);
+        }
+
+        readings.total.provenance!.energy_wh = sent.total !== undefined
+            ? 'measured'
+            : derivedFrom(...Object.values(readings.phases).map(p => p.provenance!.energy_wh));
+
+        readings.total.energy_method = sent.total !== undefined
+            ? (cumulative ? 'register' : 'measured')
+            : Object.values(readings.phases)
+                .map(p => p.energy_method as EnergyMethod)
+                .reduce((worst, method) => METHOD_RANK.indexOf(method) > METHOD_RANK.indexOf(worst) ? method : worst, 'measured');
+    }
+
+    /**
+     * Last stored power sample for a phase, before the given time
+     */
+    private async loadPreviousPower(deviceId: string, phase: string, before: Date) {
+        const rows = await storage.queryRange({
+            measurement: 'three_phase_energy',
+            fields: ['power'],
+            where: { device_id: deviceId, phase },
+            since: '1 day',
+            to: before,
+            order: 'desc',
+            limit: 1
+        });
+        return rows.length > 0 ? { time: rows[0].time.getTime(), powerW: rows[0].power } : null;
+    }
+}
+
+/**
+ * Normalise a JSON reading to query-string style parameters
+ * Values go through the same parsing as query strings, so 0 is kept
+ */
+export const toParams = (reading: unknown): Record<string, string> => Object.fromEntries(
+    Object.entries(reading && typeof reading === 'object' ? reading : {})
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+);
+
+// Short parameter name of each ThreePhaseInput field (the inverse of parseQuery)
+const SHORT_PARAM_NAMES: Record<keyof ThreePhaseInput, string> = {
+    deviceId: 'd', ts: 'ts',
+    p1_voltage: 'v1', p1_current: 'c1', p1_power: 'p1', p1_energy_wh: 'e1', p1_powerFactor: 'pf1',
+    p2_voltage: 'v2', p2_current: 'c2', p2_power: 'p2', p2_energy_wh: 'e2', p2_powerFactor: 'pf2',
+    p3_voltage: 'v3', p3_current: 'c3', p3_power: 'p3', p3_energy_wh: 'e3', p3_powerFactor: 'pf3',
+    total_energy_wh: 'te', total_voltage: 'tv', total_current: 'tc', total_power: 'tp'
+};
+
+/**
+ * Query-string style parameters of a flat input (archived quarantine releases)
+ */
+export const toShortParams = (input: ThreePhaseInput): Record<string, string> => Object.fromEntries(
+    (Object.entries(input) as [keyof ThreePhaseInput, unknown][])
+        .filter(([key, value]) => key in SHORT_PARAM_NAMES && value !== null && value !== undefined)
+        .map(([key, value]) => [SHORT_PARAM_NAMES[key], String(value)])
+);
+
+export default new ThreePhaseIngestService();
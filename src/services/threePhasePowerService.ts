@@ -1,6 +1,31 @@
-import { Point } from '@influxdata/influxdb3-client';
-import { influxClient, database } from '../db';
-import { ThreePhaseReadings, PhaseReading, HourlyUsageData, PhaseData } from '../types';
+import { storage } from '../db';
+import { StoragePoint, StorageRow } from '../storage';
+import { intervalToMs } from '../storage/interval';
+import { ThreePhaseReadings, PhaseReading, HourlyUsageData, PhaseData, DataQualityIndicator, DataQualityCounts } from '../types';
+import ingestionQueue from './ingestionQueue';
+import rollupService, { RollupRow } from './rollupService';
+import {
+    NOT_DEFAULTED,
+    PHASE_PROVENANCE_FIELDS,
+    TOTAL_PROVENANCE_FIELDS,
+    describeProvenance,
+    summarizeProvenance
+} from '../utils/provenance';
+import { DEFAULT_TIMEZONE, zonedDateString, zonedDayRange, zonedDayStart, zonedHour } from '../utils/timezone';
+
+// Span of a window answered from rollups; the rest of the window is read from raw rows
+export interface RollupCoverage {
+    from: string;
+    to: string;
+}
+
+interface CoveredRollups {
+    rows: RollupRow[];
+    coverage: RollupCoverage;
+    gaps: { from: Date; to: Date }[];
+}
+
+const ROLLUP_BUCKET_MS: Record<'1h' | '1d', number> = { '1h': 60 * 60 * 1000, '1d': 24 * 60 * 60 * 1000 };
 
 /**
  * Three-Phase Power Monitoring Service
@@ -10,66 +35,115 @@ class ThreePhasePowerService {
 
     /**
      * Store 3-phase energy reading
+     * Resolves once the reading is durably queued; the queue writes it to storage
+     * `related` points (raw payload, diagnostics) go into the same queue entry
      */
-    async store3PhaseReading(deviceId: string, readings: ThreePhaseReadings): Promise<void> {
+    async store3PhaseReading(deviceId: string, readings: ThreePhaseReadings, related: StoragePoint[] = []): Promise<void> {
         try {
-            const points: any[] = [];
-
-            // Store each phase reading
-            for (const [phaseNum, phaseData] of Object.entries(readings.phases)) {
-                const point = Point.measurement('three_phase_energy')
-                    .setTag('device_id', deviceId)
-                    .setTag('phase', phaseNum)
-                    .setFloatField('voltage', phaseData.voltage)
-                    .setFloatField('current', phaseData.current)
-                    .setFloatField('power', phaseData.power)
-                    .setFloatField('energy_wh', phaseData.energy_wh)
-                    .setFloatField('power_factor', phaseData.powerFactor)
-                    .setTimestamp(new Date(readings.timestamp));
-                
-                points.push(point);
-            }
-
-            // Store total/aggregate reading
-            const totalPoint = Point.measurement('three_phase_total')
-                .setTag('device_id', deviceId)
-                .setFloatField('total_energy_wh', readings.total.energy_wh)
-                .setFloatField('avg_voltage', readings.total.voltage)
-                .setFloatField('total_current', readings.total.current)
-                .setFloatField('total_power', readings.total.power)
-                .setTimestamp(new Date(readings.timestamp));
-            
-            points.push(totalPoint);
-
-            await influxClient.write(points, database);
-            console.log(`3-phase reading stored for device ${deviceId}`);
+            await ingestionQueue.enqueue([...this.toPoints(deviceId, readings), ...related]);
+            console.log(`3-phase reading queued for device ${deviceId}`);
         } catch (error) {
             console.error('Error storing 3-phase reading:', error);
             throw error;
         }
     }
 
+    /**
+     * Store many readings of one device as a single queue entry
+     */
+    async store3PhaseReadings(deviceId: string, readingsList: ThreePhaseReadings[], related: StoragePoint[] = []): Promise<void> {
+        if (readingsList.length === 0) return;
+        try {
+            await ingestionQueue.enqueue([...readingsList.flatMap(readings => this.toPoints(deviceId, readings)), ...related]);
+            console.log(`${readingsList.length} 3-phase readings queued for device ${deviceId}`);
+        } catch (error) {
+            console.error('Error storing 3-phase readings:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Overwrite stored readings in place (reprocessing)
+     * Written straight to storage, so rollups can be recomputed right after
+     */
+    async rewrite3PhaseReadings(deviceId: string, readingsList: ThreePhaseReadings[]): Promise<void> {
+        if (readingsList.length === 0) return;
+        await storage.write(readingsList.flatMap(readings => this.toPoints(deviceId, readings)));
+        console.log(`${readingsList.length} 3-phase readings rewritten for device ${deviceId}`);
+    }
+
+    private toPoints(deviceId: string, readings: ThreePhaseReadings): StoragePoint[] {
+        const points: StoragePoint[] = [];
+
+        // Store each phase reading
+        for (const [phaseNum, phaseData] of Object.entries(readings.phases) as [string, PhaseReading][]) {
+            const provenance = phaseData.provenance && summarizeProvenance(PHASE_PROVENANCE_FIELDS, phaseData.provenance);
+            points.push({
+                measurement: 'three_phase_energy',
+                tags: { device_id: deviceId, phase: phaseNum },
+                fields: {
+                    voltage: phaseData.voltage,
+                    current: phaseData.current,
+                    power: phaseData.power,
+                    energy_wh: phaseData.energy_wh,
+                    power_factor: phaseData.powerFactor,
+                    ...(phaseData.energy_register_wh !== undefined && { energy_register_wh: phaseData.energy_register_wh }),
+                    ...(phaseData.register_event && { register_event: phaseData.register_event }),
+                    ...(phaseData.energy_method && { energy_method: phaseData.energy_method }),
+                    ...(provenance && {
+                        quality: provenance.quality,
+                        energy_quality: phaseData.provenance!.energy_wh || 'measured',
+                        derived_mask: provenance.derivedMask,
+                        defaulted_mask: provenance.defaultedMask
+                    })
+                },
+                timestamp: new Date(readings.timestamp)
+            });
+        }
+
+        // Store total/aggregate reading
+        const totalProvenance = readings.total.provenance && summarizeProvenance(TOTAL_PROVENANCE_FIELDS, readings.total.provenance);
+        points.push({
+            measurement: 'three_phase_total',
+            tags: { device_id: deviceId },
+            fields: {
+                total_energy_wh: readings.total.energy_wh,
+                avg_voltage: readings.total.voltage,
+                total_current: readings.total.current,
+                total_power: readings.total.power,
+                ...(readings.total.energy_register_wh !== undefined && { total_energy_register_wh: readings.total.energy_register_wh }),
+                ...(readings.total.register_event && { register_event: readings.total.register_event }),
+                ...(readings.total.energy_method && { energy_method: readings.total.energy_method }),
+                ...(totalProvenance && {
+                    quality: totalProvenance.quality,
+                    energy_quality: readings.total.provenance!.energy_wh || 'measured',
+                    derived_mask: totalProvenance.derivedMask,
+                    defaulted_mask: totalProvenance.defaultedMask
+                }),
+                ...(readings.clockCorrectionSeconds && { clock_correction_s: readings.clockCorrectionSeconds })
+            },
+            timestamp: new Date(readings.timestamp)
+        });
+
+        return points;
+    }
+
     /**
      * Get latest 3-phase readings for a device
      */
     async getLatestReadings(deviceId: string, phases: number[] = [1, 2, 3]): Promise<ThreePhaseReadings | null> {
         try {
-            const phaseCondition = phases.map(p => `'${p}'`).join(', ');
-            
-            const query = `
-                SELECT time, phase, voltage, current, power, energy_wh, power_factor
-                FROM three_phase_energy
-                WHERE device_id = '${deviceId}'
-                  AND phase IN (${phaseCondition})
-                ORDER BY time DESC
-                LIMIT ${phases.length}
-            `;
-
-            const result = await influxClient.query(query, database);
+            const result = await storage.queryRange({
+                measurement: 'three_phase_energy',
+                fields: ['phase', 'voltage', 'current', 'power', 'energy_wh', 'power_factor'],
+                where: { device_id: deviceId, phase: phases.map(p => p.toString()) },
+                order: 'desc',
+                limit: phases.length
+            });
             const phaseReadings: any = {};
-            let latestTime: string | null = null;
+            let latestTime: Date | null = null;
 
-            for await (const row of result) {
+            for (const row of result) {
                 if (!latestTime) latestTime = row.time;
                 
                 phaseReadings[row.phase] = {
@@ -86,15 +160,13 @@ class ThreePhasePowerService {
             }
 
             // Get total data
-            const totalQuery = `
-                SELECT time, total_energy_wh, avg_voltage, total_current, total_power
-                FROM three_phase_total
-                WHERE device_id = '${deviceId}'
-                ORDER BY time DESC
-                LIMIT 1
-            `;
-
-            const totalResult = await influxClient.query(totalQuery, database);
+            const totalResult = await storage.queryRange({
+                measurement: 'three_phase_total',
+                fields: ['total_energy_wh', 'avg_voltage', 'total_current', 'total_power'],
+                where: { device_id: deviceId },
+                order: 'desc',
+                limit: 1
+            });
             let totalData = {
                 energy_wh: 0,
                 voltage: 230,
@@ -102,7 +174,7 @@ class ThreePhasePowerService {
                 power: 0
             };
 
-            for await (const row of totalResult) {
+            for (const row of totalResult) {
                 totalData = {
                     energy_wh: row.total_energy_wh,
                     voltage: row.avg_voltage,
@@ -111,10 +183,15 @@ class ThreePhasePowerService {
                 };
             }
 
+            const quality = await this.getLatestDataQuality(deviceId, phases);
+            for (const phase of Object.keys(phaseReadings)) {
+                phaseReadings[phase].dataQuality = quality[phase] || toDataQuality(PHASE_PROVENANCE_FIELDS);
+            }
+
             return {
                 phases: phaseReadings,
-                total: totalData,
-                timestamp: latestTime ? new Date(latestTime).toISOString() : new Date().toISOString()
+                total: { ...totalData, dataQuality: quality.total || toDataQuality(TOTAL_PROVENANCE_FIELDS) },
+                timestamp: latestTime ? latestTime.toISOString() : new Date().toISOString()
             };
         } catch (error) {
             console.error('Error getting latest readings:', error);
@@ -123,49 +200,86 @@ class ThreePhasePowerService {
     }
 
     /**
-     * Get hourly usage data for a specific date
+     * Provenance of the latest per-phase and total readings
+     * Readings stored before provenance tracking (or a store without the
+     * columns yet) report 'unknown'
      */
-    async getHourlyUsage(deviceId: string, date: string, phases: number[] = [1, 2, 3]): Promise<HourlyUsageData[]> {
+    private async getLatestDataQuality(deviceId: string, phases: number[]): Promise<Record<string, DataQualityIndicator>> {
+        const quality: Record<string, DataQualityIndicator> = {};
         try {
-            const startDate = new Date(date);
-            startDate.setHours(0, 0, 0, 0);
-            
-            const endDate = new Date(date);
-            endDate.setHours(23, 59, 59, 999);
+            const phaseRows = await storage.queryRange({
+                measurement: 'three_phase_energy',
+                fields: ['phase', 'quality', 'derived_mask', 'defaulted_mask'],
+                where: { device_id: deviceId, phase: phases.map(p => p.toString()) },
+                order: 'desc',
+                limit: phases.length
+            });
+            for (const row of phaseRows) {
+                if (!quality[row.phase]) quality[row.phase] = toDataQuality(PHASE_PROVENANCE_FIELDS, row);
+            }
 
-            const hourlyData: HourlyUsageData[] = [];
+            const totalRows = await storage.queryRange({
+                measurement: 'three_phase_total',
+                fields: ['quality', 'derived_mask', 'defaulted_mask'],
+                where: { device_id: deviceId },
+                order: 'desc',
+                limit: 1
+            });
+            if (totalRows.length > 0) quality.total = toDataQuality(TOTAL_PROVENANCE_FIELDS, totalRows[0]);
+        } catch (error) {
+            console.warn(`Could not load data quality for ${deviceId}`);
+        }
+        return quality;
+    }
 
-            // Generate 24 hours
-            for (let hour = 0; hour < 24; hour++) {
-                const hourStart = new Date(startDate);
-                hourStart.setHours(hour);
-                
-                const hourEnd = new Date(startDate);
-                hourEnd.setHours(hour + 1);
+    /**
+     * Get hourly usage data for a specific local date
+     * Single query binned by hour from local midnight in the given timezone;
+     * several device IDs (a site) are summed
+     */
+    async getHourlyUsage(
+        deviceId: string | string[],
+        date: string,
+        phases: number[] = [1, 2, 3],
+        timeZone: string = DEFAULT_TIMEZONE,
+        excludeDefaulted: boolean = false
+    ): Promise<HourlyUsageData[]> {
+        try {
+            const { start, end } = zonedDayRange(date, timeZone);
+
+            const result = await storage.aggregate({
+                measurement: 'three_phase_energy',
+                aggregates: { total_wh: { fn: 'sum', field: 'energy_wh' } },
+                where: {
+                    device_id: deviceId,
+                    phase: phases.map(p => p.toString()),
+                    ...(excludeDefaulted && { energy_quality: NOT_DEFAULTED })
+                },
+                from: start,
+                to: end,
+                groupBy: ['phase'],
+                bin: { every: '1 hour', origin: start }
+            });
+
+            // Index results by bucket start and phase
+            const energyByBucket = new Map<number, Record<string, number>>();
+            for (const row of result) {
+                const bucket = row.time.getTime();
+                if (!energyByBucket.has(bucket)) energyByBucket.set(bucket, {});
+                energyByBucket.get(bucket)![row.phase] = row.total_wh || 0;
+            }
+
+            const hourlyData: HourlyUsageData[] = [];
+            const hourMs = 60 * 60 * 1000;
 
+            // One entry per local hour (23 or 25 on DST transition days)
+            for (let bucket = start.getTime(); bucket < end.getTime(); bucket += hourMs) {
+                const hour = zonedHour(new Date(bucket), timeZone);
                 const phaseEnergy: any = { hour: hour.toString().padStart(2, '0') + ':00' };
+                const energy = energyByBucket.get(bucket) || {};
 
-                // Query energy for each phase in this hour
                 for (const phase of phases) {
-                    const query = `
-                        SELECT SUM(energy_wh) as total_wh
-                        FROM three_phase_energy
-                        WHERE device_id = '${deviceId}'
-                          AND phase = '${phase}'
-                          AND time >= '${hourStart.toISOString()}'
-                          AND time < '${hourEnd.toISOString()}'
-                    `;
-
-                    const result = await influxClient.query(query, database);
-                    
-                    for await (const row of result) {
-                        phaseEnergy[`phase${phase}`] = parseFloat(((row.total_wh || 0) / 1000).toFixed(3)); // Convert to kWh
-                    }
-
-                    // Set to 0 if no data
-                    if (!phaseEnergy[`phase${phase}`]) {
-                        phaseEnergy[`phase${phase}`] = 0;
-                    }
+                    phaseEnergy[`phase${phase}`] = parseFloat(((energy[phase.toString()] || 0) / 1000).toFixed(3)); // Convert to kWh
                 }
 
                 hourlyData.push(phaseEnergy);
@@ -183,18 +297,16 @@ class ThreePhasePowerService {
      */
     async getDeviceHealthStatus(deviceId: string): Promise<'ok' | 'warning' | 'offline'> {
         try {
-            const query = `
-                SELECT time
-                FROM three_phase_total
-                WHERE device_id = '${deviceId}'
-                ORDER BY time DESC
-                LIMIT 1
-            `;
-
-            const result = await influxClient.query(query, database);
-            
-            for await (const row of result) {
-                const lastTime = new Date(row.time);
+            const result = await storage.queryRange({
+                measurement: 'three_phase_total',
+                fields: ['time'],
+                where: { device_id: deviceId },
+                order: 'desc',
+                limit: 1
+            });
+
+            for (const row of result) {
+                const lastTime: Date = row.time;
                 const now = new Date();
                 const minutesSinceLastData = (now.getTime() - lastTime.getTime()) / (1000 * 60);
 
@@ -219,16 +331,14 @@ class ThreePhasePowerService {
      */
     async get24HourEnergy(deviceId: string): Promise<number> {
         try {
-            const query = `
-                SELECT SUM(total_energy_wh) as total_wh
-                FROM three_phase_total
-                WHERE device_id = '${deviceId}'
-                  AND time >= now() - INTERVAL '24 hours'
-            `;
-
-            const result = await influxClient.query(query, database);
-            
-            for await (const row of result) {
+            const result = await storage.aggregate({
+                measurement: 'three_phase_total',
+                aggregates: { total_wh: { fn: 'sum', field: 'total_energy_wh' } },
+                where: { device_id: deviceId },
+                since: '24 hours'
+            });
+
+            for (const row of result) {
                 return parseFloat(((row.total_wh || 0) / 1000).toFixed(2)); // Convert to kWh
             }
 
@@ -244,19 +354,18 @@ class ThreePhasePowerService {
      */
     async getPhaseContributions(deviceId: string): Promise<{ [key: string]: PhaseData }> {
         try {
-            const query = `
-                SELECT phase, 
-                       AVG(voltage) as avg_voltage,
-                       AVG(current) as avg_current,
-                       AVG(power) as avg_power,
-                       SUM(energy_wh) as total_energy
-                FROM three_phase_energy
-                WHERE device_id = '${deviceId}'
-                  AND time >= now() - INTERVAL '24 hours'
-                GROUP BY phase
-            `;
-
-            const result = await influxClient.query(query, database);
+            const result = await storage.aggregate({
+                measurement: 'three_phase_energy',
+                aggregates: {
+                    avg_voltage: { fn: 'avg', field: 'voltage' },
+                    avg_current: { fn: 'avg', field: 'current' },
+                    avg_power: { fn: 'avg', field: 'power' },
+                    total_energy: { fn: 'sum', field: 'energy_wh' }
+                },
+                where: { device_id: deviceId },
+                since: '24 hours',
+                groupBy: ['phase']
+            });
             const phaseData: any = {};
             let totalEnergy = 0;
 
@@ -269,7 +378,7 @@ class ThreePhasePowerService {
             }
             const tempData: Record<string, TempPhaseData> = {};
             
-            for await (const row of result) {
+            for (const row of result) {
                 tempData[row.phase] = {
                     voltage: row.avg_voltage,
                     current: row.avg_current,
@@ -300,38 +409,34 @@ class ThreePhasePowerService {
     /**
      * Get statistics for a time period
      */
-    async getStatistics(deviceId: string, period: 'today' | 'week' | 'month'): Promise<any> {
+    async getStatistics(
+        deviceId: string,
+        period: 'today' | 'week' | 'month',
+        timeZone: string = DEFAULT_TIMEZONE,
+        excludeDefaulted: boolean = false
+    ): Promise<any> {
         try {
-            let interval = '24 hours';
-            if (period === 'week') interval = '7 days';
-            if (period === 'month') interval = '30 days';
-
-            const query = `
-                SELECT 
-                    SUM(total_energy_wh) as total_energy,
-                    AVG(avg_voltage) as avg_voltage,
-                    MAX(total_power) as peak_power
-                FROM three_phase_total
-                WHERE device_id = '${deviceId}'
-                  AND time >= now() - INTERVAL '${interval}'
-            `;
-
-            const result = await influxClient.query(query, database);
-            
-            for await (const row of result) {
+            // 'today' is the local calendar day so far; week/month are rolling windows
+            const window = period === 'week' ? { since: '7 days' }
+                : period === 'month' ? { since: '30 days' }
+                : { from: zonedDayStart(zonedDateString(new Date(), timeZone), timeZone) };
+
+            // Rollups mix all qualities, so excluding defaulted values reads raw rows
+            const result = await this.getTotalsSummary(deviceId, period !== 'today' && !excludeDefaulted, window, excludeDefaulted);
+            const dataQuality = await this.getDataQualityCounts(deviceId, window);
+
+            for (const row of result) {
                 // Get latest reading for timestamp
-                const latestQuery = `
-                    SELECT time, total_energy_wh, avg_voltage, total_current
-                    FROM three_phase_total
-                    WHERE device_id = '${deviceId}'
-                    ORDER BY time DESC
-                    LIMIT 1
-                `;
-
-                const latestResult = await influxClient.query(latestQuery, database);
+                const latestResult = await storage.queryRange({
+                    measurement: 'three_phase_total',
+                    fields: ['total_energy_wh', 'avg_voltage', 'total_current'],
+                    where: { device_id: deviceId },
+                    order: 'desc',
+                    limit: 1
+                });
                 let latestReading: any = null;
 
-                for await (const latest of latestResult) {
+                for (const latest of latestResult) {
                     latestReading = {
                         timestamp: latest.time,
                         energy: parseFloat(((latest.total_energy_wh || 0) / 1000).toFixed(2)),
@@ -344,7 +449,10 @@ class ThreePhasePowerService {
                     totalEnergy: parseFloat(((row.total_energy || 0) / 1000).toFixed(2)),
                     averageVoltage: parseFloat((row.avg_voltage || 230).toFixed(1)),
                     peakPower: parseFloat((row.peak_power || 0).toFixed(0)),
-                    latestReading
+                    latestReading,
+                    dataQuality,
+                    excludeDefaulted,
+                    rollupCoverage: row.rollupCoverage ?? null
                 };
             }
 
@@ -352,7 +460,10 @@ class ThreePhasePowerService {
                 totalEnergy: 0,
                 averageVoltage: 230,
                 peakPower: 0,
-                latestReading: null
+                latestReading: null,
+                dataQuality,
+                excludeDefaulted,
+                rollupCoverage: null
             };
         } catch (error) {
             console.error('Error getting statistics:', error);
@@ -360,6 +471,93 @@ class ThreePhasePowerService {
         }
     }
 
+    /**
+     * Energy sum, average voltage and peak power over a window
+     * Long windows read hourly rollups where they are up to date and raw rows
+     * for the rest (not yet backfilled, or stored since the last rollup flush)
+     */
+    private async getTotalsSummary(
+        deviceId: string,
+        useRollups: boolean,
+        window: { since?: string; from?: Date },
+        excludeDefaulted: boolean = false
+    ): Promise<StorageRow[]> {
+        const covered = useRollups ? await this.getCoveredRollups(deviceId, '1h', window) : null;
+        if (covered) {
+            const summary = rollupService.combine(covered.rows, covered.rows[0].time, 'total');
+            const raw = await Promise.all(covered.gaps.map(gap => storage.aggregate({
+                measurement: 'three_phase_total',
+                aggregates: {
+                    total_energy: { fn: 'sum', field: 'total_energy_wh' },
+                    avg_voltage: { fn: 'avg', field: 'avg_voltage' },
+                    peak_power: { fn: 'max', field: 'total_power' },
+                    readings: { fn: 'count', field: 'total_power' }
+                },
+                where: { device_id: deviceId },
+                from: gap.from,
+                to: gap.to
+            })));
+
+            const parts = [
+                { total_energy: summary.energy_wh, avg_voltage: summary.voltage_avg, peak_power: summary.power_max, readings: summary.sample_count },
+                ...raw.flat()
+            ].filter(part => (part.readings || 0) > 0);
+            const readings = parts.reduce((sum, part) => sum + part.readings, 0);
+            return [{
+                total_energy: parts.reduce((sum, part) => sum + (part.total_energy || 0), 0),
+                avg_voltage: readings > 0 ? parts.reduce((sum, part) => sum + (part.avg_voltage || 0) * part.readings, 0) / readings : null,
+                peak_power: Math.max(0, ...parts.map(part => part.peak_power || 0)),
+                rollupCoverage: covered.coverage
+            }];
+        }
+
+        return storage.aggregate({
+            measurement: 'three_phase_total',
+            aggregates: {
+                total_energy: { fn: 'sum', field: 'total_energy_wh' },
+                avg_voltage: { fn: 'avg', field: 'avg_voltage' },
+                peak_power: { fn: 'max', field: 'total_power' }
+            },
+            where: { device_id: deviceId, ...(excludeDefaulted && { energy_quality: NOT_DEFAULTED }) },
+            ...window
+        });
+    }
+
+    /**
+     * Number of total readings per quality over a window
+     */
+    private async getDataQualityCounts(deviceId: string, window: { since?: string; from?: Date }): Promise<DataQualityCounts> {
+        const counts: DataQualityCounts = { measured: 0, derived: 0, defaulted: 0, unknown: 0, measuredShare: 0 };
+        try {
+            const rows = await storage.aggregate({
+                measurement: 'three_phase_total',
+                aggregates: { readings: { fn: 'count', field: 'total_power' } },
+                where: { device_id: deviceId },
+                ...window,
+                groupBy: ['quality']
+            });
+            for (const row of rows) {
+                const key: keyof DataQualityCounts = row.quality === 'measured' || row.quality === 'derived' || row.quality === 'defaulted'
+                    ? row.quality
+                    : 'unknown';
+                counts[key] += row.readings || 0;
+            }
+        } catch (error) {
+            // The quality column does not exist until a reading with provenance has been stored
+            const rows = await storage.aggregate({
+                measurement: 'three_phase_total',
+                aggregates: { readings: { fn: 'count', field: 'total_power' } },
+                where: { device_id: deviceId },
+                ...window
+            });
+            counts.unknown = rows[0]?.readings || 0;
+        }
+
+        const total = counts.measured + counts.derived + counts.defaulted + counts.unknown;
+        counts.measuredShare = total > 0 ? parseFloat((counts.measured / total).toFixed(3)) : 0;
+        return counts;
+    }
+
     /**
      * Get analytics data for charts
      */
@@ -380,37 +578,141 @@ class ThreePhasePowerService {
                 groupBy = '1 day';
             }
 
-            const query = `
-                SELECT 
-                    DATE_BIN(INTERVAL '${groupBy}', time) as time_bucket,
-                    AVG(total_energy_wh) as avg_energy,
-                    AVG(avg_voltage) as avg_voltage,
-                    AVG(total_power) as avg_power
-                FROM three_phase_total
-                WHERE device_id = '${deviceId}'
-                  AND time >= now() - INTERVAL '${interval}'
-                GROUP BY time_bucket
-                ORDER BY time_bucket ASC
-            `;
-
-            const result = await influxClient.query(query, database);
+            // 7d and 30d charts read hourly/daily rollups when available
+            const trend = period === '24h' ? null : await this.getRollupTrend(deviceId, interval, groupBy, period === '30d' ? '1d' : '1h');
+            let result = trend ? trend.rows : [];
+
+            if (!trend) {
+                result = await storage.aggregate({
+                    measurement: 'three_phase_total',
+                    aggregates: {
+                        avg_energy: { fn: 'avg', field: 'total_energy_wh' },
+                        avg_voltage: { fn: 'avg', field: 'avg_voltage' },
+                        avg_power: { fn: 'avg', field: 'total_power' }
+                    },
+                    where: { device_id: deviceId },
+                    since: interval,
+                    bin: { every: groupBy }
+                });
+            }
             const energyTrend: any[] = [];
 
-            for await (const row of result) {
+            for (const row of result) {
                 energyTrend.push({
-                    time: row.time_bucket,
+                    time: row.time,
                     energy: parseFloat(((row.avg_energy || 0) / 1000).toFixed(2)),
                     voltage: parseFloat((row.avg_voltage || 230).toFixed(1)),
                     charge: 0 // Deprecated but kept for compatibility
                 });
             }
 
-            return { energyTrend };
+            return { energyTrend, rollupCoverage: trend ? trend.coverage : null };
         } catch (error) {
             console.error('Error getting analytics data:', error);
             throw error;
         }
     }
+
+    /**
+     * Chart buckets built from rollups, in the same shape as the raw DATE_BIN query
+     * Raw rows fill the parts of the window the rollups do not cover; null without rollups
+     */
+    private async getRollupTrend(
+        deviceId: string,
+        interval: string,
+        groupBy: string,
+        resolution: '1h' | '1d'
+    ): Promise<{ rows: StorageRow[]; coverage: RollupCoverage } | null> {
+        const covered = await this.getCoveredRollups(deviceId, resolution, { since: interval });
+        if (!covered) return null;
+        const bucketMs = intervalToMs(groupBy);
+
+        // Per chart bucket: energy, and voltage / power weighted by sample count
+        const buckets = new Map<number, { energy: number; voltage: number; power: number; samples: number }>();
+        const add = (time: Date, energy: number, voltage: number, power: number, samples: number) => {
+            const bucket = Math.floor(time.getTime() / bucketMs) * bucketMs;
+            if (!buckets.has(bucket)) buckets.set(bucket, { energy: 0, voltage: 0, power: 0, samples: 0 });
+            const totals = buckets.get(bucket)!;
+            totals.energy += energy;
+            totals.voltage += voltage * samples;
+            totals.power += power * samples;
+            totals.samples += samples;
+        };
+
+        for (const row of covered.rows) {
+            add(row.time, row.energy_wh || 0, row.voltage_avg || 0, row.power_avg || 0, row.sample_count || 0);
+        }
+        for (const gap of covered.gaps) {
+            const raw = await storage.aggregate({
+                measurement: 'three_phase_total',
+                aggregates: {
+                    energy: { fn: 'sum', field: 'total_energy_wh' },
+                    avg_voltage: { fn: 'avg', field: 'avg_voltage' },
+                    avg_power: { fn: 'avg', field: 'total_power' },
+                    readings: { fn: 'count', field: 'total_power' }
+                },
+                where: { device_id: deviceId },
+                from: gap.from,
+                to: gap.to,
+                bin: { every: groupBy }
+            });
+            for (const row of raw) {
+                add(row.time, row.energy || 0, row.avg_voltage || 0, row.avg_power || 0, row.readings || 0);
+            }
+        }
+
+        const rows = Array.from(buckets.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([bucket, totals]) => ({
+                time: new Date(bucket),
+                avg_energy: totals.samples > 0 ? totals.energy / totals.samples : 0,
+                avg_voltage: totals.samples > 0 ? totals.voltage / totals.samples : null,
+                avg_power: totals.samples > 0 ? totals.power / totals.samples : null
+            }));
+        return { rows, coverage: covered.coverage };
+    }
+
+    /**
+     * Rollups of a window that are up to date, and the parts of the window left
+     * to raw rows: before the first rollup (not backfilled yet) and after the last
+     * one or from the first bucket awaiting recomputation. Rollups are taken to be
+     * contiguous between the first and the last; null when there are none.
+     */
+    private async getCoveredRollups(
+        deviceId: string,
+        resolution: '1h' | '1d',
+        window: { since?: string; from?: Date }
+    ): Promise<CoveredRollups | null> {
+        const now = new Date();
+        const windowStart = window.from || new Date(now.getTime() - intervalToMs(window.since!));
+        const bucketMs = ROLLUP_BUCKET_MS[resolution];
+        const staleSince = rollupService.getStaleSince(deviceId);
+
+        const rows = (await rollupService.getRollups(deviceId, resolution, 'total', { from: windowStart }))
+            .filter(row => !staleSince || row.time.getTime() + bucketMs <= staleSince.getTime());
+        if (rows.length === 0) return null;
+
+        const from = rows[0].time;
+        const to = new Date(Math.min(rows[rows.length - 1].time.getTime() + bucketMs, now.getTime()));
+        return {
+            rows,
+            coverage: { from: from.toISOString(), to: to.toISOString() },
+            gaps: [{ from: windowStart, to: from }, { from: to, to: now }].filter(gap => gap.from < gap.to)
+        };
+    }
 }
 
+/**
+ * Data-quality indicator from a stored row's quality field and masks
+ */
+const toDataQuality = (fields: readonly string[], row?: StorageRow): DataQualityIndicator => {
+    if (!row || typeof row.quality !== 'string') {
+        return { quality: 'unknown', measured: [], derived: [], defaulted: [] };
+    }
+    return {
+        quality: row.quality as DataQualityIndicator['quality'],
+        ...describeProvenance(fields, row.derived_mask || 0, row.defaulted_mask || 0)
+    };
+};
+
 export default new ThreePhasePowerService();
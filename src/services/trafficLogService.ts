@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../utils/jsonStore';
+import { createKeyedLock } from '../utils/keyedLock';
+
+export interface TrafficLogEntry {
+    id: string;
+    receivedAt: string;
+    deviceId: string;               // UNKNOWN_DEVICE when the request names no valid device
+    route: string;                  // route pattern, or the MQTT topic
+    method: string;                 // HTTP method, or MQTT
+    ip: string | null;
+    headers: Record<string, string>;
+    query: Record<string, unknown>;
+    body: string;                   // raw, truncated to TRAFFIC_LOG_MAX_BODY_BYTES
+    bodyTruncated: boolean;
+    status: number;
+    latencyMs: number;
+}
+
+export interface TrafficLogQuery {
+    deviceId?: string;
+    route?: string;
+    status?: number | '2xx' | '3xx' | '4xx' | '5xx';
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+export const UNKNOWN_DEVICE = '_unknown';
+
+// Never written to disk
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-admin-key', 'proxy-authorization'];
+
+/**
+ * Device Traffic Log
+ * Every raw inbound ingestion request, kept per device in a ring buffer
+ * (TRAFFIC_LOG_MAX_PER_DEVICE entries, TRAFFIC_LOG_RETENTION_HOURS old at
+ * most) for field debugging. Each device has an append-only JSON-lines file
+ * under DATA_DIR/traffic that is rewritten once enough entries have expired.
+ */
+class TrafficLogService {
+    private dir = path.join(DATA_DIR, 'traffic');
+    private retentionMs = parseInt(process.env.TRAFFIC_LOG_RETENTION_HOURS || '72', 10) * 60 * 60 * 1000;
+    private maxPerDevice = parseInt(process.env.TRAFFIC_LOG_MAX_PER_DEVICE || '1000', 10);
+    private maxBodyBytes = parseInt(process.env.TRAFFIC_LOG_MAX_BODY_BYTES || '16384', 10);
+
+    private logs = new Map<string, TrafficLogEntry[]>();
+    private dropped = new Map<string, number>();    // expired entries still in the device's file
+    private withDeviceLock = createKeyedLock();
+    private sequence = 0;
+
+    async record(entry: Omit<TrafficLogEntry, 'id' | 'bodyTruncated'>): Promise<TrafficLogEntry> {
+        const deviceId = /^[a-zA-Z0-9-_]+$/.test(entry.deviceId) ? entry.deviceId : UNKNOWN_DEVICE;
+        const truncated = Buffer.byteLength(entry.body) > this.maxBodyBytes;
+        const logged: TrafficLogEntry = {
+            id: `${Date.now().toString(36)}-${(this.sequence++).toString(36)}`,
+            ...entry,
+            deviceId,
+            headers: redactHeaders(entry.headers),
+            body: truncated ? Buffer.from(entry.body).subarray(0, this.maxBodyBytes).toString('utf8') : entry.body,
+            bodyTruncated: truncated
+        };
+
+        await this.withDeviceLock(deviceId, async () => {
+            const entries = this.load(deviceId);
+            entries.push(logged);
+            await fs.promises.appendFile(this.filePath(deviceId), JSON.stringify(logged) + '\n');
+            await this.prune(deviceId, entries);
+        });
+        return logged;
+    }
+
+    /**
+     * Newest first
+     */
+    async query(query: TrafficLogQuery): Promise<TrafficLogEntry[]> {
+        const cutoff = Date.now() - this.retentionMs;
+        const deviceIds = query.deviceId ? [query.deviceId] : this.listDevices();
+
+        const matches = deviceIds
+            .flatMap(deviceId => this.load(deviceId))
+            .filter(entry => {
+                const time = new Date(entry.receivedAt).getTime();
+                return time >= cutoff &&
+                    (!query.from || time >= query.from.getTime()) &&
+                    (!query.to || time < query.to.getTime()) &&
+                    (!query.route || entry.route === query.route) &&
+                    (query.status === undefined || matchesStatus(entry.status, query.status));
+            })
+            .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+
+        return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+    }
+
+    /**
+     * Device IDs with a log file
+     */
+    listDevices(): string[] {
+        if (!fs.existsSync(this.dir)) return [];
+        return fs.readdirSync(this.dir)
+            .filter(file => file.endsWith('.jsonl'))
+            .map(file => file.slice(0, -'.jsonl'.length));
+    }
+
+    private filePath(deviceId: string): string {
+        return path.join(this.dir, `${deviceId}.jsonl`);
+    }
+
+    private load(deviceId: string): TrafficLogEntry[] {
+        let entries = this.logs.get(deviceId);
+        if (entries) return entries;
+
+        entries = [];
+        fs.mkdirSync(this.dir, { recursive: true });
+        const filePath = this.filePath(deviceId);
+        if (fs.existsSync(filePath)) {
+            for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    entries.push(JSON.parse(line));
+                } catch {
+                    // A crash mid-append can leave a partial last line
+                }
+            }
+        }
+        this.logs.set(deviceId, entries);
+        return entries;
+    }
+
+    /**
+     * Drop expired / excess entries; rewrite the file once half of it is stale
+     */
+    private async prune(deviceId: string, entries: TrafficLogEntry[]): Promise<void> {
+        const cutoff = new Date(Date.now() - this.retentionMs).toISOString();
+        let drop = 0;
+        while (drop < entries.length && (entries.length - drop > this.maxPerDevice || entries[drop].receivedAt < cutoff)) {
+            drop++;
+        }
+        if (drop === 0) return;
+
+        entries.splice(0, drop);
+        const dropped = (this.dropped.get(deviceId) || 0) + drop;
+        if (dropped < Math.max(entries.length, 100)) {
+            this.dropped.set(deviceId, dropped);
+            return;
+        }
+
+        const filePath = this.filePath(deviceId);
+        const tmpPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+        await fs.promises.rename(tmpPath, filePath);
+        this.dropped.set(deviceId, 0);
+    }
+}
+
+const redactHeaders = (headers: Record<string, string>): Record<string, string> =>
+    Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+        [name, REDACTED_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value]));
+
+const matchesStatus = (status: number, filter: NonNullable<TrafficLogQuery['status']>): boolean =>
+    typeof filter === 'number' ? status === filter : Math.floor(status / 100) === Number(filter[0]);
+
+export default new TrafficLogService();
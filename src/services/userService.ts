@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { Role, UserProfile } from '../types';
+import { createJsonStore } from '../utils/jsonStore';
+
+export interface UserAccount extends UserProfile {
+    id: string;
+    passwordHash: string | null;    // scrypt; null until a password is set (no login)
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type PublicUser = Omit<UserAccount, 'passwordHash'>;
+
+export interface AuthTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;              // access token lifetime, seconds
+    user: PublicUser;
+}
+
+// Payload of an access token
+export interface AccessClaims {
+    sub: string;                    // user ID
+    sid: string;                    // session, revoked by logout
+    iat: number;
+    exp: number;
+}
+
+interface Session {
+    userId: string;
+    refreshHash: string;            // sha256 of the current refresh secret
+    createdAt: string;
+    refreshedAt: string;
+    expiresAt: string;
+    revokedAt: string | null;
+}
+
+interface UserStore {
+    users: Record<string, UserAccount>;
+    sessions: Record<string, Session>;
+}
+
+export type LoginResult =
+    | { ok: true; tokens: AuthTokens }
+    | { ok: false; code: 'INVALID_CREDENTIALS' };
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const HASH_BYTES = 64;
+
+const ACCESS_TOKEN_SECONDS = parseInt(process.env.AUTH_ACCESS_TOKEN_SECONDS || '900', 10);
+const REFRESH_TOKEN_SECONDS = parseInt(process.env.AUTH_REFRESH_TOKEN_SECONDS || String(30 * 24 * 60 * 60), 10);
+
+// Dashboard users from before accounts were persisted; they can log in once an admin sets a password
+const SEED_USERS: Record<string, UserProfile> = {
+    'user-1': {
+        name: 'Nuwan Perera',
+        email: 'nuwan.perera@kln.ac.lk',
+        role: 'admin',
+        connectionCategory: 'domestic-3phase',
+        monthlyBudget: 5000,
+        timezone: 'Asia/Colombo'
+    },
+    'user-2': {
+        name: 'Kasun Silva',
+        email: 'kasun.silva@example.com',
+        role: 'owner',
+        connectionCategory: 'general-purpose-3phase',
+        monthlyBudget: 15000,
+        timezone: 'Asia/Colombo'
+    }
+};
+
+/**
+ * User Account Service
+ * Dashboard accounts (profile and scrypt password hash) and login sessions,
+ * persisted in users.json. Login returns a short-lived access token, an
+ * HS256 JWT naming the user and session, and a refresh token that is
+ * replaced on every refresh; presenting a replaced refresh token again
+ * revokes the session. Logout revokes the session, which also invalidates
+ * its access tokens.
+ */
+class UserService {
+    private store = createJsonStore<UserStore>('users.json', () => {
+        const now = new Date().toISOString();
+        return {
+            users: Object.fromEntries(Object.entries(SEED_USERS).map(([id, profile]) =>
+                [id, { id, ...profile, passwordHash: null, createdAt: now, updatedAt: now }])),
+            sessions: {}
+        };
+    });
+    // Tokens are signed with this; without AUTH_TOKEN_SECRET a restart invalidates access tokens (refresh tokens survive)
+    private tokenSecret = process.env.AUTH_TOKEN_SECRET || crypto.randomBytes(32).toString('hex');
+
+    getById(userId: string): PublicUser | null {
+        const user = this.store.read().users[userId];
+        return user ? toPublic(user) : null;
+    }
+
+    list(): PublicUser[] {
+        return Object.values(this.store.read().users)
+            .map(toPublic)
+            .sort((a, b) => a.email.localeCompare(b.email));
+    }
+
+    /**
+     * Create an account; null when the email is taken
+     */
+    async create(profile: UserProfile, password: string): Promise<PublicUser | null> {
+        const store = this.store.read();
+        if (this.findByEmail(profile.email)) return null;
+
+        const now = new Date().toISOString();
+        const user: UserAccount = {
+            id: `user-${crypto.randomBytes(4).toString('hex')}`,
+            ...profile,
+            passwordHash: await hashPassword(password),
+            createdAt: now,
+            updatedAt: now
+        };
+        store.users[user.id] = user;
+        this.store.write(store);
+        return toPublic(user);
+    }
+
+    setRole(userId: string, role: Role): PublicUser | null {
+        const store = this.store.read();
+        const user = store.users[userId];
+        if (!user) return null;
+
+        user.role = role;
+        user.updatedAt = new Date().toISOString();
+        this.store.write(store);
+        return toPublic(user);
+    }
+
+    updateProfile(userId: string, updates: Partial<Pick<UserProfile, 'name' | 'connectionCategory' | 'monthlyBudget' | 'timezone'>>): PublicUser | null {
+        const store = this.store.read();
+        const user = store.users[userId];
+        if (!user) return null;
+
+        Object.assign(user, updates, { updatedAt: new Date().toISOString() });
+        this.store.write(store);
+        return toPublic(user);
+    }
+
+    /**
+     * Replace a password and end the user's sessions
+     */
+    async setPassword(userId: string, password: string): Promise<boolean> {
+        const store = this.store.read();
+        const user = store.users[userId];
+        if (!user) return false;
+
+        user.passwordHash = await hashPassword(password);
+        user.updatedAt = new Date().toISOString();
+        this.revokeSessions(store, userId);
+        this.store.write(store);
+        return true;
+    }
+
+    async login(email: string, password: string): Promise<LoginResult> {
+        const user = this.findByEmail(email);
+        // Hash anyway so unknown emails take as long as wrong passwords
+        const valid = await verifyPassword(password, user?.passwordHash ?? null);
+        if (!user || !valid) return { ok: false, code: 'INVALID_CREDENTIALS' };
+
+        const store = this.store.read();
+        const now = new Date();
+        const sid = crypto.randomBytes(12).toString('hex');
+        const secret = crypto.randomBytes(32).toString('base64url');
+        store.sessions[sid] = {
+            userId: user.id,
+            refreshHash: sha256(secret),
+            createdAt: now.toISOString(),
+            refreshedAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + REFRESH_TOKEN_SECONDS * 1000).toISOString(),
+            revokedAt: null
+        };
+        this.pruneSessions(store);
+        this.store.write(store);
+        return { ok: true, tokens: this.issueTokens(user, sid, secret) };
+    }
+
+    /**
+     * New token pair for a refresh token; null when it is invalid, expired or revoked
+     */
+    refresh(refreshToken: string): AuthTokens | null {
+        const [sid, secret] = refreshToken.split('.');
+        const store = this.store.read();
+        const session = sid && secret ? store.sessions[sid] : undefined;
+        if (!session || !this.isLive(session)) return null;
+
+        if (!safeEqual(sha256(secret), session.refreshHash)) {
+            // A replaced token came back - it may have been stolen, end the session
+            session.revokedAt = new Date().toISOString();
+            this.store.write(store);
+            console.warn(`Refresh token reuse for session ${sid}, revoked`);
+            return null;
+        }
+
+        const user = store.users[session.userId];
+        if (!user) return null;
+
+        const next = crypto.randomBytes(32).toString('base64url');
+        session.refreshHash = sha256(next);
+        session.refreshedAt = new Date().toISOString();
+        this.store.write(store);
+        return this.issueTokens(user, sid, next);
+    }
+
+    logout(sid: string): void {
+        const store = this.store.read();
+        const session = store.sessions[sid];
+        if (!session || session.revokedAt) return;
+        session.revokedAt = new Date().toISOString();
+        this.store.write(store);
+    }
+
+    /**
+     * Claims of a valid access token whose session is still live
+     */
+    verifyAccessToken(token: string): AccessClaims | null {
+        const [header, payload, signature] = token.split('.');
+        if (!header || !payload || !signature) return null;
+        if (!safeEqual(signature, this.sign(`${header}.${payload}`))) return null;
+
+        let claims: AccessClaims;
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        } catch (error) {
+            return null;
+        }
+        if (typeof claims.exp !== 'number' || claims.exp < Date.now() / 1000) return null;
+
+        const session = this.store.read().sessions[claims.sid];
+        return session && session.userId === claims.sub && this.isLive(session) ? claims : null;
+    }
+
+    private issueTokens(user: UserAccount, sid: string, refreshSecret: string): AuthTokens {
+        const iat = Math.floor(Date.now() / 1000);
+        const claims: AccessClaims = { sub: user.id, sid, iat, exp: iat + ACCESS_TOKEN_SECONDS };
+        const header = base64url({ alg: 'HS256', typ: 'JWT' });
+        const payload = base64url(claims);
+        return {
+            accessToken: `${header}.${payload}.${this.sign(`${header}.${payload}`)}`,
+            refreshToken: `${sid}.${refreshSecret}`,
+            expiresIn: ACCESS_TOKEN_SECONDS,
+            user: toPublic(user)
+        };
+    }
+
+    private sign(data: string): string {
+        return crypto.createHmac('sha256', this.tokenSecret).update(data).digest('base64url');
+    }
+
+    private findByEmail(email: string): UserAccount | null {
+        const normalized = email.trim().toLowerCase();
+        return Object.values(this.store.read().users).find(user => user.email.toLowerCase() === normalized) || null;
+    }
+
+    private isLive(session: Session): boolean {
+        return !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+    }
+
+    private revokeSessions(store: UserStore, userId: string): void {
+        const now = new Date().toISOString();
+        for (const session of Object.values(store.sessions)) {
+            if (session.userId === userId && !session.revokedAt) session.revokedAt = now;
+        }
+    }
+
+    /**
+     * Drop expired and revoked sessions
+     */
+    private pruneSessions(store: UserStore): void {
+        for (const [sid, session] of Object.entries(store.sessions)) {
+            if (!this.isLive(session)) delete store.sessions[sid];
+        }
+    }
+}
+
+// Accounts stored before roles were defined have role 'user', now 'owner'
+const toPublic = ({ passwordHash, ...user }: UserAccount): PublicUser =>
+    (user.role as string) === 'user' ? { ...user, role: 'owner' } : user;
+
+const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, HASH_BYTES);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored: string | null): Promise<boolean> => {
+    const [, salt, hash] = (stored || `scrypt:${'0'.repeat(32)}:`).split(':');
+    const actual = await scrypt(password, Buffer.from(salt, 'hex'), HASH_BYTES);
+    return stored !== null && safeEqual(actual.toString('hex'), hash);
+};
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+const base64url = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+export default new UserService();
@@ -0,0 +1,34 @@
+import { StorageBackend } from './types';
+import { InfluxStorage } from './influxStorage';
+import { MemoryStorage } from './memoryStorage';
+
+export * from './types';
+
+export interface StorageConfig {
+    backend: string;
+    influxHost: string;
+    influxToken?: string;
+    influxDatabase?: string;
+    localFile?: string;
+}
+
+/**
+ * Create the storage backend selected by configuration
+ * 'influxdb' (default) - InfluxDB 3 Cloud/Core
+ * 'memory'             - embedded local store, optionally persisted to a file
+ */
+export const createStorage = (config: StorageConfig): StorageBackend => {
+    switch (config.backend) {
+        case 'influxdb':
+            if (!config.influxToken) {
+                throw new Error('INFLUXDB_TOKEN is not set in .env file');
+            }
+            return new InfluxStorage(config.influxHost, config.influxToken, config.influxDatabase);
+
+        case 'memory':
+            return new MemoryStorage(config.localFile);
+
+        default:
+            throw new Error(`Unknown STORAGE_BACKEND: ${config.backend}`);
+    }
+};
@@ -0,0 +1,151 @@
+import { HttpError, InfluxDBClient, Point } from '@influxdata/influxdb3-client';
+import { StorageBackend, StoragePoint, RangeQuery, AggregateQuery, AggregateFn, StorageRow, TagFilter } from './types';
+import { SqlBuilder } from './queryBuilder';
+
+/**
+ * InfluxDB 3 storage backend
+ * Translates structured queries to parameterized InfluxDB SQL
+ */
+export class InfluxStorage implements StorageBackend {
+    readonly name = 'influxdb';
+    private client: InfluxDBClient;
+
+    constructor(host: string, token: string, private database: string | undefined) {
+        this.client = new InfluxDBClient({ host, token });
+    }
+
+    async write(points: StoragePoint[]): Promise<void> {
+        if (points.length === 0) return;
+
+        const influxPoints = points.map(p => {
+            const point = Point.measurement(p.measurement);
+            for (const [tag, value] of Object.entries(p.tags)) {
+                point.setTag(tag, value);
+            }
+            for (const [field, value] of Object.entries(p.fields)) {
+                if (typeof value === 'number') point.setFloatField(field, value);
+                else if (typeof value === 'boolean') point.setBooleanField(field, value);
+                else point.setStringField(field, value);
+            }
+            return point.setTimestamp(p.timestamp);
+        });
+
+        await this.client.write(influxPoints, this.database);
+    }
+
+    isRejection(error: unknown): boolean {
+        // Line protocol errors (bad timestamp, field type conflict) are 400/422;
+        // auth, missing database, timeouts and throttling may clear up
+        return error instanceof HttpError && [400, 413, 422].includes(error.statusCode);
+    }
+
+    isMissing(error: unknown): boolean {
+        // Tables and columns are created by the first write that uses them
+        const message = error instanceof Error ? error.message : String(error);
+        return /table '[^']*' not found|no field named/i.test(message);
+    }
+
+    async queryRange(query: RangeQuery): Promise<StorageRow[]> {
+        const sql = new SqlBuilder();
+        const columns = ['time', ...query.fields.filter(f => f !== 'time')].map(c => sql.ident(c));
+
+        sql.append(`SELECT ${columns.join(', ')} FROM ${sql.ident(query.measurement)}`);
+        this.appendWhere(sql, query);
+        sql.append(`ORDER BY time ${query.order === 'desc' ? 'DESC' : 'ASC'}`);
+        if (query.limit !== undefined) {
+            sql.append(`LIMIT ${sql.limit(query.limit)}`);
+        }
+
+        return this.run(sql);
+    }
+
+    async aggregate(query: AggregateQuery): Promise<StorageRow[]> {
+        const sql = new SqlBuilder();
+        const selects: string[] = [];
+        const groups: string[] = [];
+
+        if (query.bin) {
+            const origin = query.bin.origin ? `, ${sql.param(query.bin.origin.toISOString())}` : '';
+            selects.push(`DATE_BIN(${sql.interval(query.bin.every)}, time${origin}) AS time_bucket`);
+            groups.push('time_bucket');
+        }
+        for (const tag of query.groupBy || []) {
+            selects.push(sql.ident(tag));
+            groups.push(sql.ident(tag));
+        }
+        for (const [alias, agg] of Object.entries(query.aggregates)) {
+            if (!AGGREGATE_FUNCTIONS.includes(agg.fn)) {
+                throw new Error(`Unsupported aggregate: ${agg.fn}`);
+            }
+            selects.push(`${agg.fn.toUpperCase()}(${sql.ident(agg.field)}) AS ${sql.ident(alias)}`);
+        }
+
+        sql.append(`SELECT ${selects.join(', ')} FROM ${sql.ident(query.measurement)}`);
+        this.appendWhere(sql, query);
+        if (groups.length > 0) {
+            sql.append(`GROUP BY ${groups.join(', ')}`);
+        }
+        if (query.bin) {
+            sql.append('ORDER BY time_bucket ASC');
+        }
+
+        const rows = await this.run(sql);
+        return rows.map(row => {
+            if (!query.bin) return row;
+            const { time_bucket, ...rest } = row;
+            return { ...rest, time: toDate(time_bucket) };
+        });
+    }
+
+    describe(): Record<string, string> {
+        return {
+            backend: this.name,
+            database: this.database || 'unknown'
+        };
+    }
+
+    private appendWhere(sql: SqlBuilder, query: { where?: TagFilter; from?: Date; to?: Date; since?: string }): void {
+        const conditions: string[] = [];
+
+        for (const [tag, value] of Object.entries(query.where || {})) {
+            if (Array.isArray(value)) {
+                // An empty IN list matches nothing
+                conditions.push(value.length > 0
+                    ? `${sql.ident(tag)} IN (${value.map(v => sql.param(v)).join(', ')})`
+                    : 'FALSE');
+            } else {
+                conditions.push(`${sql.ident(tag)} = ${sql.param(value)}`);
+            }
+        }
+        if (query.since) conditions.push(`time >= now() - ${sql.interval(query.since)}`);
+        if (query.from) conditions.push(`time >= ${sql.param(query.from.toISOString())}`);
+        if (query.to) conditions.push(`time < ${sql.param(query.to.toISOString())}`);
+
+        if (conditions.length > 0) {
+            sql.append(`WHERE ${conditions.join(' AND ')}`);
+        }
+    }
+
+    private async run(builder: SqlBuilder): Promise<StorageRow[]> {
+        const { sql, params } = builder.build();
+        const rows: StorageRow[] = [];
+        for await (const row of this.client.query(sql, this.database, { params })) {
+            const normalised: StorageRow = {};
+            for (const [key, value] of Object.entries(row)) {
+                // COUNT() and integer columns arrive as bigint
+                normalised[key] = typeof value === 'bigint' ? Number(value) : value;
+            }
+            if (row.time !== undefined) normalised.time = toDate(row.time);
+            rows.push(normalised);
+        }
+        return rows;
+    }
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFn[] = ['sum', 'avg', 'min', 'max', 'count'];
+
+const toDate = (value: any): Date => {
+    if (value instanceof Date) return value;
+    if (typeof value === 'bigint') return new Date(Number(value / BigInt(1000000)));
+    return new Date(value);
+};
@@ -0,0 +1,60 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Intervals that may appear in queries (canonical form -> milliseconds).
+ * Anything else is rejected, so user input never reaches the SQL text.
+ */
+const ALLOWED_INTERVALS: Record<string, number> = {
+    '1 minute': MINUTE,
+    '5 minutes': 5 * MINUTE,
+    '15 minutes': 15 * MINUTE,
+    '30 minutes': 30 * MINUTE,
+    '1 hour': HOUR,
+    '6 hours': 6 * HOUR,
+    '12 hours': 12 * HOUR,
+    '24 hours': 24 * HOUR,
+    '1 day': DAY,
+    '2 days': 2 * DAY,
+    '7 days': 7 * DAY,
+    '14 days': 14 * DAY,
+    '30 days': 30 * DAY,
+    '90 days': 90 * DAY,
+    '365 days': 365 * DAY
+};
+
+const UNIT_NAMES: Record<string, string> = {
+    m: 'minute', min: 'minute', minute: 'minute', minutes: 'minute',
+    h: 'hour', hour: 'hour', hours: 'hour',
+    d: 'day', day: 'day', days: 'day'
+};
+
+/**
+ * Normalise '24h', '24 hours' or '1 DAY' to its canonical whitelisted form
+ * Returns null for anything not on the whitelist
+ */
+export const normalizeInterval = (input: string): string | null => {
+    const match = /^\s*(\d{1,3})\s*([a-z]+)\s*$/i.exec(input || '');
+    if (!match) return null;
+
+    const count = parseInt(match[1], 10);
+    const unit = UNIT_NAMES[match[2].toLowerCase()];
+    if (!unit) return null;
+
+    const canonical = `${count} ${unit}${count === 1 ? '' : 's'}`;
+    return ALLOWED_INTERVALS[canonical] !== undefined ? canonical : null;
+};
+
+export const isValidInterval = (input: string): boolean => normalizeInterval(input) !== null;
+
+/**
+ * Convert a whitelisted interval to milliseconds
+ */
+export const intervalToMs = (interval: string): number => {
+    const canonical = normalizeInterval(interval);
+    if (!canonical) {
+        throw new Error(`Unsupported interval: ${interval}`);
+    }
+    return ALLOWED_INTERVALS[canonical];
+};
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { StorageBackend, StoragePoint, RangeQuery, AggregateQuery, StorageRow, TagFilter } from './types';
+import { intervalToMs } from './interval';
+
+/**
+ * Embedded local storage backend
+ * Keeps points in memory and, when a file path is given, persists them
+ * as an append-only JSON-lines file that is replayed on startup.
+ * Intended for laptops, demos and automated tests - not for production volumes.
+ */
+export class MemoryStorage implements StorageBackend {
+    readonly name = 'memory';
+    private measurements = new Map<string, Map<string, StoragePoint>>();
+
+    constructor(private filePath?: string) {
+        if (filePath) {
+            this.load(filePath);
+        }
+    }
+
+    async write(points: StoragePoint[]): Promise<void> {
+        if (points.length === 0) return;
+
+        const invalid = points.find(point => isNaN(point.timestamp.getTime()));
+        if (invalid) {
+            throw new RangeError(`Invalid timestamp in ${invalid.measurement} point`);
+        }
+        for (const point of points) {
+            this.upsert(point);
+        }
+
+        if (this.filePath) {
+            const lines = points.map(p => JSON.stringify(p)).join('\n') + '\n';
+            await fs.promises.appendFile(this.filePath, lines);
+        }
+    }
+
+    isRejection(error: unknown): boolean {
+        return error instanceof RangeError;
+    }
+
+    isMissing(): boolean {
+        // Unknown measurements and fields read as empty
+        return false;
+    }
+
+    async queryRange(query: RangeQuery): Promise<StorageRow[]> {
+        const points = this.select(query);
+        points.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        if (query.order === 'desc') points.reverse();
+
+        const limited = query.limit !== undefined ? points.slice(0, query.limit) : points;
+
+        return limited.map(point => {
+            const row: StorageRow = { time: point.timestamp };
+            for (const field of query.fields) {
+                if (field === 'time') continue;
+                row[field] = point.fields[field] ?? point.tags[field] ?? null;
+            }
+            return row;
+        });
+    }
+
+    async aggregate(query: AggregateQuery): Promise<StorageRow[]> {
+        const points = this.select(query);
+        const groupBy = query.groupBy || [];
+        const binMs = query.bin ? intervalToMs(query.bin.every) : 0;
+        const originMs = query.bin?.origin ? query.bin.origin.getTime() : 0;
+
+        const groups = new Map<string, { keys: StorageRow; points: StoragePoint[] }>();
+        for (const point of points) {
+            const keys: StorageRow = {};
+            if (query.bin) {
+                const offset = point.timestamp.getTime() - originMs;
+                keys.time = new Date(originMs + Math.floor(offset / binMs) * binMs);
+            }
+            for (const column of groupBy) {
+                keys[column] = point.tags[column] ?? point.fields[column] ?? null;
+            }
+
+            const groupKey = JSON.stringify(keys);
+            if (!groups.has(groupKey)) {
+                groups.set(groupKey, { keys, points: [] });
+            }
+            groups.get(groupKey)!.points.push(point);
+        }
+
+        // SQL aggregates without GROUP BY always produce a single row
+        if (groups.size === 0 && groupBy.length === 0 && !query.bin) {
+            groups.set('{}', { keys: {}, points: [] });
+        }
+
+        const rows: StorageRow[] = [];
+        for (const group of groups.values()) {
+            const row: StorageRow = { ...group.keys };
+            for (const [alias, agg] of Object.entries(query.aggregates)) {
+                const present = group.points
+                    .map(p => p.fields[agg.field])
+                    .filter(v => v !== undefined && v !== null);
+                row[alias] = agg.fn === 'count'
+                    ? present.length
+                    : computeAggregate(agg.fn, present.filter((v): v is number => typeof v === 'number'));
+            }
+            rows.push(row);
+        }
+
+        if (query.bin) {
+            rows.sort((a, b) => a.time.getTime() - b.time.getTime());
+        }
+
+        return rows;
+    }
+
+    describe(): Record<string, string> {
+        return {
+            backend: this.name,
+            file: this.filePath || 'none (in-memory only)'
+        };
+    }
+
+    private upsert(point: StoragePoint): void {
+        if (!this.measurements.has(point.measurement)) {
+            this.measurements.set(point.measurement, new Map());
+        }
+
+        const series = this.measurements.get(point.measurement)!;
+        const key = seriesKey(point);
+        const existing = series.get(key);
+        if (existing) {
+            existing.fields = { ...existing.fields, ...point.fields };
+        } else {
+            series.set(key, { ...point, tags: { ...point.tags }, fields: { ...point.fields } });
+        }
+    }
+
+    private select(query: { measurement: string; where?: TagFilter; from?: Date; to?: Date; since?: string }): StoragePoint[] {
+        const series = this.measurements.get(query.measurement);
+        if (!series) return [];
+
+        const sinceMs = query.since ? Date.now() - intervalToMs(query.since) : undefined;
+
+        return Array.from(series.values()).filter(point => {
+            const time = point.timestamp.getTime();
+            if (sinceMs !== undefined && time < sinceMs) return false;
+            if (query.from && time < query.from.getTime()) return false;
+            if (query.to && time >= query.to.getTime()) return false;
+
+            return Object.entries(query.where || {}).every(([column, value]) => {
+                const actual = point.tags[column] ?? point.fields[column];
+                return Array.isArray(value) ? value.includes(actual as string) : actual === value;
+            });
+        });
+    }
+
+    private load(filePath: string): void {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        if (!fs.existsSync(filePath)) return;
+
+        const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const raw = JSON.parse(line);
+                this.upsert({ ...raw, timestamp: new Date(raw.timestamp) });
+            } catch {
+                console.warn('Skipping corrupt line in local storage file');
+            }
+        }
+        console.log(`Loaded local storage from ${filePath}`);
+    }
+}
+
+const seriesKey = (point: StoragePoint): string => {
+    const tags = Object.keys(point.tags).sort().map(k => `${k}=${point.tags[k]}`).join(',');
+    return `${tags}@${point.timestamp.getTime()}`;
+};
+
+const computeAggregate = (fn: string, values: number[]): number | null => {
+    if (values.length === 0) return null;
+
+    switch (fn) {
+        case 'sum':
+            return values.reduce((a, b) => a + b, 0);
+        case 'avg':
+            return values.reduce((a, b) => a + b, 0) / values.length;
+        case 'min':
+            return values.reduce((a, b) => Math.min(a, b));
+        case 'max':
+            return values.reduce((a, b) => Math.max(a, b));
+        default:
+            throw new Error(`Unsupported aggregate: ${fn}`);
+    }
+};
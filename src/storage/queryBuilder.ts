@@ -0,0 +1,67 @@
+import { QParamType } from '@influxdata/influxdb3-client';
+import { normalizeInterval } from './interval';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Small SQL builder for InfluxDB 3
+ * Values are always bound as $parameters; identifiers and intervals are
+ * validated against fixed patterns before being written into the SQL text.
+ */
+export class SqlBuilder {
+    private parts: string[] = [];
+    private params: Record<string, QParamType> = {};
+    private paramCount = 0;
+
+    /**
+     * Append raw SQL written by the service (never user input)
+     */
+    append(sql: string): this {
+        this.parts.push(sql);
+        return this;
+    }
+
+    /**
+     * Bind a value and return its placeholder
+     */
+    param(value: QParamType): string {
+        const name = `p${this.paramCount++}`;
+        this.params[name] = value;
+        return `$${name}`;
+    }
+
+    /**
+     * Quoted column / table / alias name
+     */
+    ident(name: string): string {
+        if (!IDENTIFIER_PATTERN.test(name)) {
+            throw new Error(`Invalid identifier: ${name}`);
+        }
+        return `"${name}"`;
+    }
+
+    /**
+     * INTERVAL literal from the whitelist
+     */
+    interval(value: string): string {
+        const canonical = normalizeInterval(value);
+        if (!canonical) {
+            throw new Error(`Unsupported interval: ${value}`);
+        }
+        return `INTERVAL '${canonical}'`;
+    }
+
+    /**
+     * Non-negative integer for LIMIT
+     */
+    limit(value: number): string {
+        if (!Number.isInteger(value) || value < 0) {
+            throw new Error(`Invalid limit: ${value}`);
+        }
+        return value.toString();
+    }
+
+    build(): { sql: string; params: Record<string, QParamType> } {
+        return { sql: this.parts.join(' '), params: { ...this.params } };
+    }
+}
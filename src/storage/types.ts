@@ -0,0 +1,83 @@
+// Storage backend types shared by the InfluxDB and local implementations
+
+export type FieldValue = number | string | boolean;
+
+export interface StoragePoint {
+    measurement: string;
+    tags: Record<string, string>;
+    fields: Record<string, FieldValue>;
+    timestamp: Date;
+}
+
+/**
+ * Filter on tags or string fields - a single value means equality, an array means IN (...)
+ */
+export type TagFilter = Record<string, string | string[]>;
+
+/**
+ * Row returned by a query. `time` is always normalised to a Date.
+ */
+export type StorageRow = Record<string, any>;
+
+export interface RangeQuery {
+    measurement: string;
+    fields: string[];
+    where?: TagFilter;
+    from?: Date;            // inclusive
+    to?: Date;              // exclusive
+    since?: string;         // relative window ending now, e.g. '24 hours'
+    order?: 'asc' | 'desc';
+    limit?: number;
+}
+
+export type AggregateFn = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface AggregateQuery {
+    measurement: string;
+    aggregates: Record<string, { fn: AggregateFn; field: string }>;
+    where?: TagFilter;
+    from?: Date;
+    to?: Date;
+    since?: string;
+    groupBy?: string[];                         // tag or field names
+    bin?: { every: string; origin?: Date };     // time buckets, returned as `time`
+}
+
+export interface StorageBackend {
+    readonly name: string;
+
+    /**
+     * Write points. A point with the same measurement, tags and timestamp
+     * as an existing one replaces its fields (InfluxDB semantics).
+     */
+    write(points: StoragePoint[]): Promise<void>;
+
+    /**
+     * Whether a failed write was refused because of the points themselves
+     * (retrying them cannot succeed), as opposed to a connection, auth or
+     * server problem that may clear up
+     */
+    isRejection(error: unknown): boolean;
+
+    /**
+     * Whether a failed query named a measurement or column that nothing has
+     * been written to yet (an empty result), rather than a storage failure
+     */
+    isMissing(error: unknown): boolean;
+
+    /**
+     * Raw rows in a time range
+     */
+    queryRange(query: RangeQuery): Promise<StorageRow[]>;
+
+    /**
+     * Aggregates, optionally grouped by tags and/or time buckets.
+     * Without groupBy or bin exactly one row is returned (SQL semantics).
+     */
+    aggregate(query: AggregateQuery): Promise<StorageRow[]>;
+
+    /**
+     * Connection details for the health endpoint
+     */
+    describe(): Record<string, string>;
+}
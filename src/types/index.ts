@@ -1,11 +1,37 @@
 // Three-phase energy monitoring types
 
+// Where a stored value came from: sent by the device, computed from other
+// values, or filled with a default (230 V, PF 0.95, ...)
+export type Provenance = 'measured' | 'derived' | 'defaulted';
+
+// Provenance of the latest stored reading ('unknown' for readings stored before tracking)
+export interface DataQualityIndicator {
+    quality: Provenance | 'unknown';
+    measured: string[];
+    derived: string[];
+    defaulted: string[];
+}
+
+// Readings per quality over a period
+export interface DataQualityCounts {
+    measured: number;
+    derived: number;
+    defaulted: number;
+    unknown: number;
+    measuredShare: number;      // fraction of readings with every field measured
+}
+
 export interface PhaseReading {
     voltage: number;
     current: number;
     power: number;
     energy_wh: number;
     powerFactor: number;
+    energy_register_wh?: number;    // raw cumulative register (cumulative-mode devices)
+    register_event?: string;        // reset / rollover / replacement / ... when not 'normal'
+    energy_method?: string;         // measured / register / trapezoidal / gap_capped / ...
+    provenance?: Partial<Record<string, Provenance>>;  // per field, see utils/provenance
+    dataQuality?: DataQualityIndicator;                 // on readings returned by the API
 }
 
 export interface ThreePhaseReadings {
@@ -19,10 +45,18 @@ export interface ThreePhaseReadings {
         voltage: number;
         current: number;
         power: number;
+        energy_register_wh?: number;
+        register_event?: string;
+        energy_method?: string;
+        provenance?: Partial<Record<string, Provenance>>;
+        dataQuality?: DataQualityIndicator;
     };
     timestamp: string;
+    clockCorrectionSeconds?: number;    // added to the device ts to correct its clock
 }
 
+export type EnergyMode = 'interval' | 'cumulative';
+
 export interface HourlyUsageData {
     hour: string;
     phase1: number;
@@ -40,12 +74,16 @@ export interface DeviceInfo {
     energy24h: number;
 }
 
+// Dashboard roles, see utils/permissions for what each may do
+export type Role = 'admin' | 'installer' | 'owner' | 'viewer';
+
 export interface UserProfile {
     name: string;
     email: string;
-    role: string;
+    role: Role;
     connectionCategory: 'domestic-3phase' | 'general-purpose-3phase' | 'industrial-3phase';
     monthlyBudget: number;
+    timezone?: string;      // IANA timezone for day boundaries, e.g. 'Asia/Colombo'
 }
 
 export interface BillCalculationRequest {
@@ -129,8 +167,18 @@ export interface ApiResponse<T> {
 }
 
 export type ErrorCode = 
+    | 'UNAUTHORIZED'
+    | 'INVALID_CREDENTIALS'
+    | 'FORBIDDEN'
     | 'DEVICE_NOT_FOUND'
+    | 'UNKNOWN_DEVICE'
+    | 'DECOMMISSIONED'
+    | 'USER_NOT_FOUND'
+    | 'KEY_NOT_FOUND'
+    | 'NOT_FOUND'
+    | 'CONFLICT'
     | 'NO_DATA_AVAILABLE'
     | 'INVALID_PARAMETERS'
+    | 'CHECKSUM_MISMATCH'
     | 'CALCULATION_ERROR'
     | 'SERVER_ERROR';
@@ -0,0 +1,150 @@
+/**
+ * Compact 3-phase payloads for low-bandwidth GSM modules
+ *
+ * Both formats start with a schema version so firmware and server can evolve
+ * independently; the server keeps decoders for every version it has shipped.
+ * Decoded readings use the short query parameter names (d, ts, v1, c1, ...)
+ * and go through the same validation as `/api/energy-measurement-3phase`.
+ *
+ * CSV (text, one reading per body), schema 1 - positional, empty = not sent,
+ * trailing fields may be omitted:
+ *   1,<d>,<ts>,v1,c1,pf1,v2,c2,pf2,v3,c3,pf3,p1,p2,p3,e1,e2,e3,te,seq
+ *   e.g. 1,TEST,1735000000,235.0,0.8,0.95,226.0,0.8,0.92,225.0,0.7,0.98
+ *
+ * Binary (base64 text), schema 1 - big-endian:
+ *   u8   schema version (1)
+ *   u8   device ID length N, then N bytes ASCII device ID
+ *   u32  ts (UNIX seconds)
+ *   u16  presence flags, bit i set = field i of BINARY_FIELDS_V1 follows
+ *   ...  present fields in bit order, each as its scaled unsigned integer
+ *   u16  CRC-16/CCITT-FALSE of every preceding byte
+ */
+
+export type CompactFormat = 'csv' | 'binary';
+
+export type CompactDecodeResult =
+    | { ok: true; format: CompactFormat; version: number; params: Record<string, string> }
+    | { ok: false; message: string };
+
+interface BinaryField {
+    name: string;
+    bytes: 1 | 2 | 4;
+    scale: number;      // stored integer = value x scale
+}
+
+const CSV_FIELDS_V1 = [
+    'd', 'ts',
+    'v1', 'c1', 'pf1', 'v2', 'c2', 'pf2', 'v3', 'c3', 'pf3',
+    'p1', 'p2', 'p3', 'e1', 'e2', 'e3', 'te', 'seq'
+];
+
+const phaseFields = (phase: number): BinaryField[] => [
+    { name: `v${phase}`, bytes: 2, scale: 10 },     // 0.1 V
+    { name: `c${phase}`, bytes: 2, scale: 100 },    // 0.01 A
+    { name: `pf${phase}`, bytes: 1, scale: 100 },   // 0.01
+    { name: `p${phase}`, bytes: 4, scale: 10 },     // 0.1 W
+    { name: `e${phase}`, bytes: 4, scale: 100 }     // 0.01 Wh (or kWh for cumulative registers)
+];
+
+export const BINARY_FIELDS_V1: BinaryField[] = [
+    ...phaseFields(1),
+    ...phaseFields(2),
+    ...phaseFields(3),
+    { name: 'te', bytes: 4, scale: 100 }
+];
+
+/**
+ * Decode a compact payload body (CSV line or base64 binary)
+ */
+export const decodeCompactPayload = (body: string): CompactDecodeResult => {
+    const text = body.trim();
+    if (text.length === 0) {
+        return { ok: false, message: 'Empty payload' };
+    }
+    // Base64 never contains commas
+    return text.includes(',') ? decodeCsv(text) : decodeBinary(text);
+};
+
+const decodeCsv = (text: string): CompactDecodeResult => {
+    const [versionField, ...values] = text.split(',').map(value => value.trim());
+    const version = Number(versionField);
+
+    if (version !== 1) {
+        return { ok: false, message: `Unsupported schema version ${versionField}` };
+    }
+    if (values.length > CSV_FIELDS_V1.length) {
+        return { ok: false, message: `Schema 1 has at most ${CSV_FIELDS_V1.length + 1} fields` };
+    }
+
+    const params: Record<string, string> = {};
+    values.forEach((value, i) => {
+        if (value !== '') params[CSV_FIELDS_V1[i]] = value;
+    });
+    return { ok: true, format: 'csv', version, params };
+};
+
+const decodeBinary = (text: string): CompactDecodeResult => {
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(text)) {
+        return { ok: false, message: 'Payload is neither a CSV line nor base64' };
+    }
+
+    const bytes = Buffer.from(text, 'base64');
+    if (bytes.length < 3) {
+        return { ok: false, message: 'Payload too short' };
+    }
+
+    const version = bytes.readUInt8(0);
+    if (version !== 1) {
+        return { ok: false, message: `Unsupported schema version ${version}` };
+    }
+
+    if (crc16(bytes.subarray(0, bytes.length - 2)) !== bytes.readUInt16BE(bytes.length - 2)) {
+        return { ok: false, message: 'CRC mismatch' };
+    }
+
+    try {
+        let offset = 1;
+        const idLength = bytes.readUInt8(offset++);
+        const params: Record<string, string> = {
+            d: bytes.toString('ascii', offset, offset + idLength)
+        };
+        offset += idLength;
+
+        params.ts = bytes.readUInt32BE(offset).toString();
+        offset += 4;
+
+        const flags = bytes.readUInt16BE(offset);
+        offset += 2;
+
+        BINARY_FIELDS_V1.forEach((field, bit) => {
+            if (!(flags & (1 << bit))) return;
+            const raw = field.bytes === 1 ? bytes.readUInt8(offset)
+                : field.bytes === 2 ? bytes.readUInt16BE(offset)
+                : bytes.readUInt32BE(offset);
+            params[field.name] = (raw / field.scale).toString();
+            offset += field.bytes;
+        });
+
+        if (offset !== bytes.length - 2) {
+            return { ok: false, message: 'Payload length does not match its presence flags' };
+        }
+        return { ok: true, format: 'binary', version, params };
+    } catch {
+        // Buffer reads past the end throw RangeError
+        return { ok: false, message: 'Payload too short' };
+    }
+};
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), as in common firmware libraries
+ */
+export const crc16 = (data: Uint8Array): number => {
+    let crc = 0xffff;
+    for (const byte of data) {
+        crc ^= byte << 8;
+        for (let i = 0; i < 8; i++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+        }
+    }
+    return crc;
+};
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+
+export const DATA_DIR = process.env.DATA_DIR || 'data';
+
+/**
+ * Small JSON document persisted under DATA_DIR (credentials, registries, ...)
+ * Loaded lazily on first read; writes replace the file atomically.
+ */
+export const createJsonStore = <T>(fileName: string, initial: () => T) => {
+    const filePath = path.join(DATA_DIR, fileName);
+    let data: T | null = null;
+
+    const read = (): T => {
+        if (data === null) {
+            data = fs.existsSync(filePath)
+                ? JSON.parse(fs.readFileSync(filePath, 'utf8')) as T
+                : initial();
+        }
+        return data;
+    };
+
+    const write = (next: T = read()): void => {
+        data = next;
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        // Stores may hold secrets - keep them private to the service user
+        fs.writeFileSync(tmpPath, JSON.stringify(next, null, 2), { mode: 0o600 });
+        fs.renameSync(tmpPath, filePath);
+    };
+
+    return { read, write, filePath };
+};
@@ -0,0 +1,19 @@
+/**
+ * Serialise async operations per key (e.g. per device)
+ * Operations for different keys still run concurrently.
+ */
+export const createKeyedLock = () => {
+    const tails = new Map<string, Promise<unknown>>();
+
+    return <T>(key: string, operation: () => Promise<T>): Promise<T> => {
+        const previous = tails.get(key) || Promise.resolve();
+        const run = previous.then(operation, operation);
+        const tail = run.catch(() => undefined);
+        tails.set(key, tail);
+        // Drop the entry once nothing else is queued behind this operation
+        tail.then(() => {
+            if (tails.get(key) === tail) tails.delete(key);
+        });
+        return run;
+    };
+};
@@ -0,0 +1,33 @@
+import { Role } from '../types';
+
+export type Permission =
+    | 'dashboard:read'      // readings, usage, analytics and device info of accessible devices
+    | 'billing:read'        // bill calculation
+    | 'profile:edit'        // own name, budget, tariff category and timezone
+    | 'devices:manage'      // registry, credentials, limits, config, commands, firmware, access grants
+    | 'tariffs:manage'      // tariff category of devices
+    | 'readings:ingest'     // reprocessing and the device traffic log
+    | 'quarantine:review'
+    | 'users:manage';
+
+export const ROLES: Role[] = ['admin', 'installer', 'owner', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    admin: [
+        'dashboard:read', 'billing:read', 'profile:edit', 'devices:manage',
+        'tariffs:manage', 'readings:ingest', 'quarantine:review', 'users:manage'
+    ],
+    // Provisions and commissions meters; sees readings but not bills
+    installer: ['dashboard:read', 'profile:edit', 'devices:manage', 'readings:ingest', 'quarantine:review'],
+    owner: ['dashboard:read', 'billing:read', 'profile:edit'],
+    // Read-only, including the profile (budget, tariff category)
+    viewer: ['dashboard:read', 'billing:read']
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+    (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+/**
+ * Permission matrix, for clients deciding what to show
+ */
+export const getPermissions = (role: Role): Permission[] => [...(ROLE_PERMISSIONS[role] || [])];
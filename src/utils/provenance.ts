@@ -0,0 +1,67 @@
+import { Provenance } from '../types';
+
+export type DataQuality = Provenance;
+
+/**
+ * Bit order of the provenance masks, per measurement
+ * Bit i of a mask refers to the i-th field of the list
+ */
+export const PHASE_PROVENANCE_FIELDS = ['voltage', 'current', 'power', 'energy_wh', 'power_factor'] as const;
+export const TOTAL_PROVENANCE_FIELDS = ['energy_wh', 'voltage', 'current', 'power'] as const;
+export const ENERGY_MEASUREMENT_PROVENANCE_FIELDS = ['e_Wh', 'p_W', 'v_rms', 'i_rms', 'pf', 'v_min', 'v_max', 'p_peak'] as const;
+
+/**
+ * Energy qualities kept when a caller excludes defaulted values (filter on
+ * the `energy_quality` field, the provenance of the energy value alone)
+ * Readings stored before provenance tracking have no such field and are excluded too
+ */
+export const NOT_DEFAULTED: DataQuality[] = ['measured', 'derived'];
+
+export interface ProvenanceSummary {
+    quality: DataQuality;       // worst provenance of any field
+    derivedMask: number;
+    defaultedMask: number;      // fields not in either mask were measured
+}
+
+const RANK: Record<Provenance, number> = { measured: 0, derived: 1, defaulted: 2 };
+
+/**
+ * Provenance of a value computed from other values
+ * Anything computed from a default is itself only an estimate
+ */
+export const derivedFrom = (...inputs: (Provenance | undefined)[]): Provenance =>
+    inputs.includes('defaulted') ? 'defaulted' : 'derived';
+
+export const worstOf = (...values: (Provenance | undefined)[]): Provenance =>
+    values.reduce<Provenance>((worst, value) => value && RANK[value] > RANK[worst] ? value : worst, 'measured');
+
+/**
+ * Encode per-field provenance as masks over `fields`
+ */
+export const summarizeProvenance = (
+    fields: readonly string[],
+    provenance: Partial<Record<string, Provenance>>
+): ProvenanceSummary => {
+    let derivedMask = 0;
+    let defaultedMask = 0;
+
+    fields.forEach((field, bit) => {
+        if (provenance[field] === 'derived') derivedMask |= 1 << bit;
+        if (provenance[field] === 'defaulted') defaultedMask |= 1 << bit;
+    });
+
+    return {
+        quality: defaultedMask ? 'defaulted' : derivedMask ? 'derived' : 'measured',
+        derivedMask,
+        defaultedMask
+    };
+};
+
+/**
+ * Decode stored masks back into field lists
+ */
+export const describeProvenance = (fields: readonly string[], derivedMask: number, defaultedMask: number) => ({
+    measured: fields.filter((_, bit) => !((derivedMask | defaultedMask) & (1 << bit))),
+    derived: fields.filter((_, bit) => derivedMask & (1 << bit)),
+    defaulted: fields.filter((_, bit) => defaultedMask & (1 << bit))
+});
@@ -0,0 +1,48 @@
+/**
+ * Parse the `phases` query parameter ('[1,2,3]' or '1,3')
+ * Returns null when it contains anything other than phase numbers 1-3
+ */
+export const parsePhasesParam = (value: unknown): number[] | null => {
+    if (value === undefined || value === '') return [1, 2, 3];
+    if (typeof value !== 'string') return null;
+
+    const items = value.replace(/^\[|\]$/g, '').split(',').map(s => s.trim());
+    const phases = items.map(Number);
+
+    if (phases.length === 0 || phases.some(p => ![1, 2, 3].includes(p))) {
+        return null;
+    }
+    return Array.from(new Set(phases));
+};
+
+/**
+ * Parse a boolean flag query parameter ('true'/'1' or 'false'/'0')
+ * Returns null for anything else
+ */
+export const parseBooleanParam = (value: unknown, defaultValue = false): boolean | null => {
+    if (value === undefined || value === '') return defaultValue;
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return null;
+};
+
+/**
+ * Parse an optional ISO datetime query parameter
+ * Returns undefined when absent and null when it is not a valid date
+ */
+export const parseDateParam = (value: unknown): Date | undefined | null => {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse a `limit` query parameter (1..max)
+ * Returns null for anything else
+ */
+export const parseLimitParam = (value: unknown, defaultValue: number, max: number): number | null => {
+    if (value === undefined || value === '') return defaultValue;
+    const limit = Number(value);
+    return Number.isInteger(limit) && limit >= 1 && limit <= max ? limit : null;
+};
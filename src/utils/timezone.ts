@@ -0,0 +1,93 @@
+/**
+ * IANA timezone helpers
+ * Day boundaries for dashboards are computed in the customer's timezone,
+ * not the server's (Azure runs in UTC).
+ */
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Colombo';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Local calendar fields of an instant in a timezone
+ */
+const zonedParts = (instant: Date, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    }).formatToParts(instant);
+
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second')
+    };
+};
+
+/**
+ * Offset of the timezone from UTC at the given instant (ms, positive east of UTC)
+ */
+const offsetMs = (instant: Date, timeZone: string): number => {
+    const p = zonedParts(instant, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the timezone
+ */
+export const zonedDateString = (instant: Date, timeZone: string): string => {
+    const p = zonedParts(instant, timeZone);
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+/**
+ * Hour of day (0-23) of an instant in the timezone
+ */
+export const zonedHour = (instant: Date, timeZone: string): number => zonedParts(instant, timeZone).hour;
+
+/**
+ * UTC instant of local midnight for a YYYY-MM-DD date in the timezone
+ */
+export const zonedDayStart = (date: string, timeZone: string): Date => {
+    const [year, month, day] = date.split('-').map(Number);
+    const utcMidnight = Date.UTC(year, month - 1, day);
+
+    // Apply the offset twice so days that start on a DST transition resolve correctly
+    let instant = utcMidnight - offsetMs(new Date(utcMidnight), timeZone);
+    instant = utcMidnight - offsetMs(new Date(instant), timeZone);
+    return new Date(instant);
+};
+
+/**
+ * Add calendar days to a YYYY-MM-DD date
+ */
+export const shiftDate = (date: string, days: number): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+/**
+ * [start, end) of the local calendar day
+ */
+export const zonedDayRange = (date: string, timeZone: string): { start: Date; end: Date } => ({
+    start: zonedDayStart(date, timeZone),
+    end: zonedDayStart(shiftDate(date, 1), timeZone)
+});
@@ -0,0 +1,82 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import clockDriftService from '../src/services/clockDriftService';
+import threePhaseIngestService from '../src/services/threePhaseIngestService';
+
+const now = Math.floor(Date.now() / 1000);
+
+// Samples `count` live readings whose device clock is `offset` seconds behind
+const sample = async (deviceId: string, offset: number, count = 1) => {
+    let resolution;
+    for (let i = 0; i < count; i++) {
+        resolution = await clockDriftService.observe(deviceId, now + i - offset, now + i);
+    }
+    return resolution!;
+};
+
+test('small offsets are latency and are not corrected', async () => {
+    assert.equal((await sample('latency', 5, 3)).correctionSeconds, 0);
+    assert.equal((await clockDriftService.getStatus('latency')).offsetSeconds, 5);
+});
+
+test('drift is corrected by the median offset', async () => {
+    await sample('drift', 120, 2);
+    assert.equal((await sample('drift', 900)).correctionSeconds, 120);
+});
+
+test('a jump replaces the estimate only once samples agree on it', async () => {
+    await sample('jump', 60, 3);
+    assert.equal((await sample('jump', 7200)).correctionSeconds, 60);
+    assert.equal((await sample('jump', 9000)).correctionSeconds, 60);
+    // Re-synced clock: steady offsets from here on
+    assert.equal((await sample('jump', 7200, 2)).correctionSeconds, 60);
+    assert.equal((await sample('jump', 7200)).correctionSeconds, 7200);
+});
+
+test('an RTC that lost its time is detected and anchored', async () => {
+    const resolution = await clockDriftService.observe('rtc', 946684800, now);
+    assert.deepEqual(resolution, { correctionSeconds: now - 946684800, rtcReset: true });
+    assert.equal((await clockDriftService.getStatus('rtc')).rtcReset?.deviceTs, 946684800);
+});
+
+test('resolving without recording leaves the estimate alone', async () => {
+    await sample('preview', 120, 3);
+    const resolution = await clockDriftService.observe('preview', now - 7200, now, false);
+    assert.equal(resolution.correctionSeconds, 120);
+    assert.equal((await clockDriftService.observe('preview', 946684800, now, false)).rtcReset, true);
+
+    const status = await clockDriftService.getStatus('preview');
+    assert.equal(status.samples, 3);
+    assert.equal(status.rtcReset, null);
+});
+
+test('rejected and quarantined readings are not sampled', async () => {
+    await sample('validated', 120, 3);
+    const reading = (voltage: number, powerFactor: number) => ({
+        deviceId: 'validated',
+        ts: now - 120,
+        p1_voltage: voltage, p1_current: 1, p1_powerFactor: powerFactor,
+        p2_voltage: 230, p2_current: 1, p2_powerFactor: 1,
+        p3_voltage: 230, p3_current: 1, p3_powerFactor: 1
+    });
+
+    assert.equal((await threePhaseIngestService.prepare(reading(230, 3))).ok, false);
+    const quarantined = await threePhaseIngestService.prepare(reading(2000, 1));
+    assert.ok(!quarantined.ok && 'quarantine' in quarantined);
+    assert.equal((await clockDriftService.getStatus('validated')).samples, 3);
+
+    const accepted = await threePhaseIngestService.prepare(reading(230, 1));
+    assert.ok(accepted.ok);
+    assert.equal(accepted.readings.clockCorrectionSeconds, 120);
+    assert.equal((await clockDriftService.getStatus('validated')).samples, 4);
+});
+
+test('a batch showing a reset RTC is anchored by its newest row', async () => {
+    const newest = 946684900;
+    assert.equal((await clockDriftService.correct('batch', now - 3600, newest, now, false)).correctionSeconds, 0);
+    assert.deepEqual(await clockDriftService.correct('batch', newest - 60, newest, now),
+        { correctionSeconds: now - newest, rtcReset: true });
+    // Rows recorded before the reset keep their own time
+    assert.equal((await clockDriftService.correct('batch', now - 3600, newest, now)).correctionSeconds, 0);
+});
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BINARY_FIELDS_V1, crc16, decodeCompactPayload } from '../src/utils/compactPayload';
+
+/**
+ * Encode a schema 1 binary payload the way the firmware does
+ */
+const encodeBinary = (deviceId: string, ts: number, values: Record<string, number>, version = 1): Buffer => {
+    const parts: Buffer[] = [Buffer.from([version, deviceId.length]), Buffer.from(deviceId, 'ascii')];
+    const header = Buffer.alloc(6);
+    header.writeUInt32BE(ts, 0);
+    let flags = 0;
+    const fields: Buffer[] = [];
+    BINARY_FIELDS_V1.forEach((field, bit) => {
+        if (values[field.name] === undefined) return;
+        flags |= 1 << bit;
+        const buf = Buffer.alloc(field.bytes);
+        buf.writeUIntBE(Math.round(values[field.name] * field.scale), 0, field.bytes);
+        fields.push(buf);
+    });
+    header.writeUInt16BE(flags, 4);
+    const body = Buffer.concat([...parts, header, ...fields]);
+    const crc = Buffer.alloc(2);
+    crc.writeUInt16BE(crc16(body));
+    return Buffer.concat([body, crc]);
+};
+
+test('crc16 matches the CCITT-FALSE check value', () => {
+    assert.equal(crc16(Buffer.from('123456789', 'ascii')), 0x29b1);
+});
+
+test('decodes a CSV line, skipping empty and omitted fields', () => {
+    assert.deepEqual(decodeCompactPayload('1,TEST,1735000000,235.0,0.8,,226.0\n'), {
+        ok: true,
+        format: 'csv',
+        version: 1,
+        params: { d: 'TEST', ts: '1735000000', v1: '235.0', c1: '0.8', v2: '226.0' }
+    });
+});
+
+test('refuses CSV with an unknown schema or too many fields', () => {
+    assert.deepEqual(decodeCompactPayload('2,TEST,1735000000'), { ok: false, message: 'Unsupported schema version 2' });
+    const tooLong = decodeCompactPayload(['1', ...new Array(20).fill('0')].join(','));
+    assert.equal(tooLong.ok, false);
+});
+
+test('decodes a binary payload with its scaled fields', () => {
+    const payload = encodeBinary('TEST', 1735000000, { v1: 235.1, c1: 0.82, pf1: 0.95, e1: 12.34, te: 40.5 });
+    assert.deepEqual(decodeCompactPayload(payload.toString('base64')), {
+        ok: true,
+        format: 'binary',
+        version: 1,
+        params: { d: 'TEST', ts: '1735000000', v1: '235.1', c1: '0.82', pf1: '0.95', e1: '12.34', te: '40.5' }
+    });
+});
+
+test('refuses binary payloads that are corrupt, truncated or of another schema', () => {
+    const payload = encodeBinary('TEST', 1735000000, { v1: 230 });
+
+    const corrupt = Buffer.from(payload);
+    corrupt[3] ^= 0xff;
+    assert.deepEqual(decodeCompactPayload(corrupt.toString('base64')), { ok: false, message: 'CRC mismatch' });
+
+    // Flags promise v1 and c1 but only v1 follows; the CRC still matches
+    const flagsOffset = 2 + 'TEST'.length + 4;
+    const lying = Buffer.from(payload.subarray(0, payload.length - 2));
+    lying.writeUInt16BE(0b11, flagsOffset);
+    const crc = Buffer.alloc(2);
+    crc.writeUInt16BE(crc16(lying));
+    assert.equal(decodeCompactPayload(Buffer.concat([lying, crc]).toString('base64')).ok, false);
+
+    assert.deepEqual(
+        decodeCompactPayload(encodeBinary('TEST', 1735000000, {}, 2).toString('base64')),
+        { ok: false, message: 'Unsupported schema version 2' }
+    );
+    assert.deepEqual(decodeCompactPayload('AQ=='), { ok: false, message: 'Payload too short' });
+});
+
+test('refuses empty bodies and text that is neither CSV nor base64', () => {
+    assert.deepEqual(decodeCompactPayload('  '), { ok: false, message: 'Empty payload' });
+    assert.deepEqual(decodeCompactPayload('not base64!'), { ok: false, message: 'Payload is neither a CSV line nor base64' });
+});
@@ -0,0 +1,78 @@
+import './helpers/env';
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import dedupService from '../src/services/dedupService';
+
+/**
+ * A dedup service as it is after a restart: its own instance, keys only from disk
+ */
+const restartedDedupService = (): typeof dedupService => {
+    const modulePath = require.resolve('../src/services/dedupService');
+    delete require.cache[modulePath];
+    return require(modulePath).default;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('payload keys ignore parameter order and prefer the idempotency key, then seq, then ts', () => {
+    const payload = { v1: '230', c1: '1.5', ts: '1760000000' };
+    const reordered = { ts: '1760000000', c1: '1.5', v1: '230' };
+
+    assert.equal(dedupService.keyFor('dev', payload, { ts: 1760000000 }), dedupService.keyFor('dev', reordered, { ts: 1760000000 }));
+    assert.notEqual(dedupService.keyFor('dev', payload, { ts: 1760000000 }), dedupService.keyFor('dev', { ...payload, c1: '1.6' }, { ts: 1760000000 }));
+    assert.notEqual(dedupService.keyFor('dev', payload), dedupService.keyFor('other', payload));
+
+    assert.equal(dedupService.keyFor('dev', payload, { idempotencyKey: 'abc', seq: '7', ts: 1 }), 'dev|key:abc');
+    assert.match(dedupService.keyFor('dev', payload, { seq: '7', ts: 1 }), /^dev\|seq:7\|/);
+    assert.match(dedupService.keyFor('dev', payload, { ts: 1 }), /^dev\|ts:1\|/);
+    assert.match(dedupService.keyFor('dev', payload), /^dev\|untimed\|/);
+});
+
+test('a remembered reading is reported as a duplicate and counted', () => {
+    const key = dedupService.keyFor('counted', { v1: '230' }, { seq: '1' });
+    assert.equal(dedupService.checkDuplicate('counted', key), null);
+
+    dedupService.remember(key, { status: 'OK', message: 'stored' });
+    assert.deepEqual(dedupService.checkDuplicate('counted', key)?.response, { status: 'OK', message: 'stored' });
+    dedupService.checkDuplicate('counted', key);
+
+    assert.equal(dedupService.getStats('counted').duplicates, 2);
+    assert.notEqual(dedupService.getStats('counted').lastDuplicateAt, null);
+});
+
+test('untimed readings are only matched within the short window', () => {
+    const untimed = dedupService.keyFor('window', { v1: '230' });
+    const timed = dedupService.keyFor('window', { v1: '230' }, { ts: 1760000000 });
+    dedupService.remember(untimed);
+    dedupService.remember(timed);
+
+    const later = Date.now() + 10 * 60 * 1000;
+    mock.method(Date, 'now', () => later);
+    assert.equal(dedupService.checkDuplicate('window', untimed), null);
+    assert.notEqual(dedupService.checkDuplicate('window', timed), null);
+});
+
+test('a retry arriving after a restart is still recognised', () => {
+    const key = dedupService.keyFor('restart', { v1: '231' }, { idempotencyKey: 'retry-1' });
+    dedupService.remember(key, { status: 'OK' });
+
+    const restarted = restartedDedupService();
+    assert.deepEqual(restarted.checkDuplicate('restart', key)?.response, { status: 'OK' });
+    assert.equal(restarted.checkDuplicate('restart', restarted.keyFor('restart', { v1: '231' }, { idempotencyKey: 'retry-2' })), null);
+});
+
+test('a replay arriving while the original is still being processed is caught', async () => {
+    const key = dedupService.keyFor('concurrent', { v1: '232' }, { seq: '9' });
+    let stored = 0;
+
+    const ingest = () => dedupService.exclusive('concurrent', async () => {
+        if (dedupService.checkDuplicate('concurrent', key)) return 'duplicate';
+        await new Promise(resolve => setTimeout(resolve, 20));
+        stored++;
+        dedupService.remember(key);
+        return 'stored';
+    });
+
+    assert.deepEqual(await Promise.all([ingest(), ingest()]), ['stored', 'duplicate']);
+    assert.equal(stored, 1);
+});
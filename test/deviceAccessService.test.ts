@@ -0,0 +1,57 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Role } from '../src/types';
+import deviceAccessService from '../src/services/deviceAccessService';
+import deviceRegistryService from '../src/services/deviceRegistryService';
+import siteService from '../src/services/siteService';
+import { PublicUser } from '../src/services/userService';
+
+const user = (id: string, role: Role): PublicUser => ({
+    id,
+    name: id,
+    email: `${id}@example.com`,
+    role,
+    connectionCategory: 'domestic-3phase',
+    monthlyBudget: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+deviceRegistryService.create('METER-1', { name: 'Meter 1', userId: 'owner-1' });
+
+test('unregistered devices are not found, whatever the role', () => {
+    assert.deepEqual(deviceAccessService.check(user('admin-1', 'admin'), 'NOPE'), { ok: false, code: 'DEVICE_NOT_FOUND' });
+});
+
+test('roles that manage devices see every device', () => {
+    assert.deepEqual(deviceAccessService.check(user('admin-1', 'admin'), 'METER-1'), { ok: true, via: 'role' });
+    assert.deepEqual(deviceAccessService.check(user('installer-1', 'installer'), 'METER-1'), { ok: true, via: 'role' });
+});
+
+test('owners see their own devices only', () => {
+    assert.deepEqual(deviceAccessService.check(user('owner-1', 'owner'), 'METER-1'), { ok: true, via: 'owner' });
+    assert.deepEqual(deviceAccessService.check(user('owner-2', 'owner'), 'METER-1'), { ok: false, code: 'FORBIDDEN' });
+});
+
+test('a grant shares a device until it is revoked', () => {
+    const viewer = user('viewer-1', 'viewer');
+    const first = deviceAccessService.grant('METER-1', viewer.id);
+    assert.equal(deviceAccessService.grant('METER-1', viewer.id), first);
+    assert.deepEqual(deviceAccessService.check(viewer, 'METER-1'), { ok: true, via: 'grant' });
+
+    assert.equal(deviceAccessService.revoke('METER-1', viewer.id), true);
+    assert.equal(deviceAccessService.revoke('METER-1', viewer.id), false);
+    assert.deepEqual(deviceAccessService.listGrants('METER-1'), []);
+    assert.deepEqual(deviceAccessService.check(viewer, 'METER-1'), { ok: false, code: 'FORBIDDEN' });
+});
+
+test('organization members see the meters of its sites', () => {
+    const member = user('member-1', 'viewer');
+    const org = siteService.createOrganization({ name: 'Factory', userIds: [member.id] });
+    const site = siteService.createSite(org.id, { name: 'Plant' })!;
+    assert.equal(siteService.setMeter(site.id, 'METER-1', 'main').ok, true);
+
+    assert.deepEqual(deviceAccessService.check(member, 'METER-1'), { ok: true, via: 'organization' });
+    assert.deepEqual(deviceAccessService.check(user('outsider-1', 'viewer'), 'METER-1'), { ok: false, code: 'FORBIDDEN' });
+});
@@ -0,0 +1,42 @@
+import './helpers/env';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/db';
+import diagnosticsService from '../src/services/diagnosticsService';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+test('csq is converted to dBm and out-of-range values are dropped', () => {
+    assert.deepEqual(diagnosticsService.parse({ csq: '15', bv: '-1', up: '3600', fw: '1.2.0' }),
+        { rssiDbm: -83, firmware: '1.2.0', uptimeSeconds: 3600 });
+    assert.equal(diagnosticsService.parse({ v1: '230' }), null);
+});
+
+test('uptime going backwards is recorded as a reboot', async () => {
+    const first = await diagnosticsService.toPoint('reboots', { up: '7200' }, minutesAgo(3));
+    const second = await diagnosticsService.toPoint('reboots', { up: '30' }, minutesAgo(2));
+    assert.equal(first!.fields.reboot, 0);
+    assert.equal(second!.fields.reboot, 1);
+
+    await storage.write([first!, second!]);
+    const summary = await diagnosticsService.getSummary('reboots');
+    assert.equal(summary.latest.uptimeSeconds, 30);
+    assert.equal(summary.last24h.reboots, 1);
+});
+
+test('a device that never sent diagnostics has an empty summary', async () => {
+    mock.method(storage, 'queryRange', async () => { throw new Error("table 'device_diagnostics' not found"); });
+    mock.method(storage, 'isMissing', () => true);
+    const summary = await diagnosticsService.getSummary('silent');
+    assert.equal(summary.latest.time, null);
+    const point = await diagnosticsService.toPoint('silent', { up: '10' }, minutesAgo(1));
+    assert.equal(point!.fields.reboot, 0);
+    mock.restoreAll();
+});
+
+test('a storage outage is an error, not a device without diagnostics', async () => {
+    mock.method(storage, 'queryRange', async () => { throw new Error('connect ECONNREFUSED'); });
+    await assert.rejects(diagnosticsService.getSummary('outage'), /ECONNREFUSED/);
+    await assert.rejects(diagnosticsService.toPoint('outage', { up: '10' }, minutesAgo(1)), /ECONNREFUSED/);
+    mock.restoreAll();
+});
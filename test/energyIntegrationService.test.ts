@@ -0,0 +1,63 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import energyIntegrationService, { IntegrationOptions } from '../src/services/energyIntegrationService';
+import threePhaseIngestService from '../src/services/threePhaseIngestService';
+
+const OPTIONS: IntegrationOptions = { nominalIntervalSeconds: 60, maxGapSeconds: 900 };
+const start = Date.now() - 60 * 60 * 1000;
+const at = (seconds: number) => new Date(start + seconds * 1000);
+const none = async () => null;
+
+test('power is integrated over the time actually elapsed', async () => {
+    assert.deepEqual(await energyIntegrationService.integrate('s1', at(0), 1200, OPTIONS, none),
+        { energyWh: 20, method: 'nominal_interval', elapsedSeconds: null });
+    // 30 s at an average of 1800 W
+    assert.deepEqual(await energyIntegrationService.integrate('s1', at(30), 2400, OPTIONS, none),
+        { energyWh: 15, method: 'trapezoidal', elapsedSeconds: 30 });
+});
+
+test('long gaps only integrate the nominal interval', async () => {
+    await energyIntegrationService.integrate('gap', at(0), 600, OPTIONS, none);
+    const result = await energyIntegrationService.integrate('gap', at(3600), 600, OPTIONS, none);
+    assert.deepEqual(result, { energyWh: 10, method: 'gap_capped', elapsedSeconds: 3600 });
+});
+
+test('older samples do not move the series back', async () => {
+    await energyIntegrationService.integrate('late', at(60), 600, OPTIONS, none);
+    assert.equal((await energyIntegrationService.integrate('late', at(0), 600, OPTIONS, none)).method, 'out_of_order');
+    assert.equal((await energyIntegrationService.integrate('late', at(120), 600, OPTIONS, none)).elapsedSeconds, 60);
+});
+
+test('measured samples become the next starting point', async () => {
+    await energyIntegrationService.integrate('mixed', at(0), 600, OPTIONS, none);
+    await energyIntegrationService.record('mixed', at(50), 600);
+    assert.equal((await energyIntegrationService.integrate('mixed', at(60), 600, OPTIONS, none)).elapsedSeconds, 10);
+});
+
+test('the previous sample is loaded once after a restart', async () => {
+    let loads = 0;
+    const load = async () => { loads++; return { time: at(0).getTime(), powerW: 1000 }; };
+    assert.equal((await energyIntegrationService.integrate('seeded', at(36), 1000, OPTIONS, load)).energyWh, 10);
+    await energyIntegrationService.integrate('seeded', at(72), 1000, OPTIONS, load);
+    assert.equal(loads, 1);
+});
+
+test('a reading refused by the plausibility check does not become an anchor', async () => {
+    const reading = (seconds: number, voltage: number) => ({
+        deviceId: 'anchor',
+        ts: Math.floor(at(seconds).getTime() / 1000),
+        p1_voltage: voltage, p1_current: 1, p1_powerFactor: 1,
+        p2_voltage: 230, p2_current: 1, p2_powerFactor: 1,
+        p3_voltage: 230, p3_current: 1, p3_powerFactor: 1
+    });
+
+    assert.equal((await threePhaseIngestService.prepare(reading(0, 230), { clock: 'none' })).ok, true);
+    const refused = await threePhaseIngestService.prepare(reading(60, 2000), { clock: 'none' });
+    assert.ok(!refused.ok && 'quarantine' in refused);
+
+    const accepted = await threePhaseIngestService.prepare(reading(120, 230), { clock: 'none' });
+    assert.ok(accepted.ok);
+    assert.equal(accepted.readings.phases['1'].energy_method, 'trapezoidal');
+    assert.equal(accepted.readings.phases['1'].energy_wh, 230 * 120 / 3600);
+});
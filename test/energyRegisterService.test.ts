@@ -0,0 +1,83 @@
+import './helpers/env';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/db';
+import energyRegisterService, { RegisterOptions } from '../src/services/energyRegisterService';
+
+const OPTIONS: RegisterOptions = { unit: 'Wh', maxKWh: 100, maxPowerW: 10000 };
+const MINUTE = 60 * 1000;
+const start = Date.now() - 60 * MINUTE;
+const at = (minutes: number) => new Date(start + minutes * MINUTE);
+
+const delta = async (deviceId: string, minutes: number, valueWh: number) =>
+    (await energyRegisterService.toIntervalEnergy(deviceId, at(minutes), { '1': valueWh }, OPTIONS))['1']!;
+
+test('the first value is a baseline and later values are differenced', async () => {
+    assert.deepEqual(await delta('normal', 0, 5000), { deltaWh: 0, registerWh: 5000, event: 'baseline' });
+    assert.deepEqual(await delta('normal', 1, 5100), { deltaWh: 100, registerWh: 5100, event: 'normal' });
+});
+
+test('older values are not differenced', async () => {
+    await delta('late', 0, 5000);
+    await delta('late', 2, 5100);
+    assert.deepEqual(await delta('late', 1, 5050), { deltaWh: 0, registerWh: 5050, event: 'out_of_order' });
+    assert.equal((await delta('late', 3, 5150)).deltaWh, 50);
+});
+
+test('a counter restarting from zero counts what it has read since', async () => {
+    await delta('reset', 0, 5000);
+    assert.deepEqual(await delta('reset', 1, 40), { deltaWh: 40, registerWh: 40, event: 'reset' });
+});
+
+test('a counter wrapping past its capacity counts across the wrap', async () => {
+    await delta('wrap', 0, 99950);
+    assert.deepEqual(await delta('wrap', 1, 30), { deltaWh: 80, registerWh: 30, event: 'rollover' });
+});
+
+test('a jump no load could draw in the elapsed time re-baselines', async () => {
+    await delta('swap', 0, 5000);
+    assert.deepEqual(await delta('swap', 1, 60000), { deltaWh: 0, registerWh: 60000, event: 'replacement' });
+});
+
+test('kWh registers are converted and a missing total sums the phases', async () => {
+    const readings: any = {
+        timestamp: at(1).toISOString(),
+        phases: { '1': { energy_wh: 0 }, '2': { energy_wh: 0 }, '3': { energy_wh: 0 } },
+        total: { energy_wh: 0 }
+    };
+    await energyRegisterService.toIntervalEnergy('kwh', at(0), { '1': 1.0, '2': 2.0, '3': 3.0 });
+    await energyRegisterService.applyToReadings('kwh', readings, { '1': 1.01, '2': 2.02, '3': 3.03 });
+    assert.equal(readings.phases['1'].energy_register_wh, 1010);
+    assert.equal(Math.round(readings.total.energy_wh), 60);
+});
+
+test('state is seeded from the last stored register after a restart', async () => {
+    await storage.write([{
+        measurement: 'three_phase_energy',
+        tags: { device_id: 'stored', phase: '1' },
+        fields: { energy_wh: 10, energy_register_wh: 7000 },
+        timestamp: at(0)
+    }]);
+    assert.deepEqual(await delta('stored', 1, 7020), { deltaWh: 20, registerWh: 7020, event: 'normal' });
+});
+
+test('a storage outage while seeding fails the reading and is retried', async () => {
+    await storage.write([{
+        measurement: 'three_phase_energy',
+        tags: { device_id: 'outage', phase: '1' },
+        fields: { energy_wh: 10, energy_register_wh: 8000 },
+        timestamp: at(0)
+    }]);
+    const outage = mock.method(storage, 'queryRange', async () => { throw new Error('connect ECONNREFUSED'); });
+    await assert.rejects(delta('outage', 1, 8020), /ECONNREFUSED/);
+    outage.mock.restore();
+
+    assert.deepEqual(await delta('outage', 2, 8040), { deltaWh: 40, registerWh: 8040, event: 'normal' });
+});
+
+test('registers that were never stored start from a baseline', async () => {
+    mock.method(storage, 'queryRange', async () => { throw new Error("table 'three_phase_energy' not found"); });
+    mock.method(storage, 'isMissing', () => true);
+    assert.equal((await delta('never', 0, 100)).event, 'baseline');
+    mock.restoreAll();
+});
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Test environment: JSON stores and the ingestion queue in a fresh
+ * directory, readings in the in-memory storage backend. Import before any
+ * service (each test file runs in its own process, so each gets its own).
+ */
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backend-test-'));
+
+process.env.DATA_DIR = dataDir;
+process.env.INGEST_QUEUE_FILE = path.join(dataDir, 'ingest-queue.jsonl');
+process.env.STORAGE_BACKEND = 'memory';
+delete process.env.STORAGE_FILE;
+
+process.on('exit', () => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
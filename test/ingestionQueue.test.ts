@@ -0,0 +1,87 @@
+import './helpers/env';
+import fs from 'fs';
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/db';
+import ingestionQueue from '../src/services/ingestionQueue';
+
+const point = (deviceId: string, minutes: number, power: number) => ({
+    measurement: 'queue_test',
+    tags: { device_id: deviceId },
+    fields: { power },
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minutes))
+});
+
+const storedPower = async (deviceId: string) =>
+    (await storage.queryRange({ measurement: 'queue_test', fields: ['power'], where: { device_id: deviceId } }))
+        .map(row => row.power);
+
+/**
+ * An ingestion queue as it is after a restart: its own instance, entries only
+ * from the queue file (loaded by start; the flush loop is left to the tests)
+ */
+const restartedQueue = (): typeof ingestionQueue => {
+    const modulePath = require.resolve('../src/services/ingestionQueue');
+    delete require.cache[modulePath];
+    const queue: typeof ingestionQueue = require(modulePath).default;
+    queue.start();
+    queue.stop();
+    return queue;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('queued points survive a restart and are replayed', async () => {
+    await ingestionQueue.enqueue([point('replay', 0, 100)]);
+    await ingestionQueue.enqueue([point('replay', 1, 200)]);
+
+    const restarted = restartedQueue();
+    assert.equal(restarted.getStats().depth, 2);
+    await restarted.flush();
+
+    assert.deepEqual(await storedPower('replay'), [100, 200]);
+    assert.equal(restarted.getStats().depth, 0);
+    assert.equal(restartedQueue().getStats().depth, 0);
+});
+
+test('a failed write keeps the points queued and is retried after a backoff', async () => {
+    const queue = restartedQueue();
+    await queue.enqueue([point('retry', 0, 300)]);
+
+    mock.method(storage, 'write', async () => { throw new Error('connection refused'); });
+    await queue.flush();
+    assert.equal(queue.getStats().retryAttempt, 1);
+    assert.equal(queue.getStats().lastError, 'connection refused');
+    assert.notEqual(queue.getStats().nextRetryAt, null);
+    assert.equal(queue.getStats().depth, 1);
+
+    mock.restoreAll();
+    await queue.flush();
+    assert.equal(queue.getStats().depth, 1, 'no retry before the backoff has passed');
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    await queue.flush();
+    assert.deepEqual(await storedPower('retry'), [300]);
+    assert.equal(queue.getStats().retryAttempt, 0);
+    assert.equal(queue.getStats().depth, 0);
+});
+
+test('points storage refuses are dead-lettered without holding up the rest', async () => {
+    const queue = restartedQueue();
+    await queue.enqueue([point('dead', 0, 1), point('dead', 1, 2), point('dead', 2, -1), point('dead', 3, 4)]);
+
+    const write = storage.write.bind(storage);
+    mock.method(storage, 'write', async (points: ReturnType<typeof point>[]) => {
+        if (points.some(p => p.fields.power < 0)) throw new RangeError('negative power');
+        return write(points);
+    });
+    await queue.flush();
+
+    assert.deepEqual(await storedPower('dead'), [1, 2, 4]);
+    assert.equal(queue.getStats().depth, 0);
+    assert.equal(queue.getStats().deadLettered, 1);
+
+    const [letter] = fs.readFileSync(`${process.env.DATA_DIR}/ingest-dead-letter.jsonl`, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    assert.equal(letter.error, 'negative power');
+    assert.equal(letter.point.fields.power, -1);
+});
@@ -0,0 +1,65 @@
+import './helpers/env';
+import net from 'net';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { connectAsync, MqttClient } from 'mqtt';
+import deviceRegistryService from '../src/services/deviceRegistryService';
+import type mqttIngestServiceType from '../src/services/mqttIngestService';
+
+const freePort = () => new Promise<number>((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+    });
+});
+
+const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) await new Promise(resolve => setTimeout(resolve, 20));
+    assert.ok(condition());
+};
+
+let mqttIngestService: typeof mqttIngestServiceType;
+let publisher: MqttClient;
+
+const publishAndAck = async (topic: string) => {
+    const acks: string[] = [];
+    const onMessage = (ackTopic: string) => acks.push(ackTopic);
+    publisher.on('message', onMessage);
+    await publisher.subscribeAsync(`${topic}/ack`);
+    await publisher.publishAsync(topic, 'ts=1&v1=230', { qos: 1 });
+    // Give the service time to ack a subscribed topic before deciding it did not
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await publisher.unsubscribeAsync(`${topic}/ack`);
+    publisher.off('message', onMessage);
+    return acks.length > 0;
+};
+
+test('device topics set or cleared in the registry are followed without a restart', async () => {
+    process.env.MQTT_EMBEDDED_PORT = String(await freePort());
+    mqttIngestService = require('../src/services/mqttIngestService').default;
+    await mqttIngestService.start();
+    await waitFor(() => mqttIngestService.getStats().connected);
+    publisher = await connectAsync(`mqtt://localhost:${process.env.MQTT_EMBEDDED_PORT}`);
+
+    deviceRegistryService.create('mqtt-1', { name: 'Meter', location: 'Plant', mqttTopic: 'plant/meter-1' });
+    assert.ok(mqttIngestService.getStats().topics.includes('plant/meter-1'));
+    assert.equal(await publishAndAck('plant/meter-1'), true);
+
+    deviceRegistryService.update('mqtt-1', { mqttTopic: 'plant/meter-2' });
+    assert.deepEqual(mqttIngestService.getStats().topics.filter(topic => topic.startsWith('plant/')), ['plant/meter-2']);
+    assert.equal(await publishAndAck('plant/meter-2'), true);
+    assert.equal(await publishAndAck('plant/meter-1'), false);
+});
+
+test('device topics with MQTT wildcards are rejected', () => {
+    assert.match(deviceRegistryService.validate({ mqttTopic: 'plant/+/meter' }, false) ?? '', /wildcards/);
+    assert.match(deviceRegistryService.validate({ mqttTopic: 'plant/#' }, false) ?? '', /wildcards/);
+    assert.equal(deviceRegistryService.validate({ mqttTopic: 'plant/meter-1' }, false), null);
+});
+
+after(async () => {
+    await publisher?.endAsync();
+    await mqttIngestService?.stop();
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Role } from '../src/types';
+import { ROLES, getPermissions, hasPermission } from '../src/utils/permissions';
+
+test('admin has every permission of every other role', () => {
+    const adminPermissions = getPermissions('admin');
+    for (const role of ROLES) {
+        for (const permission of getPermissions(role)) {
+            assert.ok(adminPermissions.includes(permission), `${role} has ${permission}`);
+        }
+    }
+});
+
+test('installers manage devices but do not see bills', () => {
+    assert.equal(hasPermission('installer', 'devices:manage'), true);
+    assert.equal(hasPermission('installer', 'quarantine:review'), true);
+    assert.equal(hasPermission('installer', 'billing:read'), false);
+    assert.equal(hasPermission('installer', 'users:manage'), false);
+});
+
+test('viewers are read-only', () => {
+    assert.deepEqual(getPermissions('viewer'), ['dashboard:read', 'billing:read']);
+    assert.equal(hasPermission('viewer', 'profile:edit'), false);
+});
+
+test('unknown roles have no permissions', () => {
+    assert.equal(hasPermission('user' as Role, 'dashboard:read'), false);
+    assert.deepEqual(getPermissions('user' as Role), []);
+});
+
+test('getPermissions returns a copy', () => {
+    getPermissions('owner').push('users:manage');
+    assert.equal(hasPermission('owner', 'users:manage'), false);
+});
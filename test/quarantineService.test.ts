@@ -0,0 +1,44 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import quarantineService, { QuarantineCandidate } from '../src/services/quarantineService';
+import { ThreePhaseInput } from '../src/services/threePhaseIngestService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candidate = (deviceId: string, ageMs: number): QuarantineCandidate => {
+    const timestamp = new Date(Date.now() - ageMs).toISOString();
+    return {
+        deviceId,
+        timestamp,
+        input: { deviceId, ts: Math.floor(Date.parse(timestamp) / 1000) } as ThreePhaseInput,
+        violations: [{ rule: 'max_current', phase: '1', value: 500, expected: '0-100 A' }]
+    };
+};
+
+test('list returns the newest entries up to the limit, paging past reviewed ones for a status', async () => {
+    const entries = await quarantineService.addAll(
+        Array.from({ length: 150 }, (_, i) => candidate('paged', (i + 1) * 60 * 1000)));
+    // The newest 120 are already reviewed, so pending ones only start on the second page
+    for (const entry of entries.slice(0, 120)) await quarantineService.setStatus(entry, 'discarded');
+
+    const newest = await quarantineService.list({ deviceId: 'paged', limit: 5 });
+    assert.deepEqual(newest.map(entry => entry.id), entries.slice(0, 5).map(entry => entry.id));
+
+    const pending = await quarantineService.list({ deviceId: 'paged', status: 'pending', limit: 10 });
+    assert.deepEqual(pending.map(entry => entry.id), entries.slice(120, 130).map(entry => entry.id));
+
+    assert.equal((await quarantineService.list({ deviceId: 'paged' })).length, 100);
+});
+
+test('entries older than the default window are found only with a range', async () => {
+    const [recent, old] = await quarantineService.addAll([candidate('window', DAY_MS), candidate('window', 60 * DAY_MS)]);
+
+    assert.deepEqual((await quarantineService.list({ deviceId: 'window' })).map(entry => entry.id), [recent.id]);
+    assert.equal(await quarantineService.get(old.id), null);
+
+    const from = new Date(Date.now() - 90 * DAY_MS);
+    assert.deepEqual((await quarantineService.list({ deviceId: 'window', from })).map(entry => entry.id), [recent.id, old.id]);
+    assert.equal((await quarantineService.get(old.id, { deviceId: 'window', from }))?.id, old.id);
+    assert.equal(await quarantineService.get(old.id, { deviceId: 'other', from }), null);
+});
@@ -0,0 +1,58 @@
+import './helpers/env';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/db';
+import ingestionQueue from '../src/services/ingestionQueue';
+import rollupService from '../src/services/rollupService';
+
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+const bucketStart = Math.floor((Date.now() - 2 * 60 * 60 * 1000) / QUARTER_HOUR_MS) * QUARTER_HOUR_MS;
+
+const totalPoint = (deviceId: string, minutes: number, energyWh: number) => ({
+    measurement: 'three_phase_total',
+    tags: { device_id: deviceId },
+    fields: { total_energy_wh: energyWh, avg_voltage: 230, total_current: 1, total_power: 230 },
+    timestamp: new Date(bucketStart + minutes * 60 * 1000)
+});
+
+/**
+ * A rollup service as it is after a restart: its own instance, state only from disk
+ */
+const restartedRollupService = (): typeof rollupService => {
+    const modulePath = require.resolve('../src/services/rollupService');
+    delete require.cache[modulePath];
+    return require(modulePath).default;
+};
+
+const quarterHourEnergy = async (service: typeof rollupService, deviceId: string) =>
+    (await service.getRollups(deviceId, '15m', 'total', { from: new Date(bucketStart) }))
+        .reduce((sum, row) => sum + row.energy_wh, 0);
+
+test('buckets flushed to storage but not yet rolled up survive a restart', async () => {
+    rollupService.start();
+    await ingestionQueue.enqueue([totalPoint('restart', 1, 10), totalPoint('restart', 16, 20)]);
+    await ingestionQueue.flush();
+    rollupService.stop();
+
+    const restarted = restartedRollupService();
+    assert.deepEqual(restarted.getStaleSince('restart'), new Date(bucketStart));
+
+    await restarted.flush();
+    assert.equal(restarted.getStaleSince('restart'), null);
+    assert.equal(await quarterHourEnergy(restarted, 'restart'), 30);
+    assert.equal(restartedRollupService().getStaleSince('restart'), null);
+});
+
+test('buckets of a failed recompute stay dirty across a restart', async () => {
+    await storage.write([totalPoint('failing', 2, 5)]);
+    rollupService.markDirty('failing', new Date(bucketStart + 2 * 60 * 1000));
+
+    const outage = mock.method(storage, 'aggregate', async () => { throw new Error('connect ECONNREFUSED'); });
+    await assert.rejects(rollupService.flush(), /failing/);
+    outage.mock.restore();
+
+    const restarted = restartedRollupService();
+    assert.deepEqual(restarted.getStaleSince('failing'), new Date(bucketStart));
+    await restarted.flush();
+    assert.equal(await quarterHourEnergy(restarted, 'failing'), 5);
+});
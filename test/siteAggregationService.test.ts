@@ -0,0 +1,86 @@
+import './helpers/env';
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import deviceRegistryService from '../src/services/deviceRegistryService';
+import siteService from '../src/services/siteService';
+import siteAggregationService from '../src/services/siteAggregationService';
+import threePhasePowerService from '../src/services/threePhasePowerService';
+import { ThreePhaseReadings } from '../src/types';
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const phase = (power: number, energyWh: number) => ({ voltage: 230, current: power / 230, power, energy_wh: energyWh, powerFactor: 1 });
+
+const readings = (power: number, energyWh: number, timestamp: string): ThreePhaseReadings => ({
+    phases: { '1': phase(power / 3, energyWh / 3), '2': phase(power / 3, energyWh / 3), '3': phase(power / 3, energyWh / 3) },
+    total: { energy_wh: energyWh, voltage: 230, current: power / 230, power },
+    timestamp
+});
+
+const LATEST: Record<string, ThreePhaseReadings> = {
+    'incomer': readings(9000, 300, '2026-01-01T10:00:00.000Z'),
+    'feeder-a': readings(4000, 120, '2026-01-01T10:01:00.000Z'),
+    'feeder-b': readings(3000, 90, '2026-01-01T09:59:00.000Z'),
+    'workshop': readings(1500, 60, '2026-01-01T10:02:00.000Z')
+};
+
+// A meter belongs to one site, so each test prefixes its device IDs (`<test>_<meter>`)
+const latest = (deviceId: string) => LATEST[deviceId.slice(deviceId.indexOf('_') + 1)];
+
+const siteWith = (prefix: string, meters: [string, 'main' | 'sub'][]) => {
+    const org = siteService.createOrganization({ name: 'Plant' });
+    const site = siteService.createSite(org.id, { name: 'Site' })!;
+    for (const [meter, role] of meters) {
+        const deviceId = `${prefix}_${meter}`;
+        if (!deviceRegistryService.get(deviceId)) deviceRegistryService.create(deviceId, { name: meter, location: 'Plant' });
+        assert.equal(siteService.setMeter(site.id, deviceId, role).ok, true);
+    }
+    return siteService.scopeOf(siteService.getSite(site.id)!);
+};
+
+afterEach(() => mock.restoreAll());
+
+test('a site total counts its main meters only and lists sub-meters separately', async () => {
+    mock.method(threePhasePowerService, 'getLatestReadings', async (deviceId: string) => latest(deviceId) ?? null);
+    const scope = siteWith('mains', [['incomer', 'main'], ['feeder-a', 'sub'], ['feeder-b', 'sub']]);
+
+    assert.deepEqual(scope.counted, ['mains_incomer']);
+    assert.deepEqual(scope.subMeters, ['mains_feeder-a', 'mains_feeder-b']);
+
+    const result = (await siteAggregationService.getLatestReadings([scope], [1, 2, 3]))!;
+    assert.equal(result.total.power, 9000);
+    assert.equal(result.total.energy_wh, 300);
+    assert.equal(result.timestamp, '2026-01-01T10:00:00.000Z');
+    assert.deepEqual(result.meters.map(meter => [meter.deviceId, meter.counted, meter.power]),
+        [['mains_incomer', true, 9000], ['mains_feeder-a', false, 4000], ['mains_feeder-b', false, 3000]]);
+});
+
+test('a site without a main meter adds up all of its meters', async () => {
+    mock.method(threePhasePowerService, 'getLatestReadings', async (deviceId: string) => latest(deviceId) ?? null);
+    const scope = siteWith('nomain', [['feeder-a', 'sub'], ['feeder-b', 'sub']]);
+
+    const result = (await siteAggregationService.getLatestReadings([scope], [1, 2, 3]))!;
+    assert.equal(result.total.power, 7000);
+    assert.equal(result.total.energy_wh, 210);
+    assert.equal(result.phases['1']!.power, round(7000 / 3));
+    assert.equal(result.phases['1']!.voltage, 230);
+});
+
+test('an organization total adds up the site totals', async () => {
+    mock.method(threePhasePowerService, 'getStatistics', async (deviceId: string) => ({
+        totalEnergy: latest(deviceId).total.energy_wh,
+        averageVoltage: 230,
+        peakPower: latest(deviceId).total.power,
+        latestReading: null,
+        dataQuality: { measured: 10, derived: 0, defaulted: 0, unknown: 0, measuredShare: 1 }
+    }));
+    const plant = siteWith('org', [['incomer', 'main'], ['feeder-a', 'sub']]);
+    const workshop = siteWith('org', [['workshop', 'main']]);
+
+    const stats = await siteAggregationService.getStatistics([plant, workshop], 'today', 'UTC', false);
+    assert.equal(stats.totalEnergy, 360);
+    assert.equal(stats.peakPower, 10500);
+    assert.equal(stats.dataQuality.measured, 20);
+    assert.deepEqual(stats.meters.map(meter => [meter.deviceId, meter.counted, meter.totalEnergy]),
+        [['org_incomer', true, 300], ['org_feeder-a', false, 120], ['org_workshop', true, 60]]);
+});
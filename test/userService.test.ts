@@ -0,0 +1,83 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import userService from '../src/services/userService';
+
+const profile = {
+    name: 'Test Owner',
+    email: 'Owner@Example.com',
+    role: 'owner' as const,
+    connectionCategory: 'domestic-3phase' as const,
+    monthlyBudget: 1000
+};
+
+const login = async (email = 'owner@example.com', password = 'correct horse') => {
+    const result = await userService.login(email, password);
+    assert.ok(result.ok);
+    return result.tokens;
+};
+
+test('seeded users exist but cannot log in without a password', async () => {
+    assert.equal(userService.getById('user-1')?.role, 'admin');
+    assert.deepEqual(await userService.login('nuwan.perera@kln.ac.lk', ''), { ok: false, code: 'INVALID_CREDENTIALS' });
+});
+
+test('create refuses an email that is taken, ignoring case', async () => {
+    const user = await userService.create(profile, 'correct horse');
+    assert.ok(user);
+    assert.equal('passwordHash' in user, false);
+    assert.equal(await userService.create({ ...profile, email: 'OWNER@example.com' }, 'another one'), null);
+});
+
+test('login checks the password', async () => {
+    assert.deepEqual(await userService.login('owner@example.com', 'wrong horse'), { ok: false, code: 'INVALID_CREDENTIALS' });
+    assert.deepEqual(await userService.login('nobody@example.com', 'correct horse'), { ok: false, code: 'INVALID_CREDENTIALS' });
+
+    const tokens = await login(' OWNER@example.com ');
+    const claims = userService.verifyAccessToken(tokens.accessToken);
+    assert.equal(claims?.sub, tokens.user.id);
+});
+
+test('tampered access tokens are refused', async () => {
+    const { accessToken } = await login();
+    const [header, , signature] = accessToken.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'user-1', sid: 'x', iat: 0, exp: 9999999999 })).toString('base64url');
+    assert.equal(userService.verifyAccessToken(`${header}.${forged}.${signature}`), null);
+    assert.equal(userService.verifyAccessToken('not-a-token'), null);
+});
+
+test('refresh replaces the refresh token and reuse revokes the session', async () => {
+    const tokens = await login();
+    const refreshed = userService.refresh(tokens.refreshToken);
+    assert.ok(refreshed);
+    assert.notEqual(refreshed.refreshToken, tokens.refreshToken);
+
+    assert.equal(userService.refresh(tokens.refreshToken), null);
+    assert.equal(userService.refresh(refreshed.refreshToken), null);
+    assert.equal(userService.verifyAccessToken(refreshed.accessToken), null);
+});
+
+test('logout invalidates the access token', async () => {
+    const tokens = await login();
+    const claims = userService.verifyAccessToken(tokens.accessToken)!;
+    userService.logout(claims.sid);
+    assert.equal(userService.verifyAccessToken(tokens.accessToken), null);
+    assert.equal(userService.refresh(tokens.refreshToken), null);
+});
+
+test('setPassword ends existing sessions', async () => {
+    const tokens = await login();
+    assert.equal(await userService.setPassword(tokens.user.id, 'battery staple'), true);
+    assert.equal(userService.verifyAccessToken(tokens.accessToken), null);
+    assert.deepEqual(await userService.login('owner@example.com', 'correct horse'), { ok: false, code: 'INVALID_CREDENTIALS' });
+    await login('owner@example.com', 'battery staple');
+    assert.equal(await userService.setPassword('user-missing', 'battery staple'), false);
+});
+
+test('profile and role updates are persisted', () => {
+    const user = userService.list().find(u => u.email === profile.email)!;
+    assert.equal(userService.updateProfile(user.id, { monthlyBudget: 2500 })?.monthlyBudget, 2500);
+    assert.equal(userService.setRole(user.id, 'viewer')?.role, 'viewer');
+    assert.equal(userService.getById(user.id)?.role, 'viewer');
+    assert.equal(userService.setRole('user-missing', 'viewer'), null);
+});